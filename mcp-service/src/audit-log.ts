@@ -0,0 +1,207 @@
+/**
+ * 🧾 Registro de auditoría de las llamadas a herramientas
+ *
+ * Cada tools/call queda registrado como una línea JSON en un fichero de solo
+ * anexado (AUDIT_LOG_FILE): quién (sub/email del token verificado), desde qué
+ * sesión MCP, qué herramienta con qué argumentos (con secretos ocultos), el
+ * resultado, las entidades CAP afectadas y la duración.
+ *
+ * El endpoint de administración consulta el fichero por usuario, herramienta
+ * y rango de fechas.
+ */
+
+import { createReadStream } from 'node:fs';
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { createInterface } from 'node:readline';
+import { Request, Response } from 'express';
+import { ToolCallEvent, TouchedEntity } from './tools/registry.js';
+import { ANONYMOUS_OWNER } from './notes-store.js';
+
+export interface AuditRecord {
+  timestamp: string;                  // ISO 8601, fin de la llamada
+  sub: string;
+  email?: string;
+  sessionId?: string;
+  tool: string;
+  arguments: unknown;                 // Con los valores de claves sensibles sustituidos
+  outcome: ToolCallEvent['outcome'];
+  error?: string;
+  entities: TouchedEntity[];
+  durationMs: number;
+}
+
+export interface AuditQuery {
+  user?: string;                      // sub o email
+  tool?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export const MAX_AUDIT_QUERY_LIMIT = 1000;
+const DEFAULT_AUDIT_QUERY_LIMIT = 100;
+const REDACTED = '[REDACTED]';
+
+// Claves cuyos valores nunca se guardan (se comparan sin mayúsculas ni separadores)
+const DEFAULT_SECRET_KEYS = ['password', 'secret', 'token', 'apikey', 'authorization', 'credential', 'privatekey'];
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Copia de los argumentos con los valores de las claves sensibles sustituidos
+ */
+export function redactArguments(value: unknown, secretKeys: string[] = DEFAULT_SECRET_KEYS): unknown {
+  const keys = secretKeys.map(normalizeKey);
+  const redact = (item: unknown): unknown => {
+    if (Array.isArray(item)) {
+      return item.map(redact);
+    }
+    if (item && typeof item === 'object') {
+      return Object.fromEntries(Object.entries(item).map(([key, child]) => [
+        key,
+        keys.some((secret) => normalizeKey(key).includes(secret)) ? REDACTED : redact(child),
+      ]));
+    }
+    return item;
+  };
+  return redact(value);
+}
+
+export class AuditLog {
+  private writeQueue: Promise<void> = Promise.resolve();
+  private directoryReady?: Promise<unknown>;
+
+  /**
+   * @param secretKeys Claves adicionales a ocultar, además de las habituales (password, token...)
+   */
+  constructor(private filePath: string, private secretKeys: string[] = []) {}
+
+  /**
+   * Convierte el resultado de una llamada en un registro y lo anexa al fichero.
+   * Un fallo al escribir se registra en consola pero nunca afecta a la llamada.
+   */
+  record(event: ToolCallEvent): Promise<void> {
+    const user = event.context.user;
+    const record: AuditRecord = {
+      timestamp: new Date().toISOString(),
+      sub: user?.sub ?? ANONYMOUS_OWNER,
+      email: user?.email,
+      sessionId: event.context.sessionId,
+      tool: event.tool,
+      arguments: redactArguments(event.args, [...DEFAULT_SECRET_KEYS, ...this.secretKeys]),
+      outcome: event.outcome,
+      error: event.error,
+      entities: event.context.entities,
+      durationMs: event.durationMs,
+    };
+    return this.append(record);
+  }
+
+  private append(record: AuditRecord): Promise<void> {
+    const line = `${JSON.stringify(record)}\n`;
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        this.directoryReady ??= mkdir(dirname(this.filePath), { recursive: true });
+        await this.directoryReady;
+        await appendFile(this.filePath, line, { encoding: 'utf-8', flag: 'a' });
+      })
+      .catch((error: any) => {
+        console.error(`[AuditLog] No se pudo escribir en ${this.filePath}: ${error.message}`);
+      });
+    return this.writeQueue;
+  }
+
+  /**
+   * Registros que cumplen el filtro, del más reciente al más antiguo
+   */
+  async query(filter: AuditQuery = {}): Promise<AuditRecord[]> {
+    await this.writeQueue;
+    const limit = Math.min(filter.limit ?? DEFAULT_AUDIT_QUERY_LIMIT, MAX_AUDIT_QUERY_LIMIT);
+    const matches: AuditRecord[] = [];
+
+    let lines: AsyncIterable<string>;
+    try {
+      const stream = createReadStream(this.filePath, { encoding: 'utf-8' });
+      await new Promise((resolve, reject) => stream.once('open', resolve).once('error', reject));
+      lines = createInterface({ input: stream, crlfDelay: Infinity });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      let record: AuditRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        console.warn(`[AuditLog] Línea inválida ignorada en ${this.filePath}`);
+        continue;
+      }
+      const timestamp = Date.parse(record.timestamp);
+      if ((filter.user && record.sub !== filter.user && record.email !== filter.user)
+        || (filter.tool && record.tool !== filter.tool)
+        || (filter.from && timestamp < filter.from.getTime())
+        || (filter.to && timestamp > filter.to.getTime())) {
+        continue;
+      }
+      matches.push(record);
+      // Solo se conservan los más recientes
+      if (matches.length > limit) {
+        matches.shift();
+      }
+    }
+    return matches.reverse();
+  }
+}
+
+/**
+ * Handler de GET /admin/audit?user=&tool=&from=&to=&limit=
+ * (la autenticación y el permiso se comprueban antes, en el router)
+ */
+export function handleAuditQuery(auditLog: AuditLog) {
+  return async (req: Request, res: Response): Promise<void> => {
+    const param = (name: string) => (typeof req.query[name] === 'string' ? req.query[name] as string : undefined);
+    const problems: string[] = [];
+
+    const parseDate = (name: string): Date | undefined => {
+      const value = param(name);
+      if (value === undefined) {
+        return undefined;
+      }
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        problems.push(`${name}: se esperaba una fecha ISO 8601`);
+      }
+      return date;
+    };
+    const from = parseDate('from');
+    const to = parseDate('to');
+
+    const limitParam = param('limit');
+    const limit = limitParam === undefined ? undefined : Number(limitParam);
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_QUERY_LIMIT)) {
+      problems.push(`limit: se esperaba un entero entre 1 y ${MAX_AUDIT_QUERY_LIMIT}`);
+    }
+
+    if (problems.length > 0) {
+      res.status(400).json({ error: 'Parámetros inválidos', problems });
+      return;
+    }
+
+    try {
+      const records = await auditLog.query({ user: param('user'), tool: param('tool'), from, to, limit });
+      res.json({ count: records.length, records });
+    } catch (error: any) {
+      console.error(`[AuditLog] Error consultando el registro: ${error.message}`);
+      res.status(500).json({ error: 'Error consultando el registro de auditoría' });
+    }
+  };
+}
@@ -0,0 +1,228 @@
+/**
+ * 🛡️ Política de autorización por grupos y scopes de IAS
+ *
+ * El token solo demuestra quién es el usuario; la política decide qué puede usar.
+ * Cada usuario acumula permisos (p. ej. "cap:read", "cap:write") a partir de sus
+ * grupos (`groups`) y scopes (`scope`) del token, y cada herramienta, recurso o
+ * prompt requiere una lista de permisos. Lo que no puede usar no aparece en los
+ * listados y se rechaza al llamarlo.
+ *
+ * Ejemplo de fichero (AUTHZ_POLICY_FILE):
+ * {
+ *   "default": ["notes:read", "notes:write", "cap:read"],
+ *   "grants": [
+ *     { "groups": ["OrderManagers"], "permissions": ["cap:write"] },
+ *     { "scopes": ["cap.admin"], "permissions": ["cap:*"] }
+ *   ],
+ *   "require": {
+ *     "tools": { "odata_*_delete": ["cap:admin"] },
+ *     "resources": { "cap://customers/*": ["customers:read"] },
+ *     "prompts": { "summarize_notes": ["notes:read"] }
+ *   }
+ * }
+ */
+
+import { readFileSync } from 'node:fs';
+
+/**
+ * Permisos que concede un grupo o scope
+ */
+interface PolicyGrant {
+  groups?: string[];
+  scopes?: string[];
+  permissions: string[];
+}
+
+export interface AuthorizationPolicyConfig {
+  default?: string[];                                   // Permisos de cualquier usuario (también anónimo)
+  grants?: PolicyGrant[];
+  require?: {                                           // Se suman a los permisos declarados, por nombre o URI
+    tools?: Record<string, string[]>;
+    resources?: Record<string, string[]>;
+    prompts?: Record<string, string[]>;
+  };
+}
+
+/**
+ * Identidad del llamante tal y como la ve la política
+ */
+export interface Principal {
+  sub: string;
+  groups: string[];
+  scopes: string[];
+}
+
+export class PolicyError extends Error {
+  constructor(source: string, public problems: string[]) {
+    super(`Política de autorización inválida (${source}):\n${problems.map((p) => `- ${p}`).join('\n')}`);
+    this.name = 'PolicyError';
+  }
+}
+
+/**
+ * Patrón con comodines `*` (nombres de herramientas, URIs, permisos)
+ */
+function matchesPattern(name: string, pattern: string): boolean {
+  const regex = new RegExp(`^${pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return regex.test(name);
+}
+
+/**
+ * Permisos que requiere un recurso si la política no dice otra cosa
+ */
+function defaultResourcePermissions(uri: string): string[] {
+  if (uri.startsWith('note:')) {
+    return ['notes:read'];
+  }
+  if (uri.startsWith('cap:')) {
+    return ['cap:read'];
+  }
+  return [];
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function validateConfig(config: any): string[] {
+  const problems: string[] = [];
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return ['la política debe ser un objeto JSON'];
+  }
+  if (config.default !== undefined && !isStringList(config.default)) {
+    problems.push('default debe ser una lista de permisos');
+  }
+  if (config.grants !== undefined && !Array.isArray(config.grants)) {
+    problems.push('grants debe ser una lista');
+  }
+  (Array.isArray(config.grants) ? config.grants : []).forEach((grant: any, i: number) => {
+    if (!isStringList(grant?.permissions)) {
+      problems.push(`grants[${i}]: permissions debe ser una lista de permisos`);
+    }
+    if (grant?.groups === undefined && grant?.scopes === undefined) {
+      problems.push(`grants[${i}]: debe indicar groups o scopes`);
+    }
+    for (const key of ['groups', 'scopes']) {
+      if (grant?.[key] !== undefined && !isStringList(grant[key])) {
+        problems.push(`grants[${i}]: ${key} debe ser una lista de strings`);
+      }
+    }
+  });
+  for (const kind of ['tools', 'resources', 'prompts']) {
+    const rules = config.require?.[kind];
+    if (rules === undefined) {
+      continue;
+    }
+    if (typeof rules !== 'object' || Array.isArray(rules)) {
+      problems.push(`require.${kind} debe ser un objeto { patrón: [permisos] }`);
+      continue;
+    }
+    for (const [pattern, permissions] of Object.entries(rules)) {
+      if (!isStringList(permissions)) {
+        problems.push(`require.${kind}["${pattern}"] debe ser una lista de permisos`);
+      }
+    }
+  }
+  return problems;
+}
+
+export class AuthorizationPolicy {
+  private constructor(private config: AuthorizationPolicyConfig | undefined) {}
+
+  /**
+   * Sin fichero de política: cualquier usuario autenticado puede usarlo todo
+   */
+  static allowAll(): AuthorizationPolicy {
+    return new AuthorizationPolicy(undefined);
+  }
+
+  static fromConfig(config: unknown, source = 'config'): AuthorizationPolicy {
+    const problems = validateConfig(config);
+    if (problems.length > 0) {
+      throw new PolicyError(source, problems);
+    }
+    return new AuthorizationPolicy(config as AuthorizationPolicyConfig);
+  }
+
+  get enforced(): boolean {
+    return this.config !== undefined;
+  }
+
+  /**
+   * Permisos del llamante: los de `default` más los de cada grant que coincide
+   */
+  permissionsOf(principal: Principal): string[] {
+    if (!this.config) {
+      return ['*'];
+    }
+    const permissions = new Set(this.config.default ?? []);
+    for (const grant of this.config.grants ?? []) {
+      const byGroup = grant.groups?.some((group) => principal.groups.includes(group)) ?? false;
+      const byScope = grant.scopes?.some((scope) => principal.scopes.includes(scope)) ?? false;
+      if (byGroup || byScope) {
+        grant.permissions.forEach((permission) => permissions.add(permission));
+      }
+    }
+    return [...permissions];
+  }
+
+  /**
+   * Indica si el llamante tiene un permiso concreto (p. ej. "audit:read")
+   */
+  hasPermission(principal: Principal, permission: string): boolean {
+    return this.allows(principal, [permission]);
+  }
+
+  canUseTool(principal: Principal, name: string, declared: string[]): boolean {
+    return this.allows(principal, this.required('tools', name, declared));
+  }
+
+  canReadResource(principal: Principal, uri: string): boolean {
+    return this.allows(principal, this.required('resources', uri, defaultResourcePermissions(uri)));
+  }
+
+  canUsePrompt(principal: Principal, name: string, declared: string[]): boolean {
+    return this.allows(principal, this.required('prompts', name, declared));
+  }
+
+  /**
+   * Permisos que exige un elemento: los declarados por el propio elemento más los
+   * de todas las reglas de `require` que coinciden con su nombre o URI. El orden
+   * de las reglas no importa y una regla no puede rebajar lo declarado.
+   */
+  required(kind: 'tools' | 'resources' | 'prompts', name: string, declared: string[]): string[] {
+    const rules = this.config?.require?.[kind] ?? {};
+    const required = new Set(declared);
+    for (const [pattern, permissions] of Object.entries(rules)) {
+      if (matchesPattern(name, pattern)) {
+        permissions.forEach((permission) => required.add(permission));
+      }
+    }
+    return [...required];
+  }
+
+  private allows(principal: Principal, required: string[]): boolean {
+    if (!this.config) {
+      return true;
+    }
+    const granted = this.permissionsOf(principal);
+    return required.every((permission) => granted.some((pattern) => matchesPattern(permission, pattern)));
+  }
+}
+
+/**
+ * Carga la política desde AUTHZ_POLICY_FILE. Sin fichero se permite todo, como
+ * antes de existir la política; un fichero inválido impide arrancar.
+ */
+export function loadAuthorizationPolicy(filePath = process.env.AUTHZ_POLICY_FILE): AuthorizationPolicy {
+  if (!filePath) {
+    return AuthorizationPolicy.allowAll();
+  }
+  let config: unknown;
+  try {
+    config = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new PolicyError(filePath, [`no se pudo leer: ${error.message}`]);
+  }
+  return AuthorizationPolicy.fromConfig(config, filePath);
+}
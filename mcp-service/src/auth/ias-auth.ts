@@ -8,6 +8,8 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import jwksClient from 'jwks-rsa';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { tokenVerificationFailuresTotal } from '../metrics.js';
 
 /**
  * Configuración de IAS desde variables de entorno
@@ -63,6 +65,18 @@ export function initializeJWKSClient(config: IASConfig): void {
   console.log(`   JWKS URI: ${config.jwksUri}`);
 }
 
+/**
+ * Comprueba que el JWKS de IAS es accesible y devuelve cuántas claves de firma publica
+ * (para /ready y /health; no usa la caché de claves)
+ */
+export async function checkJWKS(): Promise<number> {
+  if (!jwksClientInstance) {
+    throw new Error('JWKS client not initialized');
+  }
+  const keys = await jwksClientInstance.getSigningKeys();
+  return keys.length;
+}
+
 /**
  * Obtiene la clave pública desde JWKS
  */
@@ -84,6 +98,35 @@ function getSigningKey(header: jwt.JwtHeader): Promise<string> {
   });
 }
 
+/**
+ * Motivo de un fallo de verificación, para la métrica auth_token_verification_failures_total
+ */
+function verificationFailureReason(error: any): string {
+  if (error instanceof jwt.TokenExpiredError) {
+    return 'expired';
+  }
+  if (error instanceof jwt.NotBeforeError) {
+    return 'not_yet_valid';
+  }
+  if (error instanceof jwt.JsonWebTokenError) {
+    if (error.message.startsWith('jwt issuer invalid')) {
+      return 'invalid_issuer';
+    }
+    if (error.message.startsWith('jwt audience invalid')) {
+      return 'invalid_audience';
+    }
+    return error.message === 'invalid signature' ? 'invalid_signature' : 'malformed';
+  }
+  if (error?.name === 'SigningKeyNotFoundError') {
+    return 'unknown_key';
+  }
+  if (error?.message?.includes('missing kid')) {
+    return 'malformed';
+  }
+  // Errores al obtener el JWKS de IAS (red, rate limit, cliente sin inicializar)
+  return 'jwks_unavailable';
+}
+
 /**
  * Verifica y decodifica un JWT token
  */
@@ -116,6 +159,7 @@ export async function verifyToken(
     return decoded;
   } catch (error: any) {
     console.error('❌ Token verification failed:', error.message);
+    tokenVerificationFailuresTotal.inc({ reason: verificationFailureReason(error) });
     throw new Error(`Invalid token: ${error.message}`);
   }
 }
@@ -138,6 +182,22 @@ export function extractToken(req: Request): string | null {
   return parts[1];
 }
 
+/**
+ * Construye el AuthInfo que el SDK MCP entrega a los handlers (extra.authInfo)
+ * a partir del token y, si está disponible, de su payload verificado
+ */
+export function buildAuthInfo(token: string, payload?: IASTokenPayload): AuthInfo {
+  const audience = Array.isArray(payload?.aud) ? payload?.aud[0] : payload?.aud;
+
+  return {
+    token,
+    clientId: audience || 'unknown',
+    scopes: payload?.scope ? payload.scope.split(' ') : [],
+    expiresAt: payload?.exp,
+    extra: payload ? { user: payload } : undefined,
+  };
+}
+
 /**
  * Middleware de autenticación para Express
  */
@@ -154,6 +214,7 @@ export function authMiddleware(config: IASConfig) {
       const token = extractToken(req);
 
       if (!token) {
+        tokenVerificationFailuresTotal.inc({ reason: 'missing_token' });
         res.status(401).json({
           jsonrpc: '2.0',
           error: {
@@ -193,7 +254,10 @@ export function authMiddleware(config: IASConfig) {
  * Intenta primero con Authorization header, si falla intenta con cookie de sesión
  * Implementa RFC 9728 (Protected Resource Metadata) retornando WWW-Authenticate header
  */
-export function combinedAuthMiddleware(config: IASConfig, getTokenFromSession: (sessionId: string) => string | null) {
+export function combinedAuthMiddleware(
+  config: IASConfig,
+  getTokenFromSession: (sessionId: string, res?: Response) => Promise<string | null>
+) {
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     // Si la autenticación está deshabilitada, continuar sin validar
     if (!config.enabled) {
@@ -222,7 +286,8 @@ export function combinedAuthMiddleware(config: IASConfig, getTokenFromSession: (
       const sessionId = req.cookies?.mcp_session;
 
       if (sessionId) {
-        const sessionToken = getTokenFromSession(sessionId);
+        // Puede renovar el token (y la cookie) si está por expirar
+        const sessionToken = await getTokenFromSession(sessionId, res);
 
         if (sessionToken) {
           try {
@@ -239,6 +304,9 @@ export function combinedAuthMiddleware(config: IASConfig, getTokenFromSession: (
       }
 
       // 3. Si ninguno funcionó, rechazar con WWW-Authenticate header (RFC 9728)
+      if (!headerToken && !sessionId) {
+        tokenVerificationFailuresTotal.inc({ reason: 'missing_token' });
+      }
       const baseUrl = process.env.PUBLIC_URL || `${req.protocol}://${req.get('host')}`;
       const resourceMetadataUrl = `${baseUrl}/.well-known/oauth-protected-resource`;
 
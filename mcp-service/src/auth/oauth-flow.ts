@@ -10,6 +10,8 @@
 import { Request, Response } from 'express';
 import axios from 'axios';
 import { randomBytes } from 'crypto';
+import { getSessionStore } from '../storage/session-store.js';
+import { oauthCallbacksTotal, oauthLoginsTotal, oauthSessionsActive } from '../metrics.js';
 
 export interface OAuthConfig {
   enabled: boolean;
@@ -21,23 +23,29 @@ export interface OAuthConfig {
 }
 
 /**
- * Almacenamiento temporal de estados CSRF (en producción, usar Redis)
+ * Estados CSRF y tokens por sesión viven en el session store compartido,
+ * así cualquier réplica puede completar el login o atender la sesión
  */
-const stateStore = new Map<string, { timestamp: number; redirectTo?: string }>();
-
-// Limpiar estados antiguos cada 5 minutos
-setInterval(() => {
-  const fiveMinutesAgo = Date.now() - 5 * 60 * 1000;
-  for (const [state, data] of stateStore.entries()) {
-    if (data.timestamp < fiveMinutesAgo) {
-      stateStore.delete(state);
-    }
-  }
-}, 5 * 60 * 1000);
+const store = getSessionStore();
+
+const STATE_KEY_PREFIX = 'oauth:state:';
+const SESSION_KEY_PREFIX = 'oauth:session:';
 
 /**
- * Almacenamiento temporal de tokens por sesión (en producción, usar Redis)
+ * Vida de un estado CSRF pendiente (5 minutos)
  */
+const STATE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Vida máxima de una sesión renovable con refresh_token
+ */
+const SESSION_TTL_MS = parseInt(process.env.OAUTH_SESSION_TTL_SECONDS || '86400', 10) * 1000;
+
+interface StateData {
+  timestamp: number;
+  redirectTo?: string;
+}
+
 interface TokenData {
   access_token: string;
   refresh_token?: string;
@@ -45,7 +53,54 @@ interface TokenData {
   user_info?: any;
 }
 
-const sessionStore = new Map<string, TokenData>();
+/**
+ * Caducidad de las sesiones guardadas desde este pod (métrica oauth_sessions_active;
+ * el store no permite contar las claves de todas las réplicas)
+ */
+const sessionExpiry = new Map<string, number>();
+
+oauthSessionsActive.collect(() => {
+  const now = Date.now();
+  for (const [sessionId, expiresAt] of sessionExpiry) {
+    if (expiresAt <= now) {
+      sessionExpiry.delete(sessionId);
+    }
+  }
+  return sessionExpiry.size;
+});
+
+function loadSession(sessionId: string): Promise<TokenData | undefined> {
+  return store.get<TokenData>(SESSION_KEY_PREFIX + sessionId);
+}
+
+/**
+ * Vida de la sesión en el servidor: SESSION_TTL_MS si se puede renovar; sin
+ * refresh_token no tiene sentido conservarla más allá del access_token
+ */
+function sessionTtlMs(session: TokenData): number {
+  return session.refresh_token ? SESSION_TTL_MS : session.expires_at - Date.now();
+}
+
+function saveSession(sessionId: string, session: TokenData): Promise<void> {
+  const ttlMs = sessionTtlMs(session);
+  sessionExpiry.set(sessionId, Date.now() + ttlMs);
+  return store.set(SESSION_KEY_PREFIX + sessionId, session, ttlMs);
+}
+
+function deleteSession(sessionId: string): Promise<void> {
+  sessionExpiry.delete(sessionId);
+  return store.delete(SESSION_KEY_PREFIX + sessionId);
+}
+
+/**
+ * Margen antes de la expiración a partir del cual se renueva el access_token
+ */
+const REFRESH_MARGIN_MS = parseInt(process.env.IAS_REFRESH_MARGIN_SECONDS || '60', 10) * 1000;
+
+/**
+ * Refrescos en curso por sesión (las llamadas concurrentes del mismo pod comparten la misma promesa)
+ */
+const refreshInFlight = new Map<string, Promise<TokenData | null>>();
 
 /**
  * Genera un ID de sesión único
@@ -61,13 +116,137 @@ function generateState(): string {
   return randomBytes(32).toString('hex');
 }
 
+/**
+ * Emite (o renueva) la cookie de sesión con la misma vida que la sesión del
+ * servidor: si caducara con el access_token, el navegador dejaría de enviarla
+ * y la sesión ya no se podría renovar con el refresh_token
+ */
+function setSessionCookie(res: Response, sessionId: string, session: TokenData): void {
+  res.cookie('mcp_session', sessionId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: Math.max(sessionTtlMs(session), 0),
+  });
+}
+
+/**
+ * Intercambia el refresh_token de la sesión por un nuevo access_token en IAS.
+ * Soporta rotación: si IAS devuelve un refresh_token nuevo, reemplaza al anterior.
+ */
+async function exchangeRefreshToken(config: OAuthConfig, sessionId: string, session: TokenData): Promise<TokenData | null> {
+  try {
+    console.log(`🔄 Refreshing access token for session: ${sessionId}`);
+
+    const tokenResponse = await axios.post(
+      `${config.issuer}/oauth2/token`,
+      new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: session.refresh_token!,
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+      }).toString(),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      }
+    );
+
+    const { access_token, refresh_token, expires_in } = tokenResponse.data;
+
+    const refreshed: TokenData = {
+      ...session,
+      access_token,
+      refresh_token: refresh_token || session.refresh_token,
+      expires_at: Date.now() + expires_in * 1000,
+    };
+    await saveSession(sessionId, refreshed);
+
+    console.log(`✅ Access token refreshed (expires in ${expires_in} seconds, rotated: ${!!refresh_token && refresh_token !== session.refresh_token})`);
+    return refreshed;
+  } catch (error: any) {
+    console.error(`❌ Token refresh failed for session ${sessionId}:`, error.response?.data || error.message);
+
+    // Otra réplica pudo haber rotado el refresh_token mientras tanto
+    const current = await loadSession(sessionId);
+    if (current && current.refresh_token !== session.refresh_token) {
+      return current;
+    }
+
+    // Un refresh_token rechazado (expirado o revocado) invalida la sesión
+    if (error.response?.status === 400 || error.response?.status === 401) {
+      await deleteSession(sessionId);
+    }
+    return null;
+  }
+}
+
+/**
+ * Renueva la sesión compartiendo un único refresh en curso entre llamadas concurrentes
+ */
+function refreshSession(config: OAuthConfig, sessionId: string, session: TokenData): Promise<TokenData | null> {
+  const inFlight = refreshInFlight.get(sessionId);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const refresh = exchangeRefreshToken(config, sessionId, session).finally(() => {
+    refreshInFlight.delete(sessionId);
+  });
+  refreshInFlight.set(sessionId, refresh);
+  return refresh;
+}
+
+/**
+ * Obtiene una sesión válida, renovándola si el access_token está próximo a
+ * expirar o ya expiró. Si se renueva y hay respuesta disponible, extiende
+ * también la cookie.
+ *
+ * La renovación es perezosa: solo ocurre cuando llega una petición con la
+ * sesión, no hay un refresh periódico en segundo plano. Una sesión inactiva
+ * más tiempo que la vida del refresh_token en IAS ya no se puede renovar y
+ * exige un nuevo login, aunque siga guardada hasta OAUTH_SESSION_TTL_SECONDS.
+ */
+async function resolveSession(config: OAuthConfig, sessionId: string, res?: Response): Promise<TokenData | null> {
+  const session = await loadSession(sessionId);
+  if (!session) {
+    return null;
+  }
+
+  // Token vigente y fuera del margen de renovación; expirado o dentro del margen se renueva
+  if (session.expires_at - REFRESH_MARGIN_MS > Date.now()) {
+    return session;
+  }
+
+  if (!session.refresh_token) {
+    if (session.expires_at < Date.now()) {
+      await deleteSession(sessionId);
+      return null;
+    }
+    return session;
+  }
+
+  const refreshed = await refreshSession(config, sessionId, session);
+  if (!refreshed) {
+    // Si el refresh falló pero el token aún no expiró, seguir usándolo
+    return session.expires_at > Date.now() && (await loadSession(sessionId)) ? session : null;
+  }
+
+  if (res && !res.headersSent) {
+    setSessionCookie(res, sessionId, refreshed);
+  }
+  return refreshed;
+}
+
 /**
  * Endpoint /mcp/login
  * Inicia el flujo OAuth redirigiendo al usuario a IAS
  */
 export function handleLogin(config: OAuthConfig) {
-  return (req: Request, res: Response): void => {
+  return async (req: Request, res: Response): Promise<void> => {
     if (!config.enabled) {
+      oauthLoginsTotal.inc({ outcome: 'disabled' });
       res.status(503).json({
         error: 'OAuth flow is not enabled',
         message: 'Set IAS_ENABLED=true and configure OAuth settings',
@@ -80,10 +259,10 @@ export function handleLogin(config: OAuthConfig) {
       const state = generateState();
       const redirectTo = (req.query.redirect as string) || '/mcp';
 
-      stateStore.set(state, {
+      await store.set<StateData>(STATE_KEY_PREFIX + state, {
         timestamp: Date.now(),
         redirectTo,
-      });
+      }, STATE_TTL_MS);
 
       // Construir URL de autorización de IAS
       const authUrl = new URL(`${config.issuer}/oauth2/authorize`);
@@ -98,9 +277,11 @@ export function handleLogin(config: OAuthConfig) {
       console.log(`   Redirect after login: ${redirectTo}`);
 
       // Redirigir al usuario a IAS
+      oauthLoginsTotal.inc({ outcome: 'redirected' });
       res.redirect(authUrl.toString());
     } catch (error: any) {
       console.error('❌ Error in /mcp/login:', error);
+      oauthLoginsTotal.inc({ outcome: 'error' });
       res.status(500).json({
         error: 'Failed to initiate OAuth flow',
         message: error.message,
@@ -116,6 +297,7 @@ export function handleLogin(config: OAuthConfig) {
 export function handleCallback(config: OAuthConfig) {
   return async (req: Request, res: Response): Promise<void> => {
     if (!config.enabled) {
+      oauthCallbacksTotal.inc({ outcome: 'disabled' });
       res.status(503).json({
         error: 'OAuth flow is not enabled',
       });
@@ -128,6 +310,7 @@ export function handleCallback(config: OAuthConfig) {
       // Verificar si hubo un error en IAS
       if (error) {
         console.error(`❌ OAuth error from IAS: ${error} - ${error_description}`);
+        oauthCallbacksTotal.inc({ outcome: 'idp_error' });
         res.status(400).send(`
           <html>
             <body>
@@ -143,6 +326,7 @@ export function handleCallback(config: OAuthConfig) {
 
       // Verificar que recibimos el code y el state
       if (!code || !state) {
+        oauthCallbacksTotal.inc({ outcome: 'missing_parameters' });
         res.status(400).json({
           error: 'Missing code or state parameter',
         });
@@ -150,9 +334,10 @@ export function handleCallback(config: OAuthConfig) {
       }
 
       // Verificar el state (protección CSRF)
-      const stateData = stateStore.get(state as string);
+      const stateData = await store.get<StateData>(STATE_KEY_PREFIX + state);
       if (!stateData) {
         console.error('❌ Invalid or expired state');
+        oauthCallbacksTotal.inc({ outcome: 'invalid_state' });
         res.status(400).json({
           error: 'Invalid or expired state',
           message: 'Please try logging in again',
@@ -161,7 +346,7 @@ export function handleCallback(config: OAuthConfig) {
       }
 
       // Eliminar el state usado
-      stateStore.delete(state as string);
+      await store.delete(STATE_KEY_PREFIX + state);
 
       console.log(`🔐 Exchanging authorization code for access token...`);
       console.log(`   Code: ${(code as string).substring(0, 20)}...`);
@@ -203,11 +388,12 @@ export function handleCallback(config: OAuthConfig) {
       const sessionId = generateSessionId();
 
       // Almacenar token en sesión
-      sessionStore.set(sessionId, {
+      const session: TokenData = {
         access_token,
         refresh_token,
         expires_at: expiresAt,
-      });
+      };
+      await saveSession(sessionId, session);
 
       console.log(`💾 Token stored in session: ${sessionId}`);
 
@@ -226,10 +412,8 @@ export function handleCallback(config: OAuthConfig) {
         console.log(`👤 User info obtained: ${userInfo.email || userInfo.sub}`);
 
         // Actualizar sesión con info de usuario
-        const session = sessionStore.get(sessionId);
-        if (session) {
-          session.user_info = userInfo;
-        }
+        session.user_info = userInfo;
+        await saveSession(sessionId, session);
       } catch (userInfoError) {
         console.warn('⚠️  Could not fetch user info:', userInfoError);
       }
@@ -237,13 +421,10 @@ export function handleCallback(config: OAuthConfig) {
       // Redirigir al usuario con la sesión
       const redirectTo = stateData.redirectTo || '/mcp';
 
+      oauthCallbacksTotal.inc({ outcome: 'success' });
+
       // Opción 1: Cookie HTTP-only (más seguro)
-      res.cookie('mcp_session', sessionId, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: expires_in * 1000,
-      });
+      setSessionCookie(res, sessionId, session);
 
       // Redirigir con página de éxito
       res.send(`
@@ -334,6 +515,9 @@ Has refresh token: ${!!refresh_token ? 'Yes' : 'No'}</pre>
     } catch (error: any) {
       console.error('❌ Error in /mcp/callback:', error);
 
+      // Un error con respuesta HTTP viene de IAS (intercambio del code rechazado)
+      oauthCallbacksTotal.inc({ outcome: error.response ? 'token_exchange_failed' : 'error' });
+
       let errorMessage = error.message;
       if (error.response) {
         errorMessage = `${error.response.status} - ${JSON.stringify(error.response.data)}`;
@@ -355,8 +539,8 @@ Has refresh token: ${!!refresh_token ? 'Yes' : 'No'}</pre>
 /**
  * Middleware para verificar sesión
  */
-export function requireSession() {
-  return (req: Request, res: Response, next: Function): void => {
+export function requireSession(config: OAuthConfig) {
+  return async (req: Request, res: Response, next: Function): Promise<void> => {
     const sessionId = req.cookies?.mcp_session;
 
     if (!sessionId) {
@@ -368,7 +552,8 @@ export function requireSession() {
       return;
     }
 
-    const session = sessionStore.get(sessionId);
+    // Obtener la sesión, renovando el token si está por expirar
+    const session = await resolveSession(config, sessionId, res);
     if (!session) {
       res.status(401).json({
         error: 'Invalid or expired session',
@@ -378,17 +563,6 @@ export function requireSession() {
       return;
     }
 
-    // Verificar si el token expiró
-    if (session.expires_at < Date.now()) {
-      sessionStore.delete(sessionId);
-      res.status(401).json({
-        error: 'Session expired',
-        message: 'Please log in again',
-        login_url: '/mcp/login',
-      });
-      return;
-    }
-
     // Agregar token al request
     (req as any).accessToken = session.access_token;
     (req as any).userInfo = session.user_info;
@@ -401,11 +575,12 @@ export function requireSession() {
  * Endpoint /mcp/logout
  */
 export function handleLogout() {
-  return (req: Request, res: Response): void => {
+  return async (req: Request, res: Response): Promise<void> => {
     const sessionId = req.cookies?.mcp_session;
 
     if (sessionId) {
-      sessionStore.delete(sessionId);
+      await deleteSession(sessionId);
+      refreshInFlight.delete(sessionId);
       res.clearCookie('mcp_session');
     }
 
@@ -434,14 +609,61 @@ export function handleLogout() {
 }
 
 /**
- * Obtiene el token de la sesión
+ * Obtiene el token de la sesión, renovándolo con el refresh_token si está por expirar o expiró
  */
-export function getTokenFromSession(sessionId: string): string | null {
-  const session = sessionStore.get(sessionId);
-  if (!session || session.expires_at < Date.now()) {
-    return null;
-  }
-  return session.access_token;
+export function getTokenFromSession(config: OAuthConfig) {
+  return async (sessionId: string, res?: Response): Promise<string | null> => {
+    const session = await resolveSession(config, sessionId, res);
+    return session ? session.access_token : null;
+  };
+}
+
+/**
+ * Token de la propia aplicación (client_credentials) en caché hasta REFRESH_MARGIN_MS antes de expirar
+ */
+let serviceToken: { accessToken: string; expiresAt: number } | null = null;
+let serviceTokenInFlight: Promise<string> | null = null;
+
+async function requestServiceToken(config: OAuthConfig): Promise<string> {
+  const tokenResponse = await axios.post(
+    `${config.issuer}/oauth2/token`,
+    new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+    }).toString(),
+    {
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+    }
+  );
+
+  const { access_token, expires_in } = tokenResponse.data;
+  serviceToken = { accessToken: access_token, expiresAt: Date.now() + expires_in * 1000 };
+  console.log(`🔑 Service token obtained (expires in ${expires_in} seconds)`);
+  return access_token;
+}
+
+/**
+ * Token de servicio para las llamadas a CAP que no dependen del usuario (p. ej.
+ * el $metadata). Sin OAuth configurado devuelve undefined y la llamada va sin token.
+ */
+export function getServiceToken(config: OAuthConfig) {
+  return async (): Promise<string | undefined> => {
+    if (!config.enabled || !config.clientSecret) {
+      return undefined;
+    }
+    if (serviceToken && serviceToken.expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+      return serviceToken.accessToken;
+    }
+    if (!serviceTokenInFlight) {
+      serviceTokenInFlight = requestServiceToken(config).finally(() => {
+        serviceTokenInFlight = null;
+      });
+    }
+    return serviceTokenInFlight;
+  };
 }
 
 /**
@@ -5,7 +5,33 @@
  * desde las herramientas MCP. Actúa como capa de abstracción entre MCP y CAP.
  */
 
-import axios, { AxiosInstance } from 'axios';
+import { context, propagation, Span, SpanKind, trace } from '@opentelemetry/api';
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { buildODataQuery, EntityModel, ODataQueryOptions } from './cap-query.js';
+import { CapResilience, CapUnavailableError, getCapResilience } from './cap-resilience.js';
+import { capRequestDuration } from './metrics.js';
+import { getTracer, recordError } from './tracing.js';
+
+type InstrumentedRequestConfig = InternalAxiosRequestConfig & { capStartedAt?: number; capSpan?: Span };
+
+/**
+ * Entidad o acción de una URL relativa al servicio, para las métricas y las trazas
+ * ("/Products(id)?$expand=..." → "Products", "/createCompleteOrder" → "createCompleteOrder")
+ */
+function capTarget(url: string = ''): string {
+  return url.replace(/^\//, '').split(/[(?\/]/)[0] || '/';
+}
+
+/**
+ * Error de una petición a CAP que sí respondió; conserva el código HTTP
+ * (p. ej. para distinguir un 404 de otros fallos)
+ */
+export class CapRequestError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'CapRequestError';
+  }
+}
 
 /**
  * Cliente HTTP para comunicarse con el servicio OData de CAP
@@ -15,7 +41,7 @@ export class CAPClient {
   private baseUrl: string;
   private authToken?: string;
 
-  constructor(baseUrl: string = 'http://localhost:4004', authToken?: string) {
+  constructor(baseUrl: string = 'http://localhost:4004', authToken?: string, private resilience: CapResilience = getCapResilience()) {
     this.baseUrl = baseUrl;
     this.authToken = authToken;
 
@@ -34,6 +60,77 @@ export class CAPClient {
       baseURL: `${baseUrl}/odata/v4/catalog`,
       headers
     });
+    // Métricas y trazas se instalan antes para medir cada intento por separado, incluidos los reintentos
+    this.instrument();
+    // Timeout, reintentos de las peticiones idempotentes y circuit breaker compartido
+    this.resilience.install(this.client);
+  }
+
+  /**
+   * Los errores de disponibilidad de CAP se propagan tal cual; el resto se envuelve con contexto
+   */
+  private wrapError(error: any, message: string): Error {
+    return error instanceof CapUnavailableError ? error : new CapRequestError(message, error.response?.status);
+  }
+
+  /**
+   * Mide cada petición HTTP a CAP (métrica de duración por código de estado) y la
+   * traza como span de cliente hijo del span activo, reenviando `traceparent` a CAP
+   */
+  private instrument(): void {
+    const finish = (config: InstrumentedRequestConfig | undefined, status: string, error?: AxiosError) => {
+      if (config?.capStartedAt === undefined) {
+        return;
+      }
+      capRequestDuration.observe(
+        { method: (config.method ?? 'get').toUpperCase(), target: capTarget(config.url), status },
+        (Date.now() - config.capStartedAt) / 1000
+      );
+      const span = config.capSpan;
+      if (span) {
+        span.setAttributes({ 'http.response.status_code': error ? error.response?.status : Number(status) });
+        if (error) {
+          recordError(span, error);
+        }
+        span.end();
+      }
+    };
+
+    this.client.interceptors.request.use((config: InstrumentedRequestConfig) => {
+      const method = (config.method ?? 'get').toUpperCase();
+      const target = capTarget(config.url);
+      // La query ($filter) puede llevar datos de clientes: solo se traza la ruta
+      const path = `${config.baseURL ?? ''}/${(config.url ?? '').replace(/^\//, '').split('?')[0]}`;
+      config.capSpan = getTracer().startSpan(`${method} ${target}`, {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          'http.request.method': method,
+          'url.full': path,
+          'cap.target': target,
+        },
+      });
+      propagation.inject(trace.setSpan(context.active(), config.capSpan), config.headers, {
+        set: (headers, key, value) => headers.set(key, value),
+      });
+      config.capStartedAt = Date.now();
+      return config;
+    });
+    this.client.interceptors.response.use(
+      (response) => {
+        finish(response.config, String(response.status));
+        return response;
+      },
+      (error: any) => {
+        // Las peticiones rechazadas por el circuit breaker no llegan a salir y no se miden
+        if (error instanceof AxiosError) {
+          const status = error.response
+            ? String(error.response.status)
+            : error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' ? 'timeout' : 'network_error';
+          finish(error.config, status, error);
+        }
+        throw error;
+      }
+    );
   }
 
   /**
@@ -68,7 +165,7 @@ export class CAPClient {
       console.error(`[CAPClient] URL base configurada: ${this.baseUrl}`);
       console.error(`[CAPClient] Código de error: ${error.code}`);
       console.error(`[CAPClient] Respuesta del servidor:`, error.response?.data);
-      throw new Error(`Error obteniendo productos: ${error.message} (${error.code || 'UNKNOWN'}) - URL: ${this.baseUrl}`);
+      throw this.wrapError(error, `Error obteniendo productos: ${error.message} (${error.code || 'UNKNOWN'}) - URL: ${this.baseUrl}`);
     }
   }
 
@@ -80,7 +177,7 @@ export class CAPClient {
       const response = await this.client.get(`/Products(${id})`);
       return response.data;
     } catch (error: any) {
-      throw new Error(`Error obteniendo producto ${id}: ${error.message}`);
+      throw this.wrapError(error, `Error obteniendo producto ${id}: ${error.message}`);
     }
   }
 
@@ -98,7 +195,7 @@ export class CAPClient {
       const response = await this.client.post('/Products', productData);
       return response.data;
     } catch (error: any) {
-      throw new Error(`Error creando producto: ${error.message}`);
+      throw this.wrapError(error, `Error creando producto: ${error.message}`);
     }
   }
 
@@ -110,7 +207,7 @@ export class CAPClient {
       const response = await this.client.patch(`/Products(${id})`, productData);
       return response.data;
     } catch (error: any) {
-      throw new Error(`Error actualizando producto: ${error.message}`);
+      throw this.wrapError(error, `Error actualizando producto: ${error.message}`);
     }
   }
 
@@ -122,7 +219,7 @@ export class CAPClient {
       const response = await this.client.get('/Orders?$expand=items($expand=product)');
       return response.data.value || [];
     } catch (error: any) {
-      throw new Error(`Error obteniendo órdenes: ${error.message}`);
+      throw this.wrapError(error, `Error obteniendo órdenes: ${error.message}`);
     }
   }
 
@@ -134,7 +231,7 @@ export class CAPClient {
       const response = await this.client.get(`/Orders(${id})?$expand=items($expand=product)`);
       return response.data;
     } catch (error: any) {
-      throw new Error(`Error obteniendo orden ${id}: ${error.message}`);
+      throw this.wrapError(error, `Error obteniendo orden ${id}: ${error.message}`);
     }
   }
 
@@ -149,7 +246,7 @@ export class CAPClient {
       });
       return response.data;
     } catch (error: any) {
-      throw new Error(`Error creando orden: ${error.message}`);
+      throw this.wrapError(error, `Error creando orden: ${error.message}`);
     }
   }
 
@@ -164,7 +261,7 @@ export class CAPClient {
       });
       return response.data;
     } catch (error: any) {
-      throw new Error(`Error actualizando estado de orden: ${error.message}`);
+      throw this.wrapError(error, `Error actualizando estado de orden: ${error.message}`);
     }
   }
 
@@ -179,7 +276,7 @@ export class CAPClient {
       return response.data.value || [];
     } catch (error: any) {
       console.error(`[CAPClient] Error al obtener productos con bajo stock:`, error);
-      throw new Error(`Error obteniendo productos con bajo stock: ${error.message} (${error.code || 'UNKNOWN'}) - URL: ${this.baseUrl}`);
+      throw this.wrapError(error, `Error obteniendo productos con bajo stock: ${error.message} (${error.code || 'UNKNOWN'}) - URL: ${this.baseUrl}`);
     }
   }
 
@@ -191,7 +288,91 @@ export class CAPClient {
       const response = await this.client.get('/Customers');
       return response.data.value || [];
     } catch (error: any) {
-      throw new Error(`Error obteniendo clientes: ${error.message}`);
+      throw this.wrapError(error, `Error obteniendo clientes: ${error.message}`);
+    }
+  }
+
+  /**
+   * Obtiene un cliente específico por ID
+   */
+  async getCustomerById(id: string) {
+    try {
+      const response = await this.client.get(`/Customers(${id})`);
+      return response.data;
+    } catch (error: any) {
+      throw this.wrapError(error, `Error obteniendo cliente ${id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Obtiene una página de una entidad OData ($top/$skip), ordenada por ID para que sea estable
+   */
+  async getEntityPage(entitySet: string, top: number, skip: number, select?: string[]) {
+    try {
+      const params: Record<string, string | number> = {
+        $top: top,
+        $skip: skip,
+        $orderby: 'ID',
+      };
+      if (select && select.length > 0) {
+        params.$select = select.join(',');
+      }
+      const response = await this.client.get(`/${entitySet}`, { params });
+      return response.data.value || [];
+    } catch (error: any) {
+      throw this.wrapError(error, `Error obteniendo ${entitySet}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Consulta una entidad con filtro estructurado, select, expand, orderby, top y skip.
+   * La consulta se valida contra el modelo antes de enviarla (lanza QueryValidationError).
+   */
+  async query(
+    entitySet: string,
+    options: ODataQueryOptions = {},
+    model?: Record<string, EntityModel>
+  ): Promise<{ value: any[]; count?: number }> {
+    const params = buildODataQuery(entitySet, options, model);
+    try {
+      console.log(`[CAPClient] Consultando ${entitySet}: ${JSON.stringify(params)}`);
+      const response = await this.client.get(`/${entitySet}`, { params });
+      return {
+        value: response.data.value || [],
+        count: response.data['@odata.count'],
+      };
+    } catch (error: any) {
+      const detail = error.response?.data?.error?.message;
+      throw this.wrapError(error, `Error consultando ${entitySet}: ${error.message}${detail ? ` - ${detail}` : ''}`);
+    }
+  }
+
+  /**
+   * Obtiene el documento $metadata (EDMX) del servicio
+   */
+  async getMetadata(): Promise<string> {
+    try {
+      const response = await this.client.get('/$metadata', {
+        headers: { Accept: 'application/xml' },
+        responseType: 'text',
+      });
+      return response.data;
+    } catch (error: any) {
+      throw this.wrapError(error, `Error obteniendo $metadata: ${error.message}`);
+    }
+  }
+
+  /**
+   * Petición OData genérica relativa al servicio (herramientas generadas desde $metadata)
+   */
+  async request(method: 'GET' | 'POST' | 'PATCH' | 'DELETE', path: string, data?: any, params?: Record<string, string>) {
+    try {
+      console.log(`[CAPClient] ${method} ${path}`);
+      const response = await this.client.request({ method, url: path, data, params });
+      return response.data;
+    } catch (error: any) {
+      const detail = error.response?.data?.error?.message;
+      throw this.wrapError(error, `Error en ${method} ${path}: ${error.message}${detail ? ` - ${detail}` : ''}`);
     }
   }
 
@@ -208,7 +389,7 @@ export class CAPClient {
       const response = await this.client.post('/Customers', customerData);
       return response.data;
     } catch (error: any) {
-      throw new Error(`Error creando cliente: ${error.message}`);
+      throw this.wrapError(error, `Error creando cliente: ${error.message}`);
     }
   }
 
@@ -217,10 +398,26 @@ export class CAPClient {
    */
   async healthCheck() {
     try {
-      const response = await axios.get(`${this.baseUrl}/`);
-      return response.status === 200;
+      await this.ping();
+      return true;
     } catch (error) {
       return false;
     }
   }
+
+  /**
+   * Como healthCheck, pero lanza el motivo si CAP no responde. No pasa por el
+   * circuit breaker, para poder comprobar si CAP se ha recuperado.
+   */
+  async ping(timeoutMs: number = this.resilience.config.timeoutMs): Promise<void> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/`, { timeout: timeoutMs });
+      if (response.status !== 200) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    } catch (error: any) {
+      const reason = error.response ? `HTTP ${error.response.status}` : error.code ?? error.message;
+      throw new Error(`CAP no responde en ${this.baseUrl}/: ${reason}`);
+    }
+  }
 }
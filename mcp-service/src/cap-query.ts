@@ -0,0 +1,344 @@
+/**
+ * 🔎 Constructor de consultas OData para CAP
+ *
+ * Traduce una consulta estructurada (filtro como árbol de condiciones, select,
+ * expand, orderby, top y skip) a parámetros de sistema OData v4, validando
+ * campos, operadores y tipos contra el modelo de la entidad antes de enviarla.
+ */
+
+/**
+ * Tipos EDM primitivos soportados en filtros y claves
+ */
+export type EdmType =
+  | 'Edm.Guid'
+  | 'Edm.String'
+  | 'Edm.Byte'
+  | 'Edm.Int16'
+  | 'Edm.Int32'
+  | 'Edm.Int64'
+  | 'Edm.Decimal'
+  | 'Edm.Double'
+  | 'Edm.Single'
+  | 'Edm.Boolean'
+  | 'Edm.Date'
+  | 'Edm.TimeOfDay'
+  | 'Edm.DateTimeOffset';
+
+export const EDM_TYPES: EdmType[] = [
+  'Edm.Guid', 'Edm.String', 'Edm.Byte', 'Edm.Int16', 'Edm.Int32', 'Edm.Int64', 'Edm.Decimal',
+  'Edm.Double', 'Edm.Single', 'Edm.Boolean', 'Edm.Date', 'Edm.TimeOfDay', 'Edm.DateTimeOffset',
+];
+
+/**
+ * Modelo de una entidad: propiedades con su tipo y navegaciones expandibles
+ */
+export interface EntityModel {
+  name: string;
+  properties: Record<string, EdmType>;
+  navigation: Record<string, string>;   // Navegación -> entidad destino
+}
+
+/**
+ * Modelo del servicio CatalogService (ver cap-service/db/schema.cds)
+ */
+export const CATALOG_MODEL: Record<string, EntityModel> = {
+  Products: {
+    name: 'Products',
+    properties: {
+      ID: 'Edm.Guid',
+      name: 'Edm.String',
+      description: 'Edm.String',
+      price: 'Edm.Decimal',
+      stock: 'Edm.Int32',
+      category: 'Edm.String',
+      active: 'Edm.Boolean',
+      createdAt: 'Edm.DateTimeOffset',
+      modifiedAt: 'Edm.DateTimeOffset',
+    },
+    navigation: {},
+  },
+  Orders: {
+    name: 'Orders',
+    properties: {
+      ID: 'Edm.Guid',
+      orderNumber: 'Edm.String',
+      customerName: 'Edm.String',
+      totalAmount: 'Edm.Decimal',
+      status: 'Edm.String',
+      orderDate: 'Edm.DateTimeOffset',
+    },
+    navigation: { items: 'OrderItems' },
+  },
+  OrderItems: {
+    name: 'OrderItems',
+    properties: {
+      ID: 'Edm.Guid',
+      order_ID: 'Edm.Guid',
+      product_ID: 'Edm.Guid',
+      quantity: 'Edm.Int32',
+      unitPrice: 'Edm.Decimal',
+      subtotal: 'Edm.Decimal',
+    },
+    navigation: { order: 'Orders', product: 'Products' },
+  },
+  Customers: {
+    name: 'Customers',
+    properties: {
+      ID: 'Edm.Guid',
+      name: 'Edm.String',
+      email: 'Edm.String',
+      phone: 'Edm.String',
+      address: 'Edm.String',
+      active: 'Edm.Boolean',
+      createdAt: 'Edm.DateTimeOffset',
+    },
+    navigation: {},
+  },
+};
+
+export type ComparisonOperator = 'eq' | 'ne' | 'gt' | 'ge' | 'lt' | 'le' | 'contains' | 'startswith' | 'endswith' | 'in';
+
+/**
+ * Expresión de filtro: una condición o una combinación lógica de expresiones
+ */
+export type FilterExpression =
+  | { field: string; op: ComparisonOperator; value: unknown }
+  | { and: FilterExpression[] }
+  | { or: FilterExpression[] }
+  | { not: FilterExpression };
+
+export interface ODataQueryOptions {
+  filter?: FilterExpression;
+  select?: string[];
+  expand?: string[];
+  orderby?: Array<{ field: string; direction?: 'asc' | 'desc' }>;
+  top?: number;
+  skip?: number;
+}
+
+export const MAX_QUERY_TOP = 1000;
+// Resultados por defecto cuando no se indica top
+export const DEFAULT_QUERY_TOP = 50;
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['eq', 'ne', 'gt', 'ge', 'lt', 'le', 'contains', 'startswith', 'endswith', 'in'];
+const STRING_FUNCTIONS: ComparisonOperator[] = ['contains', 'startswith', 'endswith'];
+const INTEGER_TYPES: EdmType[] = ['Edm.Byte', 'Edm.Int16', 'Edm.Int32', 'Edm.Int64'];
+const NUMBER_TYPES: EdmType[] = ['Edm.Decimal', 'Edm.Double', 'Edm.Single'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Error de validación con la lista de problemas encontrados
+ */
+export class QueryValidationError extends Error {
+  constructor(public problems: string[]) {
+    super(`Consulta inválida:\n${problems.map((p) => `- ${p}`).join('\n')}`);
+    this.name = 'QueryValidationError';
+  }
+}
+
+/**
+ * Formatea un valor como literal OData según su tipo EDM.
+ * Los problemas se acumulan en `problems` y se devuelve undefined.
+ */
+export function formatLiteral(value: unknown, type: EdmType, path: string, problems: string[]): string | undefined {
+  if (value === null) {
+    return 'null';
+  }
+
+  if (INTEGER_TYPES.includes(type)) {
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      problems.push(`${path}: se esperaba un entero`);
+      return undefined;
+    }
+    return String(value);
+  }
+  if (NUMBER_TYPES.includes(type)) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      problems.push(`${path}: se esperaba un número`);
+      return undefined;
+    }
+    return String(value);
+  }
+
+  switch (type) {
+    case 'Edm.String':
+      if (typeof value !== 'string') {
+        problems.push(`${path}: se esperaba un string`);
+        return undefined;
+      }
+      return `'${value.replace(/'/g, "''")}'`;
+    case 'Edm.Guid':
+      if (typeof value !== 'string' || !UUID_PATTERN.test(value)) {
+        problems.push(`${path}: se esperaba un UUID`);
+        return undefined;
+      }
+      return value;
+    case 'Edm.Boolean':
+      if (typeof value !== 'boolean') {
+        problems.push(`${path}: se esperaba un booleano`);
+        return undefined;
+      }
+      return String(value);
+    case 'Edm.Date':
+      if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        problems.push(`${path}: se esperaba una fecha YYYY-MM-DD`);
+        return undefined;
+      }
+      return value;
+    case 'Edm.TimeOfDay':
+      if (typeof value !== 'string' || !/^\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(value)) {
+        problems.push(`${path}: se esperaba una hora HH:MM:SS`);
+        return undefined;
+      }
+      return value;
+    default:
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        problems.push(`${path}: se esperaba una fecha ISO 8601`);
+        return undefined;
+      }
+      return new Date(value).toISOString();
+  }
+}
+
+/**
+ * Entrada propia de un registro del modelo: los nombres que llegan en la consulta
+ * (`constructor`, `__proto__`...) no deben resolver a lo heredado de Object
+ */
+export function ownEntry<T>(record: Record<string, T>, key: unknown): T | undefined {
+  return typeof key === 'string' && Object.hasOwn(record, key) ? record[key] : undefined;
+}
+
+/**
+ * Convierte una expresión de filtro en la sintaxis $filter de OData
+ */
+function buildFilter(expression: any, entity: EntityModel, path: string, problems: string[]): string | undefined {
+  if (!expression || typeof expression !== 'object') {
+    problems.push(`${path}: se esperaba un objeto de filtro`);
+    return undefined;
+  }
+
+  for (const logical of ['and', 'or'] as const) {
+    if (logical in expression) {
+      const operands = expression[logical];
+      if (!Array.isArray(operands) || operands.length === 0) {
+        problems.push(`${path}.${logical}: se esperaba una lista no vacía de expresiones`);
+        return undefined;
+      }
+      const parts = operands.map((operand: unknown, i: number) => buildFilter(operand, entity, `${path}.${logical}[${i}]`, problems));
+      return parts.includes(undefined) ? undefined : `(${parts.join(` ${logical} `)})`;
+    }
+  }
+
+  if ('not' in expression) {
+    const inner = buildFilter(expression.not, entity, `${path}.not`, problems);
+    return inner === undefined ? undefined : `not (${inner})`;
+  }
+
+  const { field, op, value } = expression;
+  const type = ownEntry(entity.properties, field);
+  if (!type) {
+    problems.push(`${path}.field: '${field}' no es una propiedad de ${entity.name} (${Object.keys(entity.properties).join(', ')})`);
+    return undefined;
+  }
+  if (!COMPARISON_OPERATORS.includes(op)) {
+    problems.push(`${path}.op: operador '${op}' no soportado (${COMPARISON_OPERATORS.join(', ')})`);
+    return undefined;
+  }
+  if (STRING_FUNCTIONS.includes(op) && type !== 'Edm.String') {
+    problems.push(`${path}.op: '${op}' solo aplica a propiedades de texto`);
+    return undefined;
+  }
+  if (['gt', 'ge', 'lt', 'le'].includes(op) && ['Edm.Guid', 'Edm.Boolean'].includes(type)) {
+    problems.push(`${path}.op: '${op}' no aplica a propiedades de tipo ${type}`);
+    return undefined;
+  }
+
+  if (op === 'in') {
+    if (!Array.isArray(value) || value.length === 0) {
+      problems.push(`${path}.value: 'in' requiere una lista no vacía de valores`);
+      return undefined;
+    }
+    const literals = value.map((v, i) => formatLiteral(v, type, `${path}.value[${i}]`, problems));
+    return literals.includes(undefined) ? undefined : `${field} in (${literals.join(',')})`;
+  }
+
+  const literal = formatLiteral(value, type, `${path}.value`, problems);
+  if (literal === undefined) {
+    return undefined;
+  }
+  return STRING_FUNCTIONS.includes(op) ? `${op}(${field},${literal})` : `${field} ${op} ${literal}`;
+}
+
+/**
+ * Valida la consulta contra el modelo y construye los parámetros de sistema OData.
+ * Lanza QueryValidationError con todos los problemas encontrados.
+ */
+export function buildODataQuery(
+  entitySet: string,
+  options: ODataQueryOptions,
+  model: Record<string, EntityModel> = CATALOG_MODEL
+): Record<string, string> {
+  const entity = ownEntry(model, entitySet);
+  if (!entity) {
+    throw new QueryValidationError([`entitySet: '${entitySet}' no existe (${Object.keys(model).join(', ')})`]);
+  }
+
+  const problems: string[] = [];
+  const params: Record<string, string> = { $count: 'true' };
+
+  if (options.filter !== undefined) {
+    const filter = buildFilter(options.filter, entity, 'filter', problems);
+    if (filter !== undefined) {
+      params.$filter = filter;
+    }
+  }
+
+  if (options.select && options.select.length > 0) {
+    const unknown = options.select.filter((field) => !ownEntry(entity.properties, field));
+    if (unknown.length > 0) {
+      problems.push(`select: ${unknown.join(', ')} no son propiedades de ${entity.name}`);
+    }
+    params.$select = options.select.join(',');
+  }
+
+  if (options.expand && options.expand.length > 0) {
+    const unknown = options.expand.filter((nav) => !ownEntry(entity.navigation, nav));
+    if (unknown.length > 0) {
+      const available = Object.keys(entity.navigation);
+      problems.push(`expand: ${unknown.join(', ')} no son navegaciones de ${entity.name} (${available.length > 0 ? available.join(', ') : 'ninguna'})`);
+    }
+    params.$expand = options.expand.join(',');
+  }
+
+  if (options.orderby && options.orderby.length > 0) {
+    const clauses = options.orderby.map((clause, i) => {
+      if (!ownEntry(entity.properties, clause.field)) {
+        problems.push(`orderby[${i}].field: '${clause.field}' no es una propiedad de ${entity.name}`);
+      }
+      if (clause.direction && !['asc', 'desc'].includes(clause.direction)) {
+        problems.push(`orderby[${i}].direction: debe ser 'asc' o 'desc'`);
+      }
+      return `${clause.field} ${clause.direction || 'asc'}`;
+    });
+    params.$orderby = clauses.join(',');
+  }
+
+  if (options.top !== undefined) {
+    if (!Number.isInteger(options.top) || options.top < 1 || options.top > MAX_QUERY_TOP) {
+      problems.push(`top: debe ser un entero entre 1 y ${MAX_QUERY_TOP}`);
+    }
+    params.$top = String(options.top);
+  }
+
+  if (options.skip !== undefined) {
+    if (!Number.isInteger(options.skip) || options.skip < 0) {
+      problems.push('skip: debe ser un entero mayor o igual que 0');
+    }
+    params.$skip = String(options.skip);
+  }
+
+  if (problems.length > 0) {
+    throw new QueryValidationError(problems);
+  }
+  return params;
+}
@@ -0,0 +1,259 @@
+/**
+ * 🛡️ Resiliencia de las llamadas a CAP: timeouts, reintentos y circuit breaker
+ *
+ * - Cada petición tiene un timeout (CAP_TIMEOUT_MS)
+ * - Las peticiones seguras o idempotentes (GET, HEAD, OPTIONS, PUT, DELETE) se
+ *   reintentan ante errores de red, timeouts, 429 y 502/503/504, con backoff
+ *   exponencial y jitter. Los POST (acciones, creaciones) y PATCH nunca se repiten.
+ * - Tras CAP_BREAKER_THRESHOLD fallos seguidos el circuito se abre y las llamadas
+ *   fallan al instante con CapUnavailableError ("CAP backend unavailable") durante
+ *   CAP_BREAKER_RESET_SECONDS; después se deja pasar una petición de prueba
+ *   (half-open) que lo cierra si tiene éxito.
+ *
+ * El circuit breaker es compartido por todos los CAPClient del proceso (se crea
+ * uno por petición MCP con el token de cada usuario).
+ */
+
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+
+export interface CapResilienceConfig {
+  timeoutMs: number;
+  retries: number;                    // Reintentos además del primer intento
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  breakerThreshold: number;           // Fallos seguidos que abren el circuito
+  breakerResetMs: number;             // Tiempo abierto antes de la petición de prueba
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+/**
+ * Estado del circuito para /health y /ready
+ */
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  retryAt?: string;
+  lastError?: string;
+  lastErrorAt?: string;
+}
+
+/**
+ * CAP no está disponible (circuito abierto, sin conexión, timeout o 502/503/504).
+ * Las herramientas lo devuelven tal cual, sin prefijo.
+ */
+export class CapUnavailableError extends Error {
+  constructor(reason: string) {
+    super(`🔌 CAP backend unavailable: ${reason}`);
+    this.name = 'CapUnavailableError';
+  }
+}
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRYABLE_STATUS = [429, 502, 503, 504];
+const UNAVAILABLE_STATUS = [502, 503, 504];
+
+/**
+ * Lee la configuración de entorno (ver README)
+ */
+export function loadCapResilienceConfig(env: NodeJS.ProcessEnv = process.env): CapResilienceConfig {
+  return {
+    timeoutMs: parseInt(env.CAP_TIMEOUT_MS || '10000', 10),
+    retries: parseInt(env.CAP_RETRIES || '2', 10),
+    retryBaseDelayMs: parseInt(env.CAP_RETRY_BASE_DELAY_MS || '200', 10),
+    retryMaxDelayMs: parseInt(env.CAP_RETRY_MAX_DELAY_MS || '2000', 10),
+    breakerThreshold: parseInt(env.CAP_BREAKER_THRESHOLD || '5', 10),
+    breakerResetMs: parseInt(env.CAP_BREAKER_RESET_SECONDS || '30', 10) * 1000,
+  };
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private lastError?: string;
+  private lastErrorAt?: number;
+  private probeInFlight = false;
+
+  constructor(private threshold: number, private resetMs: number) {}
+
+  /**
+   * Comprueba si se puede llamar a CAP; lanza CapUnavailableError si el circuito está abierto.
+   * Devuelve true si la petición admitida es la de prueba (half-open).
+   */
+  beforeRequest(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt! < this.resetMs) {
+        throw this.unavailable();
+      }
+      this.state = 'half_open';
+      console.log('[CAPClient] Circuito half-open: se prueba una petición');
+    }
+    if (this.state === 'half_open') {
+      if (this.probeInFlight) {
+        throw this.unavailable();
+      }
+      this.probeInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  onSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log('[CAPClient] Circuito cerrado: CAP vuelve a responder');
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+  }
+
+  onFailure(reason: string): void {
+    this.consecutiveFailures++;
+    this.lastError = reason;
+    this.lastErrorAt = Date.now();
+    this.probeInFlight = false;
+    if (this.state === 'half_open' || (this.state === 'closed' && this.consecutiveFailures >= this.threshold)) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      console.error(`[CAPClient] Circuito abierto tras ${this.consecutiveFailures} fallos seguidos (último: ${reason})`);
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.openedAt && this.state !== 'closed' ? {
+        openedAt: new Date(this.openedAt).toISOString(),
+        retryAt: new Date(this.openedAt + this.resetMs).toISOString(),
+      } : {}),
+      ...(this.lastError ? { lastError: this.lastError, lastErrorAt: new Date(this.lastErrorAt!).toISOString() } : {}),
+    };
+  }
+
+  private unavailable(): CapUnavailableError {
+    const seconds = Math.max(0, Math.ceil((this.openedAt! + this.resetMs - Date.now()) / 1000));
+    return new CapUnavailableError(
+      `circuito abierto tras ${this.consecutiveFailures} fallos seguidos (último: ${this.lastError}); ` +
+      `se volverá a intentar en ${seconds} s`
+    );
+  }
+}
+
+interface RetryState {
+  attempt: number;
+  probe: boolean;                     // La petición original fue la de prueba (half-open)
+}
+
+type ResilientRequestConfig = InternalAxiosRequestConfig & { capRetry?: RetryState };
+
+function describeFailure(error: AxiosError): string {
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return `sin respuesta en ${error.config?.timeout} ms`;
+  }
+  if (error.response) {
+    return `HTTP ${error.response.status}`;
+  }
+  return error.code ?? error.message;
+}
+
+/**
+ * Errores que indican que CAP no está sano (cuentan para el circuito)
+ */
+function isBackendFailure(error: AxiosError): boolean {
+  return !error.response || UNAVAILABLE_STATUS.includes(error.response.status);
+}
+
+function isRetryable(error: AxiosError): boolean {
+  const method = (error.config?.method ?? 'get').toLowerCase();
+  return IDEMPOTENT_METHODS.includes(method) && (!error.response || RETRYABLE_STATUS.includes(error.response.status));
+}
+
+export class CapResilience {
+  readonly breaker: CircuitBreaker;
+
+  constructor(readonly config: CapResilienceConfig) {
+    this.breaker = new CircuitBreaker(config.breakerThreshold, config.breakerResetMs);
+  }
+
+  /**
+   * Backoff exponencial con jitter ("equal jitter"); respeta Retry-After si CAP lo envía
+   */
+  retryDelay(attempt: number, retryAfter?: string): number {
+    const exponential = Math.min(this.config.retryMaxDelayMs, this.config.retryBaseDelayMs * 2 ** attempt);
+    const seconds = retryAfter ? Number(retryAfter) : NaN;
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      return Math.min(this.config.retryMaxDelayMs, seconds * 1000);
+    }
+    return exponential / 2 + Math.random() * (exponential / 2);
+  }
+
+  /**
+   * Añade timeout, reintentos y circuit breaker a una instancia de axios
+   */
+  install(client: AxiosInstance): void {
+    client.defaults.timeout = this.config.timeoutMs;
+
+    client.interceptors.request.use((config: ResilientRequestConfig) => {
+      // Los reintentos de la petición de prueba (half-open) no vuelven a pasar por el
+      // circuito: se rechazarían a sí mismos. Los demás sí, para no seguir insistiendo
+      // si otras peticiones lo han abierto mientras tanto.
+      if (!config.capRetry?.probe) {
+        const probe = this.breaker.beforeRequest();
+        config.capRetry = { attempt: config.capRetry?.attempt ?? 0, probe };
+      }
+      return config;
+    });
+
+    client.interceptors.response.use(
+      (response) => {
+        this.breaker.onSuccess();
+        return response;
+      },
+      async (error: any) => {
+        if (!(error instanceof AxiosError) || !error.config) {
+          throw error;
+        }
+        const config = error.config as ResilientRequestConfig;
+
+        if (!isBackendFailure(error)) {
+          // CAP respondió (4xx, 500 con detalle): está vivo
+          this.breaker.onSuccess();
+          throw error;
+        }
+
+        const reason = describeFailure(error);
+        const retry = config.capRetry ?? { attempt: 0, probe: false };
+        if (isRetryable(error) && retry.attempt < this.config.retries) {
+          const delay = this.retryDelay(retry.attempt, error.response?.headers?.['retry-after']);
+          console.warn(`[CAPClient] ${config.method?.toUpperCase()} ${config.url} falló (${reason}); reintento ${retry.attempt + 1}/${this.config.retries} en ${Math.round(delay)} ms`);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          config.capRetry = { ...retry, attempt: retry.attempt + 1 };
+          return client.request(config);
+        }
+
+        // Solo cuenta la petición completa, no cada reintento
+        this.breaker.onFailure(reason);
+        const unknownOutcome = error.response === undefined && !IDEMPOTENT_METHODS.includes((config.method ?? 'get').toLowerCase());
+        throw new CapUnavailableError(
+          `${config.method?.toUpperCase()} ${config.url}: ${reason}` +
+          (unknownOutcome ? ' (la operación pudo completarse en CAP: compruébalo antes de repetirla)' : '')
+        );
+      }
+    );
+  }
+}
+
+let instance: CapResilience | undefined;
+
+/**
+ * Resiliencia compartida del proceso (se crea en el primer uso, después de cargar .env)
+ */
+export function getCapResilience(): CapResilience {
+  if (!instance) {
+    instance = new CapResilience(loadCapResilienceConfig());
+  }
+  return instance;
+}
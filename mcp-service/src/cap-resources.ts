@@ -0,0 +1,142 @@
+/**
+ * 📚 Objetos de negocio CAP como recursos MCP
+ *
+ * Expone Products, Orders y Customers con URIs `cap://<colección>/<id>` para que
+ * los clientes MCP puedan adjuntar un producto o una orden concreta como contexto.
+ */
+
+import { CAPClient } from './cap-integration.js';
+import { CATALOG_MODEL, EntityModel, ownEntry } from './cap-query.js';
+
+/**
+ * Definición de una colección CAP expuesta como recursos
+ */
+interface CapResourceCollection {
+  collection: string;                 // Segmento de la URI (cap://<collection>/{id})
+  entitySet: string;                  // Entidad OData
+  label: string;
+  select: string[];                   // Campos necesarios para listar
+  describe: (entity: any) => { name: string; description: string };
+  read: (capClient: CAPClient, id: string) => Promise<any>;
+}
+
+export const CAP_RESOURCE_COLLECTIONS: CapResourceCollection[] = [
+  {
+    collection: 'products',
+    entitySet: 'Products',
+    label: 'Producto',
+    select: ['ID', 'name', 'category', 'price', 'stock'],
+    describe: (p) => ({
+      name: p.name,
+      description: `Producto ${p.category ? `(${p.category}) ` : ''}- Precio: $${p.price} | Stock: ${p.stock}`,
+    }),
+    read: (capClient, id) => capClient.getProductById(id),
+  },
+  {
+    collection: 'orders',
+    entitySet: 'Orders',
+    label: 'Orden',
+    select: ['ID', 'orderNumber', 'customerName', 'status', 'totalAmount'],
+    describe: (o) => ({
+      name: `Orden ${o.orderNumber}`,
+      description: `Orden de ${o.customerName} - Estado: ${o.status} | Total: $${o.totalAmount}`,
+    }),
+    read: (capClient, id) => capClient.getOrderById(id),
+  },
+  {
+    collection: 'customers',
+    entitySet: 'Customers',
+    label: 'Cliente',
+    select: ['ID', 'name', 'email'],
+    describe: (c) => ({
+      name: c.name,
+      description: `Cliente ${c.name}${c.email ? ` <${c.email}>` : ''}`,
+    }),
+    read: (capClient, id) => capClient.getCustomerById(id),
+  },
+];
+
+/**
+ * Construye la URI de un objeto CAP
+ */
+export function capResourceUri(collection: string, id: string): string {
+  return `cap://${collection}/${id}`;
+}
+
+/**
+ * URI que representa todo un entity set (p. ej. cap://customers/*), para aplicar
+ * las reglas de recursos a las herramientas que lo consultan sin pasar por resources/read
+ */
+export function capEntitySetUri(entitySet: string): string {
+  const collection = CAP_RESOURCE_COLLECTIONS.find((c) => c.entitySet === entitySet)?.collection ?? entitySet.toLowerCase();
+  return `cap://${collection}/*`;
+}
+
+/**
+ * URIs de los entity sets que lee una consulta: el consultado y los expandidos
+ */
+export function capQueryUris(entitySet: string, expand: string[] = [], model: Record<string, EntityModel> = CATALOG_MODEL): string[] {
+  const navigation = ownEntry(model, entitySet)?.navigation ?? {};
+  const expanded = expand.map((nav) => ownEntry(navigation, nav)).filter((target) => target !== undefined);
+  return [...new Set([entitySet, ...expanded])].map(capEntitySetUri);
+}
+
+/**
+ * Resource templates para ListResourceTemplates
+ */
+export function listCapResourceTemplates() {
+  return CAP_RESOURCE_COLLECTIONS.map((c) => ({
+    uriTemplate: `cap://${c.collection}/{id}`,
+    name: `${c.entitySet} por ID`,
+    description: `${c.label} del servicio CAP identificado por su UUID, en formato JSON`,
+    mimeType: 'application/json',
+  }));
+}
+
+/**
+ * Lista una página de recursos de una colección CAP
+ */
+export async function listCapResources(capClient: CAPClient, collection: CapResourceCollection, top: number, skip: number) {
+  const entities = await capClient.getEntityPage(collection.entitySet, top, skip, collection.select);
+  return entities.map((entity: any) => ({
+    uri: capResourceUri(collection.collection, entity.ID),
+    mimeType: 'application/json',
+    ...collection.describe(entity),
+  }));
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Indica si la URI corresponde a un objeto CAP
+ */
+export function isCapResourceUri(uri: string): boolean {
+  return uri.startsWith('cap://');
+}
+
+/**
+ * Lee un objeto CAP a partir de su URI y lo devuelve como contenido JSON
+ */
+export async function readCapResource(capClient: CAPClient, uri: string) {
+  const url = new URL(uri);
+  const collection = CAP_RESOURCE_COLLECTIONS.find((c) => c.collection === url.hostname);
+  const id = url.pathname.replace(/^\//, '');
+
+  if (!collection) {
+    throw new Error(`Unknown CAP resource collection: ${url.hostname}`);
+  }
+  if (!UUID_PATTERN.test(id)) {
+    throw new Error(`Invalid ${collection.entitySet} ID: ${id}`);
+  }
+
+  const entity = await collection.read(capClient, id);
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(entity, null, 2),
+      },
+    ],
+  };
+}
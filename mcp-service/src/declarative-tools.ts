@@ -0,0 +1,347 @@
+/**
+ * 🧾 Herramientas declarativas definidas en un fichero JSON
+ *
+ * Permite definir herramientas de negocio sin escribir TypeScript: cada entrada
+ * declara nombre, descripción, input schema, la petición OData a realizar
+ * (consulta a un entity set, acción o función) y cómo presentar la respuesta.
+ * Los valores `{{argumento}}` se sustituyen por los argumentos de la llamada.
+ *
+ * El fichero se vuelve a leer cuando cambia (también montado como ConfigMap)
+ * o al recibir SIGHUP, sin reiniciar el pod.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { watchFile } from 'node:fs';
+import { CAPClient } from './cap-integration.js';
+import { DEFAULT_QUERY_TOP, FilterExpression, MAX_QUERY_TOP, ODataQueryOptions, QueryValidationError } from './cap-query.js';
+import { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { capQueryUris } from './cap-resources.js';
+import { confirmGenericWrite, withConfirmToken } from './tools/confirmation.js';
+import { textResult, ToolDefinition, ToolProvider } from './tools/registry.js';
+
+/**
+ * Petición OData de una herramienta: exactamente uno de entitySet, action o function
+ */
+interface DeclarativeRequest {
+  entitySet?: string;
+  filter?: unknown;
+  select?: string[];
+  expand?: string[];
+  orderby?: Array<{ field: string; direction?: 'asc' | 'desc' }>;
+  top?: unknown;
+  skip?: unknown;
+  action?: string;
+  function?: string;
+  parameters?: Record<string, unknown>;
+}
+
+/**
+ * Presentación de la respuesta: JSON tal cual o texto con plantillas
+ */
+interface DeclarativeResponse {
+  format: 'json' | 'text';
+  header?: string;              // Placeholders: argumentos y {{count}}
+  item?: string;                // Placeholders: campos de cada registro
+  separator?: string;           // Entre registros (default: salto de línea)
+  empty?: string;               // Si no hay registros
+  template?: string;            // Respuestas que no son listas (acciones)
+}
+
+export interface DeclarativeToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: { type: 'object'; properties?: Record<string, any>; required?: string[] };
+  annotations?: ToolAnnotations;
+  permissions?: string[];       // Default: cap:read para consultas y funciones, cap:write para acciones
+  request: DeclarativeRequest;
+  response?: DeclarativeResponse;
+}
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER_PATTERN = /^\{\{\s*([\w.]+)\s*\}\}$/;
+
+/**
+ * Resuelve una ruta con puntos (p. ej. "items.length") dentro de un objeto
+ */
+function lookup(scope: Record<string, any>, path: string): any {
+  return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), scope as any);
+}
+
+/**
+ * Sustituye placeholders en un texto
+ */
+function renderText(template: string, scope: Record<string, any>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (_match, path) => {
+    const value = lookup(scope, path);
+    if (value == null) {
+      return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+/**
+ * Sustituye placeholders en un valor de la plantilla de petición. Un string que es
+ * solo "{{arg}}" conserva el tipo del argumento (número, booleano, lista...).
+ */
+function renderValue(value: unknown, args: Record<string, any>): unknown {
+  if (typeof value === 'string') {
+    const whole = WHOLE_PLACEHOLDER_PATTERN.exec(value);
+    return whole ? lookup(args, whole[1]) : renderText(value, args);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderValue(item, args));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderValue(item, args)]));
+  }
+  return value;
+}
+
+/**
+ * Construye el filtro a partir de la plantilla. Las condiciones cuyo valor
+ * depende de un argumento no informado se omiten, así los filtros opcionales
+ * se declaran sin lógica adicional.
+ */
+function renderFilter(template: any, args: Record<string, any>): FilterExpression | undefined {
+  for (const logical of ['and', 'or'] as const) {
+    if (Array.isArray(template?.[logical])) {
+      const operands = template[logical]
+        .map((operand: any) => renderFilter(operand, args))
+        .filter((operand: FilterExpression | undefined) => operand !== undefined);
+      if (operands.length === 0) {
+        return undefined;
+      }
+      return operands.length === 1 ? operands[0] : ({ [logical]: operands } as FilterExpression);
+    }
+  }
+  if (template?.not !== undefined) {
+    const inner = renderFilter(template.not, args);
+    return inner === undefined ? undefined : { not: inner };
+  }
+
+  const value = renderValue(template?.value, args);
+  if (value === undefined) {
+    return undefined;
+  }
+  return { ...template, value } as FilterExpression;
+}
+
+/**
+ * Valor de top o skip tras sustituir los argumentos: entero entre `min` y `max`.
+ * Se admite un string de dígitos (p. ej. "{{limit}}" dentro de un texto).
+ */
+function renderPaging(template: unknown, args: Record<string, any>, name: 'top' | 'skip', min: number, max?: number): number | undefined {
+  const rendered = renderValue(template, args);
+  if (rendered === undefined || rendered === '') {
+    return undefined;
+  }
+  const value = typeof rendered === 'string' && /^\d+$/.test(rendered) ? Number(rendered) : rendered;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || (max !== undefined && value > max)) {
+    const range = max !== undefined ? `entre ${min} y ${max}` : `mayor o igual que ${min}`;
+    throw new QueryValidationError([`${name}: debe ser un entero ${range} (recibido ${JSON.stringify(rendered)})`]);
+  }
+  return value;
+}
+
+/**
+ * Literal para los parámetros de una función en la URL (sin $metadata se
+ * infiere del tipo JSON del valor), codificado para ir en el path
+ */
+function functionLiteral(value: unknown): string {
+  if (typeof value === 'string') {
+    return encodeURIComponent(`'${value.replace(/'/g, "''")}'`);
+  }
+  if (typeof value === 'number' || typeof value === 'boolean' || value === null) {
+    return String(value);
+  }
+  return encodeURIComponent(JSON.stringify(value));
+}
+
+/**
+ * Ejecuta la petición OData declarada con los argumentos de la llamada
+ */
+async function executeRequest(capClient: CAPClient, request: DeclarativeRequest, args: Record<string, any>): Promise<any> {
+  if (request.entitySet) {
+    const options: ODataQueryOptions = {
+      filter: request.filter !== undefined ? renderFilter(request.filter, args) : undefined,
+      select: request.select,
+      expand: request.expand,
+      orderby: request.orderby,
+      // Sin top se aplica el mismo límite por defecto que en cap_query y las herramientas generadas
+      top: renderPaging(request.top, args, 'top', 1, MAX_QUERY_TOP) ?? DEFAULT_QUERY_TOP,
+      skip: renderPaging(request.skip, args, 'skip', 0),
+    };
+    return capClient.query(request.entitySet, options);
+  }
+
+  const parameters = Object.fromEntries(
+    Object.entries((renderValue(request.parameters || {}, args) as Record<string, unknown>))
+      .filter(([, value]) => value !== undefined)
+  );
+  if (request.action) {
+    return capClient.request('POST', `/${request.action}`, parameters);
+  }
+  const list = Object.entries(parameters).map(([name, value]) => `${name}=${functionLiteral(value)}`).join(',');
+  return capClient.request('GET', `/${request.function}(${list})`);
+}
+
+/**
+ * Presenta el resultado según la plantilla de respuesta
+ */
+function renderResponse(result: any, response: DeclarativeResponse | undefined, args: Record<string, any>): string {
+  if (!response || response.format === 'json') {
+    return JSON.stringify(result, null, 2);
+  }
+
+  const items: any[] | undefined = Array.isArray(result?.value) ? result.value : Array.isArray(result) ? result : undefined;
+  if (!items) {
+    return renderText(response.template || '{{result}}', { ...args, ...result, result });
+  }
+
+  const scope = { ...args, count: result?.count ?? items.length };
+  if (items.length === 0 && response.empty) {
+    return renderText(response.empty, scope);
+  }
+  const lines = items.map((item) => renderText(response.item || '{{item}}', { ...item, item }));
+  return [response.header ? renderText(response.header, scope) : undefined, lines.join(response.separator ?? '\n')]
+    .filter((part) => part !== undefined)
+    .join('\n\n');
+}
+
+/**
+ * Valida una definición y devuelve la lista de problemas
+ */
+function validateDefinition(definition: any, index: number): string[] {
+  const problems: string[] = [];
+  const where = `tools[${index}]${definition?.name ? ` (${definition.name})` : ''}`;
+  if (!TOOL_NAME_PATTERN.test(definition?.name ?? '')) {
+    problems.push(`${where}: name debe cumplir ${TOOL_NAME_PATTERN}`);
+  }
+  if (typeof definition?.description !== 'string') {
+    problems.push(`${where}: falta description`);
+  }
+  if (definition?.inputSchema?.type !== 'object') {
+    problems.push(`${where}: inputSchema debe ser un JSON Schema de tipo object`);
+  }
+  const targets = ['entitySet', 'action', 'function'].filter((key) => definition?.request?.[key]);
+  if (targets.length !== 1) {
+    problems.push(`${where}: request debe declarar exactamente uno de entitySet, action o function`);
+  }
+  // top/skip fijos se comprueban al cargar; los que dependen de argumentos, en cada llamada
+  const top = definition?.request?.top;
+  if (typeof top === 'number' && (!Number.isInteger(top) || top < 1 || top > MAX_QUERY_TOP)) {
+    problems.push(`${where}: request.top debe ser un entero entre 1 y ${MAX_QUERY_TOP}`);
+  }
+  const skip = definition?.request?.skip;
+  if (typeof skip === 'number' && (!Number.isInteger(skip) || skip < 0)) {
+    problems.push(`${where}: request.skip debe ser un entero mayor o igual que 0`);
+  }
+  const format = definition?.response?.format;
+  if (format !== undefined && format !== 'json' && format !== 'text') {
+    problems.push(`${where}: response.format debe ser 'json' o 'text'`);
+  }
+  return problems;
+}
+
+/**
+ * Adapta una definición del fichero al registro de herramientas
+ */
+function toToolDefinition(definition: DeclarativeToolDefinition): ToolDefinition {
+  const readOnly = !definition.request.action;
+  return {
+    name: definition.name,
+    description: definition.description,
+    inputSchema: readOnly ? definition.inputSchema : withConfirmToken(definition.inputSchema),
+    annotations: definition.annotations ?? { readOnlyHint: readOnly, openWorldHint: true },
+    permissions: definition.permissions ?? [readOnly ? 'cap:read' : 'cap:write'],
+    resources: definition.request.entitySet ? () => capQueryUris(definition.request.entitySet!, definition.request.expand) : undefined,
+    handler: async (callArgs, context) => {
+      let args = callArgs;
+      // Las acciones se confirman aunque sus annotations digan lo contrario
+      if (!readOnly) {
+        const confirmation = await confirmGenericWrite(definition, callArgs, context);
+        if (!confirmation.confirmed) {
+          return confirmation.result;
+        }
+        args = confirmation.args;
+      }
+      const result = await executeRequest(context.capClient, definition.request, args);
+      return textResult(renderResponse(result, definition.response, args));
+    },
+  };
+}
+
+/**
+ * Herramientas declarativas cargadas desde TOOLS_CONFIG_FILE
+ */
+export class DeclarativeTools implements ToolProvider {
+  private definitions = new Map<string, ToolDefinition>();
+  private changeListeners: Array<() => void> = [];
+
+  /**
+   * @param reservedNames Nombres de las herramientas integradas, que no se pueden redefinir
+   */
+  constructor(private filePath: string, private reservedNames: string[]) {}
+
+  onChange(listener: () => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  async tools(): Promise<ToolDefinition[]> {
+    return [...this.definitions.values()];
+  }
+
+  /**
+   * Lee y valida el fichero. Si tiene errores se conservan las herramientas
+   * anteriores, así una edición a medias no deja al servidor sin herramientas.
+   */
+  async load(): Promise<void> {
+    let config: any;
+    try {
+      config = JSON.parse(await readFile(this.filePath, 'utf-8'));
+    } catch (error: any) {
+      console.error(`[DeclarativeTools] No se pudo leer ${this.filePath}: ${error.message}`);
+      return;
+    }
+
+    const entries: any[] = Array.isArray(config?.tools) ? config.tools : [];
+    const problems = entries.flatMap((definition, i) => validateDefinition(definition, i));
+    const names = entries.map((definition) => definition?.name);
+    for (const name of new Set(names)) {
+      if (this.reservedNames.includes(name)) {
+        problems.push(`${name}: coincide con una herramienta integrada`);
+      }
+      if (names.filter((n) => n === name).length > 1) {
+        problems.push(`${name}: nombre duplicado`);
+      }
+    }
+    if (!Array.isArray(config?.tools)) {
+      problems.push('el fichero debe contener { "tools": [...] }');
+    }
+    if (problems.length > 0) {
+      console.error(`[DeclarativeTools] ${this.filePath} no es válido, se mantienen las herramientas anteriores:\n${problems.map((p) => `- ${p}`).join('\n')}`);
+      return;
+    }
+
+    this.definitions = new Map(entries.map((definition) => [definition.name, toToolDefinition(definition)]));
+    console.log(`🧾 ${this.definitions.size} herramientas declarativas cargadas desde ${this.filePath}`);
+    for (const listener of this.changeListeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Recarga el fichero cuando cambia (sondeo de mtime, compatible con ConfigMaps)
+   */
+  watch(intervalMs = 5000): void {
+    watchFile(this.filePath, { interval: intervalMs, persistent: false }, (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs) {
+        console.log(`🧾 ${this.filePath} ha cambiado, recargando herramientas declarativas`);
+        this.load();
+      }
+    });
+  }
+
+}
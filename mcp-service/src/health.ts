@@ -0,0 +1,118 @@
+/**
+ * 🏥 Comprobaciones de dependencias para /ready y /health
+ *
+ * Cada dependencia (CAP, JWKS de IAS, session store) se comprueba con un timeout
+ * (HEALTH_CHECK_TIMEOUT_MS) y el resultado se cachea durante
+ * HEALTH_CHECK_CACHE_SECONDS, para que las sondas de Kubernetes no multipliquen
+ * las peticiones a CAP o a IAS. Las sondas simultáneas comparten la misma ronda.
+ */
+
+export interface DependencyCheck {
+  name: string;
+  check: () => Promise<string | void>;          // Lanza si la dependencia no está disponible; puede devolver un detalle
+}
+
+export interface DependencyStatus {
+  status: 'up' | 'down';
+  latencyMs: number;
+  checkedAt: string;
+  detail?: string;
+  lastError?: string;
+  lastErrorAt?: string;
+  lastSuccessAt?: string;
+}
+
+export interface HealthReport {
+  ready: boolean;                               // Todas las dependencias responden
+  checkedAt: string;
+  dependencies: Record<string, DependencyStatus>;
+}
+
+export interface HealthCheckOptions {
+  timeoutMs: number;
+  cacheMs: number;
+}
+
+export function loadHealthCheckOptions(env: NodeJS.ProcessEnv = process.env): HealthCheckOptions {
+  return {
+    timeoutMs: parseInt(env.HEALTH_CHECK_TIMEOUT_MS || '2000', 10),
+    cacheMs: parseInt(env.HEALTH_CHECK_CACHE_SECONDS || '10', 10) * 1000,
+  };
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`sin respuesta en ${timeoutMs} ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export class HealthChecker {
+  private checks: DependencyCheck[] = [];
+  private statuses: Record<string, DependencyStatus> = {};
+  private lastReport?: { report: HealthReport; expiresAt: number };
+  private running?: Promise<HealthReport>;
+
+  constructor(private options: HealthCheckOptions) {}
+
+  register(...checks: DependencyCheck[]): this {
+    this.checks.push(...checks);
+    return this;
+  }
+
+  /**
+   * Estado de todas las dependencias, del caché si es reciente
+   */
+  async report(): Promise<HealthReport> {
+    if (this.lastReport && this.lastReport.expiresAt > Date.now()) {
+      return this.lastReport.report;
+    }
+    this.running ??= this.runChecks().finally(() => {
+      this.running = undefined;
+    });
+    return this.running;
+  }
+
+  private async runChecks(): Promise<HealthReport> {
+    await Promise.all(this.checks.map((dependency) => this.runCheck(dependency)));
+    const report: HealthReport = {
+      ready: Object.values(this.statuses).every((status) => status.status === 'up'),
+      checkedAt: new Date().toISOString(),
+      dependencies: { ...this.statuses },
+    };
+    this.lastReport = { report, expiresAt: Date.now() + this.options.cacheMs };
+    return report;
+  }
+
+  private async runCheck(dependency: DependencyCheck): Promise<void> {
+    const previous = this.statuses[dependency.name];
+    const startedAt = Date.now();
+    try {
+      const detail = await withTimeout(dependency.check(), this.options.timeoutMs);
+      const now = new Date().toISOString();
+      this.statuses[dependency.name] = {
+        status: 'up',
+        latencyMs: Date.now() - startedAt,
+        checkedAt: now,
+        ...(detail ? { detail } : {}),
+        // Se conserva el último error para diagnosticar fallos intermitentes
+        ...(previous?.lastError ? { lastError: previous.lastError, lastErrorAt: previous.lastErrorAt } : {}),
+        lastSuccessAt: now,
+      };
+    } catch (error: any) {
+      const now = new Date().toISOString();
+      if (previous?.status !== 'down') {
+        console.warn(`[Health] ${dependency.name} no disponible: ${error.message}`);
+      }
+      this.statuses[dependency.name] = {
+        status: 'down',
+        latencyMs: Date.now() - startedAt,
+        checkedAt: now,
+        lastError: error.message,
+        lastErrorAt: now,
+        ...(previous?.lastSuccessAt ? { lastSuccessAt: previous.lastSuccessAt } : {}),
+      };
+    }
+  }
+}
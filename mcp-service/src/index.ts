@@ -26,18 +26,51 @@ import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/
 import {
   CallToolRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   isInitializeRequest,
+  ClientCapabilities,
+  ElicitResultSchema,
+  ErrorCode,
+  Implementation,
+  McpError,
 } from "@modelcontextprotocol/sdk/types.js";
 
-import { randomUUID } from "node:crypto";
-import express, { Request, Response } from "express";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import express, { NextFunction, Request, Response } from "express";
 import cookieParser from "cookie-parser";
+import { context as otelContext, propagation, ROOT_CONTEXT, SpanKind, SpanStatusCode, trace } from "@opentelemetry/api";
 import { CAPClient } from "./cap-integration.js";
-import { loadIASConfig, initializeJWKSClient, authMiddleware, combinedAuthMiddleware, extractToken } from "./auth/ias-auth.js";
+import { getCapResilience } from "./cap-resilience.js";
+import { HealthChecker, loadHealthCheckOptions } from "./health.js";
+import { mcpSessionsActive, metrics, toolCallDuration, toolCallsTotal, toolErrorsTotal } from "./metrics.js";
+import { getTracer, hashUserId, shutdownTracing, traced } from "./tracing.js";
+import { loadODataToolOptions, ODataToolCatalog } from "./odata-tools.js";
+import { DeclarativeTools } from "./declarative-tools.js";
+import { BUILTIN_TOOLS, ToolContext, ToolRegistry } from "./tools/index.js";
+import { Confirmations, loadConfirmationConfig } from "./tools/confirmation.js";
+import { IdempotencyCache } from "./tools/idempotency.js";
+import {
+  CAP_RESOURCE_COLLECTIONS,
+  isCapResourceUri,
+  listCapResources,
+  listCapResourceTemplates,
+  readCapResource,
+} from "./cap-resources.js";
+import { ResourceSubscriptions } from "./resource-subscriptions.js";
+import { AuditLog, handleAuditQuery } from "./audit-log.js";
+import { ANONYMOUS_OWNER, canView, Note, NotesStore, NoteViewer } from "./notes-store.js";
+import { getSessionStore } from "./storage/session-store.js";
+import { createEventStore } from "./storage/event-store.js";
+import { ResumableHTTPServerTransport } from "./resumable-transport.js";
+import { restoreInitializedSession } from "./mcp-sdk-internals.js";
+import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { loadIASConfig, initializeJWKSClient, checkJWKS, authMiddleware, combinedAuthMiddleware, extractToken, buildAuthInfo, IASTokenPayload } from "./auth/ias-auth.js";
 import {
   loadOAuthConfig,
   handleLogin,
@@ -45,21 +78,14 @@ import {
   handleLogout,
   requireSession,
   getTokenFromSession,
+  getServiceToken,
 } from "./auth/oauth-flow.js";
+import { loadAuthorizationPolicy, Principal } from "./auth/authorization.js";
 
 /**
- * Tipo para una nota.
+ * Almacenamiento persistente de notas (fichero JSON en un volumen montado).
  */
-type Note = { title: string; content: string };
-
-/**
- * Almacenamiento en memoria de notas.
- * En una app real, esto sería una base de datos.
- */
-const notes: { [id: string]: Note } = {
-  "1": { title: "First Note", content: "This is note 1" },
-  "2": { title: "Second Note", content: "This is note 2" },
-};
+const notesStore = new NotesStore(process.env.NOTES_FILE || "./data/notes.json");
 
 // 🚀 Inicializa la app Express
 const app = express();
@@ -74,386 +100,602 @@ initializeJWKSClient(iasConfig);
 // 🔐 Configuración de OAuth Flow
 const oauthConfig = loadOAuthConfig();
 
+// 🛡️ Política de autorización (AUTHZ_POLICY_FILE): qué herramientas, recursos y prompts ve cada usuario
+const AUTHZ_POLICY_FILE = process.env.AUTHZ_POLICY_FILE;
+let authorizationPolicy = loadAuthorizationPolicy(AUTHZ_POLICY_FILE);
+if (authorizationPolicy.enforced) {
+  console.log(`🛡️ Política de autorización cargada desde ${AUTHZ_POLICY_FILE}`);
+}
+
 // Mapa de transports por sesión
 const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
 
-// Mapa de tokens por sesión (para pasar el token al CAP service)
-const sessionTokens: { [sessionId: string]: string } = {};
+// Mapa de servidores MCP por sesión (una instancia por transport)
+const servers: { [sessionId: string]: Server } = {};
+
+mcpSessionsActive.collect(() => Object.keys(transports).length);
 
-// 🔗 Cliente CAP para interactuar con OData
+/**
+ * Metadatos de una sesión MCP guardados en el session store compartido.
+ * Permiten que cualquier réplica reconstruya el transport de una sesión
+ * iniciada en otro pod. El token no se guarda: cada petición trae el suyo.
+ */
+interface McpSessionMetadata {
+  createdAt: number;
+  lastSeenAt: number;
+  owner?: string;                     // sub del usuario que inició la sesión: solo él puede usarla
+  principal?: Principal;              // Usuario de la última petición (acceso a los recursos suscritos)
+  subscriptions?: string[];
+  clientInfo?: Implementation;
+  clientCapabilities?: ClientCapabilities;
+  terminatedAt?: number;              // Terminada (DELETE o cierre): las demás réplicas cierran su copia
+}
+
+const sessionStore = getSessionStore();
+const MCP_SESSION_KEY_PREFIX = "mcp:session:";
+const MCP_SESSION_TTL_MS = parseInt(process.env.MCP_SESSION_TTL_SECONDS || "3600", 10) * 1000;
+
+// Durante el apagado los transports se cierran sin borrar sus metadatos,
+// así otra réplica puede retomar las sesiones
+let shuttingDown = false;
+
+// Propietario y token de la última petición de las sesiones con transport en este
+// pod, solo en memoria (el sondeo de recursos suscritos llama a CAP con ese token)
+const localSessions = new Map<string, { owner: string; authToken?: string }>();
+
+function loadSessionMetadata(sessionId: string): Promise<McpSessionMetadata | undefined> {
+  return sessionStore.get<McpSessionMetadata>(MCP_SESSION_KEY_PREFIX + sessionId);
+}
+
+/**
+ * Guarda (o actualiza) los metadatos de la sesión y renueva su TTL de inactividad
+ */
+async function saveSessionMetadata(sessionId: string, update: Partial<McpSessionMetadata>): Promise<void> {
+  const current = await loadSessionMetadata(sessionId);
+  const now = Date.now();
+  await sessionStore.set<McpSessionMetadata>(
+    MCP_SESSION_KEY_PREFIX + sessionId,
+    { createdAt: now, ...current, ...update, lastSeenAt: now },
+    MCP_SESSION_TTL_MS
+  );
+}
+
+// 🔗 URL del servicio CAP (cada llamada a herramienta crea su propio CAPClient)
 const CAP_URL = process.env.CAP_SERVICE_URL || "http://localhost:4004";
-console.log(`🔗 Inicializando CAPClient con URL: ${CAP_URL}`);
-const capClient = new CAPClient(CAP_URL);
+console.log(`🔗 Usando servicio CAP en URL: ${CAP_URL}`);
 
-// 🛠️ Crea el servidor MCP con capacidades de recursos, herramientas y prompts
-const server = new Server(
+// 🏥 Dependencias que comprueban /ready y /health (con timeout y caché)
+const healthCheckOptions = loadHealthCheckOptions();
+const healthChecker = new HealthChecker(healthCheckOptions).register(
+  { name: "cap", check: () => new CAPClient(CAP_URL).ping(healthCheckOptions.timeoutMs) },
   {
-    name: "mcp-sampling",
-    version: "0.1.0",
-  },
-  {
-    capabilities: {
-      resources: {},
-      tools: {},
-      prompts: {},
-      // sampling: {}
+    name: "sessionStore",
+    check: async () => {
+      await sessionStore.ping();
+      return sessionStore.backend;
     },
   }
 );
+if (iasConfig.enabled) {
+  healthChecker.register({ name: "jwks", check: async () => `${await checkJWKS()} claves de firma` });
+}
+
+// Tamaño de página de resources/list (notas y objetos CAP)
+const RESOURCES_PAGE_SIZE = parseInt(process.env.RESOURCES_PAGE_SIZE || "50", 10);
+
+// 🧰 Registro de herramientas: integradas (src/tools/), declarativas y generadas desde $metadata
+const toolRegistry = new ToolRegistry().register(...BUILTIN_TOOLS);
+toolRegistry.setAuthorizer((tool, context) => authorizationPolicy.canUseTool(getPrincipal(context), tool.name, tool.permissions));
+// Las consultas a un entity set (cap_query, odata_*, declarativas) cumplen también las reglas de sus recursos cap://
+toolRegistry.setResourceAuthorizer((uri, context) => authorizationPolicy.canReadResource(getPrincipal(context), uri));
+
+// 🧾 Auditoría: cada tools/call se anexa al fichero AUDIT_LOG_FILE
+const auditLog = new AuditLog(
+  process.env.AUDIT_LOG_FILE || "./data/audit.jsonl",
+  (process.env.AUDIT_REDACT_KEYS || "").split(",").map((key) => key.trim()).filter(Boolean)
+);
+toolRegistry.onCall((event) => {
+  auditLog.record(event);
+});
+
+// 📈 Métricas por herramienta (GET /metrics)
+toolRegistry.onCall((event) => {
+  // El nombre de una herramienta desconocida lo elige el cliente: no se usa como label
+  const tool = event.outcome === "unknown_tool" ? "unknown" : event.tool;
+  toolCallsTotal.inc({ tool, outcome: event.outcome });
+  if (event.outcome !== "success" && event.outcome !== "replayed") {
+    toolErrorsTotal.inc({ tool, outcome: event.outcome });
+  }
+  toolCallDuration.observe({ tool }, event.durationMs / 1000);
+});
+
+// 🔁 Los reintentos de herramientas de escritura devuelven el resultado original
+toolRegistry.setIdempotencyCache(new IdempotencyCache(sessionStore, parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || "86400", 10)));
+
+// ✋ Confirmación del usuario antes de cancelar/entregar órdenes o crear órdenes de importe alto
+const confirmations = new Confirmations(loadConfirmationConfig(), sessionStore);
+
+// 🏭 Herramientas generadas desde el $metadata de CAP
+const ODATA_TOOLS_ENABLED = process.env.ODATA_TOOLS_ENABLED === "true";
+const getCapServiceToken = getServiceToken(oauthConfig);
+const odataTools = new ODataToolCatalog(loadODataToolOptions(), async () => new CAPClient(CAP_URL, await getCapServiceToken()));
 
 /**
- * 📋 Handler para listar notas como recursos MCP.
+ * Avisa a todas las sesiones de este pod de que deben volver a pedir tools/list
  */
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  return {
-    resources: Object.entries(notes).map(([id, note]) => ({
-      uri: `note:///${id}`,
-      mimeType: "text/plain",
-      name: note.title,
-      description: `A text note: ${note.title}`,
-    })),
-  };
+function notifyToolListChanged(): void {
+  for (const [sessionId, server] of Object.entries(servers)) {
+    server.sendToolListChanged().catch((error: any) => {
+      console.error(`[Tools] Error notificando a sesión ${sessionId}: ${error.message}`);
+    });
+  }
+}
+
+// Si cambian las entidades o acciones del servicio, los clientes vuelven a pedir tools/list
+odataTools.onChange(notifyToolListChanged);
+
+if (ODATA_TOOLS_ENABLED) {
+  toolRegistry.addProvider(odataTools);
+  odataTools.ensureLoaded();
+}
+
+// 🧾 Herramientas declarativas definidas en TOOLS_CONFIG_FILE (recargables sin reiniciar)
+const TOOLS_CONFIG_FILE = process.env.TOOLS_CONFIG_FILE;
+const declarativeTools = new DeclarativeTools(TOOLS_CONFIG_FILE || "", toolRegistry.names());
+
+if (TOOLS_CONFIG_FILE) {
+  toolRegistry.addProvider(declarativeTools);
+  declarativeTools.load().then(() => {
+    declarativeTools.onChange(notifyToolListChanged);
+    declarativeTools.watch();
+  });
+  process.on("SIGHUP", () => {
+    console.log("🧾 SIGHUP recibido, recargando herramientas declarativas");
+    declarativeTools.load();
+  });
+}
+
+// 🔔 Suscripciones a recursos de todas las sesiones de este pod
+const resourceSubscriptions = new ResourceSubscriptions(sessionCanReadResource);
+
+if (AUTHZ_POLICY_FILE) {
+  // Un fichero inválido no se aplica: se mantiene la política anterior
+  process.on("SIGHUP", () => {
+    console.log("🛡️ SIGHUP recibido, recargando política de autorización");
+    try {
+      authorizationPolicy = loadAuthorizationPolicy(AUTHZ_POLICY_FILE);
+    } catch (error: any) {
+      console.error(`[Authorization] ${error.message}`);
+      return;
+    }
+    notifyToolListChanged();
+    resourceSubscriptions.notifyListChanged();
+  });
+}
+
+// Crear o borrar notas cambia la lista de recursos; modificarlas, el recurso suscrito
+// (solo a las sesiones que pueden ver la nota; la nota borrada ya no está en el store)
+notesStore.onChange(({ type, note }) => {
+  const uri = `note:///${note.id}`;
+  const canRead = (sessionId: string) => sessionCanReadResource(sessionId, uri, note);
+  if (type !== "updated") {
+    resourceSubscriptions.notifyListChanged(uri, canRead);
+  }
+  if (type !== "created") {
+    resourceSubscriptions.notifyUpdated(uri, canRead);
+  }
 });
 
+// Sondeo de CAP para detectar cambios hechos fuera del servidor MCP (0 = deshabilitado)
+const CAP_POLL_INTERVAL_MS = parseInt(process.env.CAP_POLL_INTERVAL_SECONDS || "30", 10) * 1000;
+if (CAP_POLL_INTERVAL_MS > 0) {
+  resourceSubscriptions.startPolling(CAP_POLL_INTERVAL_MS, isCapResourceUri, async (sessionId, uri) => {
+    const capClient = await createRequestCAPClient({ sessionId }, "ResourcePoll");
+    const result = await readCapResource(capClient, uri);
+    return result.contents[0].text;
+  });
+}
+
+/**
+ * Helper para obtener el token de autenticación de la llamada actual.
+ * Usa el authInfo que el SDK asocia a la petición HTTP y, como respaldo,
+ * el de la última petición de la sesión MCP en este pod.
+ */
+function getRequestAuthToken(extra: { authInfo?: AuthInfo; sessionId?: string }): string | undefined {
+  if (extra.authInfo?.token) {
+    return extra.authInfo.token;
+  }
+  return extra.sessionId ? localSessions.get(extra.sessionId)?.authToken : undefined;
+}
+
+/**
+ * Crea el CAPClient de una llamada MCP con el token de su sesión,
+ * así sesiones concurrentes nunca comparten credenciales
+ */
+async function createRequestCAPClient(
+  extra: { authInfo?: AuthInfo; sessionId?: string },
+  context: string
+): Promise<CAPClient> {
+  const authToken = getRequestAuthToken(extra);
+  if (authToken) {
+    console.log(`[${context}] Usando token de autenticación de la sesión ${extra.sessionId} para llamada a CAP service`);
+  } else {
+    console.log(`[${context}] No hay token de autenticación disponible para la sesión ${extra.sessionId}`);
+  }
+  return new CAPClient(CAP_URL, authToken);
+}
+
 /**
- * 📖 Handler para leer el contenido de una nota.
+ * Posición de resources/list: sección (0 = notas, 1..n = colecciones CAP) y offset dentro de ella
  */
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-  const url = new URL(request.params.uri);
-  const id = url.pathname.replace(/^\//, "");
-  const note = notes[id];
+interface ResourceCursor {
+  section: number;
+  offset: number;
+}
+
+function encodeResourceCursor(cursor: ResourceCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
 
-  if (!note) {
-    throw new Error(`Note ${id} not found`);
+function decodeResourceCursor(cursor?: string): ResourceCursor {
+  if (!cursor) {
+    return { section: 0, offset: 0 };
+  }
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (Number.isInteger(decoded.section) && Number.isInteger(decoded.offset)) {
+      return decoded;
+    }
+  } catch {
+    // Se reporta abajo como cursor inválido
   }
+  throw new Error(`Invalid cursor: ${cursor}`);
+}
 
+/**
+ * Helper para obtener el usuario verificado (payload IAS) de la llamada actual
+ */
+function getRequestUser(extra: { authInfo?: AuthInfo }): IASTokenPayload | undefined {
+  return extra.authInfo?.extra?.user as IASTokenPayload | undefined;
+}
+
+/**
+ * Identidad con la que se filtran las notas: el sub y los grupos del token,
+ * o el usuario anónimo si la autenticación está deshabilitada
+ */
+function getNoteViewer(extra: { authInfo?: AuthInfo }): NoteViewer {
+  const user = getRequestUser(extra);
   return {
-    contents: [
-      {
-        uri: request.params.uri,
-        mimeType: "text/plain",
-        text: note.content,
-      },
-    ],
+    sub: user?.sub ?? ANONYMOUS_OWNER,
+    groups: user?.groups ?? [],
   };
-});
+}
 
 /**
- * 🛠️ Handler para listar herramientas disponibles.
+ * Identidad con la que se aplica la política de autorización: grupos y scopes del token
  */
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+function getPrincipal(extra: { authInfo?: AuthInfo }): Principal {
+  const user = getRequestUser(extra);
   return {
-    tools: [
-      {
-        name: "create_note",
-        description: "Create a new note",
-        inputSchema: {
-          type: "object",
-          properties: {
-            title: {
-              type: "string",
-              description: "Title of the note",
-            },
-            content: {
-              type: "string",
-              description: "Text content of the note",
-            },
-          },
-          required: ["title", "content"],
-        },
-      },
-      {
-        name: "cap_list_products",
-        description: "Lista todos los productos disponibles en el catálogo OData de CAP",
-        inputSchema: {
-          type: "object",
-          properties: {
-            filterByLowStock: {
-              type: "boolean",
-              description: "Si es true, filtra solo productos con bajo stock (menos de 10 unidades)",
-            },
-            threshold: {
-              type: "number",
-              description: "Umbral de stock para filtrar (solo si filterByLowStock es true)",
-            },
-          },
-        },
-      },
-      {
-        name: "cap_create_order",
-        description: "Crea una nueva orden de compra en el sistema CAP con productos específicos",
-        inputSchema: {
-          type: "object",
-          properties: {
-            customerName: {
-              type: "string",
-              description: "Nombre del cliente que realiza la orden",
-            },
-            items: {
-              type: "array",
-              description: "Lista de productos a ordenar con sus cantidades",
-              items: {
-                type: "object",
-                properties: {
-                  productId: {
-                    type: "string",
-                    description: "UUID del producto",
-                  },
-                  quantity: {
-                    type: "number",
-                    description: "Cantidad de unidades a ordenar",
-                  },
-                },
-                required: ["productId", "quantity"],
-              },
-            },
-          },
-          required: ["customerName", "items"],
-        },
-      },
-      {
-        name: "cap_update_order_status",
-        description: "Actualiza el estado de una orden existente en el sistema CAP",
-        inputSchema: {
-          type: "object",
-          properties: {
-            orderId: {
-              type: "string",
-              description: "UUID de la orden a actualizar",
-            },
-            newStatus: {
-              type: "string",
-              description: "Nuevo estado de la orden",
-              enum: ["PENDING", "PROCESSING", "SHIPPED", "DELIVERED", "CANCELLED"],
-            },
-          },
-          required: ["orderId", "newStatus"],
-        },
-      },
-    ],
+    sub: user?.sub ?? ANONYMOUS_OWNER,
+    groups: user?.groups ?? [],
+    scopes: extra.authInfo?.scopes ?? [],
   };
-});
+}
 
 /**
- * Helper para obtener el token de autenticación de la sesión actual
+ * Rechaza la lectura o suscripción a un recurso que la política no permite
  */
-function getCurrentSessionToken(): string | undefined {
-  // Buscar el token en las sesiones activas
-  // Nota: Esto funciona porque cada request MCP tiene una sesión asociada
-  const sessionIds = Object.keys(sessionTokens);
-  if (sessionIds.length > 0) {
-    // Retornar el token de la última sesión activa
-    return sessionTokens[sessionIds[sessionIds.length - 1]];
+function assertCanReadResource(extra: { authInfo?: AuthInfo }, uri: string): void {
+  if (!authorizationPolicy.canReadResource(getPrincipal(extra), uri)) {
+    console.warn(`[Authorization] ${getPrincipal(extra).sub} no tiene permiso para leer ${uri}`);
+    throw new McpError(ErrorCode.InvalidRequest, `⛔ No tienes permiso para leer ${uri}`);
   }
-  return undefined;
 }
 
 /**
- * 📝 Handler para las herramientas (tools).
+ * Id de la nota de una URI note:///<id>
  */
-server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
-  // Obtener el token de autenticación de la sesión
-  const authToken = getCurrentSessionToken();
+function noteIdOf(uri: string): string {
+  return new URL(uri).pathname.replace(/^\//, "");
+}
 
-  // Si hay token, actualizar el CAPClient con el token
-  if (authToken) {
-    console.log(`[CallTool] Usando token de autenticación para llamada a CAP service`);
-    capClient.setAuthToken(authToken);
-  } else {
-    console.log(`[CallTool] No hay token de autenticación disponible`);
-    capClient.clearAuthToken();
+/**
+ * Indica si el usuario de una sesión puede leer un recurso suscrito: la política
+ * y, en las notas, que siga pudiendo verla. Sin usuario conocido no se notifica.
+ * Una nota borrada ya no está en el almacén, así que se comprueba con `note`.
+ */
+async function sessionCanReadResource(sessionId: string, uri: string, note?: Note): Promise<boolean> {
+  const principal = (await loadSessionMetadata(sessionId))?.principal;
+  if (!principal || !authorizationPolicy.canReadResource(principal, uri)) {
+    return false;
   }
+  if (isCapResourceUri(uri)) {
+    return true;
+  }
+  return note ? canView(note, principal) : (await notesStore.get(noteIdOf(uri), principal)) !== undefined;
+}
 
-  switch (request.params.name) {
-    case "create_note": {
-      const title = String(request.params.arguments?.title);
-      const content = String(request.params.arguments?.content);
-      if (!title || !content) {
-        throw new Error("Title and content are required");
-      }
+/**
+ * Prompts del servidor con los permisos que requieren
+ */
+const PROMPTS = [
+  {
+    name: "summarize_notes",
+    description: "Summarize all notes",
+    permissions: ["notes:read"],
+  },
+];
 
-      const id = String(Object.keys(notes).length + 1);
-      notes[id] = { title, content };
+/**
+ * Contexto de una llamada a herramienta: identidad, CAPClient con el token
+ * de la sesión y las dependencias compartidas del servidor
+ */
+async function createToolContext(
+  extra: { authInfo?: AuthInfo; sessionId?: string; requestId?: string | number },
+  context: string
+): Promise<ToolContext> {
+  return {
+    sessionId: extra.sessionId,
+    requestId: extra.requestId,
+    authInfo: extra.authInfo,
+    user: getRequestUser(extra),
+    viewer: getNoteViewer(extra),
+    capClient: await createRequestCAPClient(extra, context),
+    notesStore,
+    resourceSubscriptions,
+    entities: [],
+    confirmations,
+  };
+}
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Created note ${id}: ${title}`,
-          },
-        ],
-      };
+/**
+ * 🏭 Crea un servidor MCP completamente configurado (recursos, herramientas y prompts).
+ * Cada sesión MCP recibe su propia instancia para que respuestas y notificaciones
+ * nunca se envíen al transport de otra sesión.
+ */
+function createMcpServer(): Server {
+  const server = new Server(
+    {
+      name: "mcp-sampling",
+      version: "0.1.0",
+    },
+    {
+      capabilities: {
+        resources: {
+          subscribe: true,
+          listChanged: true,
+        },
+        tools: { listChanged: true },
+        prompts: {},
+        // sampling: {}
+      },
     }
+  );
 
-    case "cap_list_products": {
-      try {
-        const filterByLowStock = request.params.arguments?.filterByLowStock as boolean;
-        const threshold = request.params.arguments?.threshold as number;
-
-        let products;
-        if (filterByLowStock) {
-          products = await capClient.getLowStockProducts(threshold || 10);
-        } else {
-          products = await capClient.getProducts();
+  /**
+   * 📋 Handler para listar notas y objetos CAP como recursos MCP (paginado).
+   * Recorre las secciones en orden (notas, productos, órdenes, clientes) hasta llenar la página.
+   */
+  server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+    let { section, offset } = decodeResourceCursor(request.params?.cursor);
+    const resources: Array<{ uri: string; mimeType: string; name: string; description: string }> = [];
+    const principal = getPrincipal(extra);
+    let capClient: CAPClient | undefined;
+
+    while (section <= CAP_RESOURCE_COLLECTIONS.length && resources.length < RESOURCES_PAGE_SIZE) {
+      const remaining = RESOURCES_PAGE_SIZE - resources.length;
+      let page: typeof resources;
+
+      if (!authorizationPolicy.canReadResource(principal, section === 0 ? "note:///*" : `cap://${CAP_RESOURCE_COLLECTIONS[section - 1].collection}/*`)) {
+        // Sección sin permiso: no se consulta
+        page = [];
+      } else if (section === 0) {
+        const notes = await notesStore.list(getNoteViewer(extra));
+        page = notes.slice(offset, offset + remaining).map((note) => ({
+          uri: `note:///${note.id}`,
+          mimeType: "text/plain",
+          name: note.title,
+          description: `A text note: ${note.title}`,
+        }));
+      } else {
+        const collection = CAP_RESOURCE_COLLECTIONS[section - 1];
+        try {
+          capClient ??= await createRequestCAPClient(extra, "ListResources");
+          page = await listCapResources(capClient, collection, remaining, offset);
+        } catch (error: any) {
+          // Si CAP no responde, se listan igualmente el resto de recursos
+          console.error(`[ListResources] Error listando ${collection.entitySet}: ${error.message}`);
+          page = [];
         }
+      }
 
-        const productList = products.map((p: any) =>
-          `- ${p.name} (${p.category})\n  Precio: $${p.price} | Stock: ${p.stock} unidades\n  ID: ${p.ID}`
-        ).join('\n\n');
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: `📦 Productos encontrados: ${products.length}\n\n${productList || 'No hay productos disponibles'}`,
-            },
-          ],
-        };
-      } catch (error: any) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `❌ Error al obtener productos: ${error.message}`,
-            },
-          ],
-          isError: true,
-        };
+      // El avance del cursor usa la página completa; solo se ocultan los recursos sin permiso
+      resources.push(...page.filter((resource) => authorizationPolicy.canReadResource(principal, resource.uri)));
+      if (page.length < remaining) {
+        section++;
+        offset = 0;
+      } else {
+        offset += page.length;
       }
     }
 
-    case "cap_create_order": {
-      try {
-        const customerName = String(request.params.arguments?.customerName);
-        const items = request.params.arguments?.items as Array<{ productId: string; quantity: number }>;
-
-        if (!customerName || !items || items.length === 0) {
-          throw new Error("customerName e items son requeridos");
-        }
+    return {
+      resources,
+      nextCursor: section <= CAP_RESOURCE_COLLECTIONS.length
+        ? encodeResourceCursor({ section, offset })
+        : undefined,
+    };
+  });
 
-        const result = await capClient.createCompleteOrder(customerName, items);
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: `✅ Orden creada exitosamente!\n\n` +
-                    `📋 Número de Orden: ${result.orderNumber}\n` +
-                    `🆔 ID: ${result.orderId}\n` +
-                    `💰 Total: $${result.totalAmount}\n` +
-                    `👤 Cliente: ${customerName}\n` +
-                    `📦 Productos: ${items.length} ítems`,
-            },
-          ],
-        };
-      } catch (error: any) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `❌ Error al crear orden: ${error.message}`,
-            },
-          ],
-          isError: true,
-        };
+  /**
+   * 🔔 Handlers para suscribirse y cancelar la suscripción a un recurso.
+   * Las suscripciones se guardan en los metadatos de la sesión para sobrevivir a un cambio de pod.
+   */
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    assertCanReadResource(extra, request.params.uri);
+    if (!isCapResourceUri(request.params.uri)) {
+      const id = noteIdOf(request.params.uri);
+      if (!(await notesStore.get(id, getNoteViewer(extra)))) {
+        throw new Error(`Note ${id} not found`);
       }
     }
+    if (extra.sessionId) {
+      const subscriptions = resourceSubscriptions.subscribe(extra.sessionId, request.params.uri);
+      await saveSessionMetadata(extra.sessionId, { subscriptions });
+      console.log(`🔔 Sesión ${extra.sessionId} suscrita a ${request.params.uri}`);
+    }
+    return {};
+  });
 
-    case "cap_update_order_status": {
-      try {
-        const orderId = String(request.params.arguments?.orderId);
-        const newStatus = String(request.params.arguments?.newStatus);
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request, extra) => {
+    if (extra.sessionId) {
+      const subscriptions = resourceSubscriptions.unsubscribe(extra.sessionId, request.params.uri);
+      await saveSessionMetadata(extra.sessionId, { subscriptions });
+      console.log(`🔕 Sesión ${extra.sessionId} ya no está suscrita a ${request.params.uri}`);
+    }
+    return {};
+  });
 
-        if (!orderId || !newStatus) {
-          throw new Error("orderId y newStatus son requeridos");
-        }
+  /**
+   * 🧩 Handler para listar resource templates de objetos CAP (cap://products/{id}, ...).
+   */
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async (_request, extra) => {
+    const principal = getPrincipal(extra);
+    return {
+      resourceTemplates: listCapResourceTemplates()
+        .filter((template) => authorizationPolicy.canReadResource(principal, template.uriTemplate.replace("{id}", "*"))),
+    };
+  });
 
-        const updatedOrder = await capClient.updateOrderStatus(orderId, newStatus);
-
-        return {
-          content: [
-            {
-              type: "text",
-              text: `✅ Estado de orden actualizado!\n\n` +
-                    `📋 Orden: ${updatedOrder.orderNumber}\n` +
-                    `🔄 Nuevo Estado: ${updatedOrder.status}\n` +
-                    `👤 Cliente: ${updatedOrder.customerName}\n` +
-                    `💰 Total: $${updatedOrder.totalAmount}`,
-            },
-          ],
-        };
-      } catch (error: any) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `❌ Error al actualizar estado de orden: ${error.message}`,
-            },
-          ],
-          isError: true,
-        };
-      }
+  /**
+   * 📖 Handler para leer el contenido de una nota o de un objeto CAP.
+   */
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    assertCanReadResource(extra, request.params.uri);
+    if (isCapResourceUri(request.params.uri)) {
+      const capClient = await createRequestCAPClient(extra, "ReadResource");
+      return readCapResource(capClient, request.params.uri);
     }
 
-    default:
-      throw new Error("Unknown tool");
-  }
-});
+    const id = noteIdOf(request.params.uri);
+    const note = await notesStore.get(id, getNoteViewer(extra));
 
-/**
- * 💡 Handler para listar prompts disponibles (solo "summarize_notes").
- */
-server.setRequestHandler(ListPromptsRequestSchema, async () => {
-  return {
-    prompts: [
-      {
-        name: "summarize_notes",
-        description: "Summarize all notes",
+    if (!note) {
+      throw new Error(`Note ${id} not found`);
+    }
+
+    return {
+      contents: [
+        {
+          uri: request.params.uri,
+          mimeType: "text/plain",
+          text: note.content,
+        },
+      ],
+    };
+  });
+
+  /**
+   * 🛠️ Handler para listar herramientas disponibles.
+   */
+  server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+    return {
+      tools: await toolRegistry.list(await createToolContext(extra, "ListTools")),
+    };
+  });
+
+  /**
+   * 📝 Handler para las herramientas (tools): schema, permisos y errores los resuelve el registro.
+   */
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const user = getRequestUser(extra);
+    // Span hijo del POST /mcp; las peticiones de CAPClient de la herramienta cuelgan de él
+    return traced(`tools/call ${request.params.name}`, {
+      attributes: {
+        "mcp.tool.name": request.params.name,
+        "mcp.session.id": extra.sessionId,
+        "enduser.hashed_id": user ? hashUserId(user.sub) : undefined,
       },
-    ],
-  };
-});
+    }, async (span) => {
+      const context = await createToolContext(extra, "CallTool");
+      if (server.getClientCapabilities()?.elicitation) {
+        // La petición viaja por el stream de esta llamada; el usuario tiene hasta que caduque el confirmToken
+        context.elicit = (params) => extra.sendRequest(
+          { method: "elicitation/create", params },
+          ElicitResultSchema,
+          { timeout: confirmations.config.tokenTtlSeconds * 1000 }
+        );
+      }
+      const result = await toolRegistry.call(request.params.name, request.params.arguments || {}, context);
+      if (result.isError) {
+        const text = result.content.find((item) => item.type === "text");
+        span.setStatus({ code: SpanStatusCode.ERROR, message: text?.type === "text" ? text.text : undefined });
+      }
+      return result;
+    });
+  });
 
-/**
- * 🧠 Handler para el prompt "summarize_notes".
- */
-server.setRequestHandler(GetPromptRequestSchema, async (request) => {
-  if (request.params.name !== "summarize_notes") {
-    throw new Error("Unknown prompt");
-  }
+  /**
+   * 💡 Handler para listar los prompts que el usuario puede usar (solo "summarize_notes").
+   */
+  server.setRequestHandler(ListPromptsRequestSchema, async (_request, extra) => {
+    const principal = getPrincipal(extra);
+    return {
+      prompts: PROMPTS
+        .filter((prompt) => authorizationPolicy.canUsePrompt(principal, prompt.name, prompt.permissions))
+        .map(({ name, description }) => ({ name, description })),
+    };
+  });
 
-  const embeddedNotes = Object.entries(notes).map(([id, note]) => ({
-    type: "resource" as const,
-    resource: {
-      uri: `note:///${id}`,
-      mimeType: "text/plain",
-      text: note.content,
-    },
-  }));
+  /**
+   * 🧠 Handler para el prompt "summarize_notes".
+   */
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    const prompt = PROMPTS.find((p) => p.name === request.params.name);
+    if (!prompt) {
+      throw new Error("Unknown prompt");
+    }
+    if (!authorizationPolicy.canUsePrompt(getPrincipal(extra), prompt.name, prompt.permissions)) {
+      throw new McpError(ErrorCode.InvalidRequest, `⛔ No tienes permiso para usar el prompt ${prompt.name}`);
+    }
 
-  return {
-    messages: [
-      {
-        role: "user",
-        content: {
-          type: "text",
-          text: "Please summarize the following notes:",
-        },
+    const notes = await notesStore.list(getNoteViewer(extra));
+    const embeddedNotes = notes.map((note) => ({
+      type: "resource" as const,
+      resource: {
+        uri: `note:///${note.id}`,
+        mimeType: "text/plain",
+        text: note.content,
       },
-      ...embeddedNotes.map((note) => ({
-        role: "user" as const,
-        content: note,
-      })),
-      {
-        role: "user",
-        content: {
-          type: "text",
-          text: "Provide a concise summary of all the notes above.",
+    }));
+
+    return {
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: "Please summarize the following notes:",
+          },
         },
-      },
-    ],
-  };
-});
+        ...embeddedNotes.map((note) => ({
+          role: "user" as const,
+          content: note,
+        })),
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: "Provide a concise summary of all the notes above.",
+          },
+        },
+      ],
+    };
+  });
+
+  return server;
+}
 
 /**************** Fin de la configuración del servidor MCP ****************/
 
@@ -543,6 +785,8 @@ app.get("/", (req: Request, res: Response) => {
           <li><strong>POST /mcp</strong> - MCP endpoint (requires authentication)</li>
           <li><strong>GET /health</strong> - Health check (public)</li>
           <li><strong>GET /ready</strong> - Readiness check (public)</li>
+          <li><strong>GET /metrics</strong> - Prometheus metrics (METRICS_TOKEN if configured)</li>
+          <li><strong>GET /admin/audit</strong> - Audit trail of tool calls (requires audit:read)</li>
           <li><strong>GET /mcp/login</strong> - OAuth login</li>
           <li><strong>GET /mcp/callback</strong> - OAuth callback</li>
           <li><strong>GET /mcp/logout</strong> - Logout</li>
@@ -561,25 +805,101 @@ app.get("/", (req: Request, res: Response) => {
 });
 
 /**
- * 🏥 Health check endpoint para Kubernetes liveness probe
+ * 🔑 Protege los endpoints de administración: acepta ADMIN_API_TOKEN como bearer
+ * o un token IAS cuyo usuario tenga el permiso en la política de autorización
+ */
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN;
+
+/**
+ * Compara un bearer con un token configurado en tiempo constante
+ */
+function bearerMatches(expectedToken: string | undefined, token: string | null): boolean {
+  if (!expectedToken || !token) {
+    return false;
+  }
+  const expected = Buffer.from(expectedToken);
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+function requireAdminPermission(permission: string) {
+  const verifyIASToken = authMiddleware(iasConfig);
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const token = extractToken(req);
+    if (bearerMatches(ADMIN_API_TOKEN, token)) {
+      next();
+      return;
+    }
+    // Sin IAS o sin política no hay forma de saber quién es administrador
+    if (!iasConfig.enabled || !authorizationPolicy.enforced) {
+      res.status(token ? 403 : 401).json({ error: `Forbidden: requiere ADMIN_API_TOKEN o IAS con una política que conceda ${permission}` });
+      return;
+    }
+    await verifyIASToken(req, res, () => {
+      const user = (req as any).user as IASTokenPayload;
+      const principal: Principal = { sub: user.sub, groups: user.groups ?? [], scopes: user.scope ? user.scope.split(" ") : [] };
+      if (!authorizationPolicy.hasPermission(principal, permission)) {
+        console.warn(`[Admin] ${user.sub} no tiene el permiso ${permission} (${req.path})`);
+        res.status(403).json({ error: `Forbidden: requiere el permiso ${permission}` });
+        return;
+      }
+      next();
+    });
+  };
+}
+
+/**
+ * 🧾 Consulta del registro de auditoría (GET /admin/audit?user=&tool=&from=&to=&limit=)
+ */
+app.get("/admin/audit", requireAdminPermission("audit:read"), handleAuditQuery(auditLog));
+
+/**
+ * 📈 Métricas en formato Prometheus. Con METRICS_TOKEN configurado exige ese
+ * bearer (independiente de IAS y de ADMIN_API_TOKEN); sin él es público.
  */
-app.get("/health", (req: Request, res: Response) => {
+const METRICS_TOKEN = process.env.METRICS_TOKEN;
+
+app.get("/metrics", async (req: Request, res: Response) => {
+  if (METRICS_TOKEN && !bearerMatches(METRICS_TOKEN, extractToken(req))) {
+    res.setHeader("WWW-Authenticate", 'Bearer realm="metrics"');
+    res.status(401).json({ error: "Unauthorized: requiere METRICS_TOKEN como bearer" });
+    return;
+  }
+  res.setHeader("Content-Type", metrics.contentType);
+  res.send(await metrics.metrics());
+});
+
+/**
+ * 🏥 Health check endpoint para Kubernetes liveness probe.
+ * Siempre 200 mientras el proceso responde (una dependencia caída no debe reiniciar el pod);
+ * `status` es "degraded" y `dependencies` detalla latencia y último error de cada una.
+ */
+app.get("/health", async (req: Request, res: Response) => {
+  const report = await healthChecker.report();
   res.status(200).json({
-    status: "healthy",
+    status: report.ready ? "healthy" : "degraded",
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
-    notesCount: Object.keys(notes).length,
-    activeSessions: Object.keys(transports).length
+    // Sin notas (fichero ilegible o en uso por otra réplica) el proceso sigue vivo
+    notesCount: await notesStore.count().catch(() => null),
+    activeSessions: Object.keys(transports).length,
+    dependencies: report.dependencies,
+    dependenciesCheckedAt: report.checkedAt,
+    capCircuit: getCapResilience().breaker.snapshot()
   });
 });
 
 /**
- * 🏥 Readiness check endpoint para Kubernetes readiness probe
+ * 🏥 Readiness check endpoint para Kubernetes readiness probe.
+ * 503 si CAP, el JWKS de IAS (con IAS habilitado) o el session store no responden.
  */
-app.get("/ready", (req: Request, res: Response) => {
-  res.status(200).json({
-    status: "ready",
-    timestamp: new Date().toISOString()
+app.get("/ready", async (req: Request, res: Response) => {
+  const report = await healthChecker.report();
+  res.status(report.ready ? 200 : 503).json({
+    status: report.ready ? "ready" : "not_ready",
+    timestamp: new Date().toISOString(),
+    checks: Object.fromEntries(Object.entries(report.dependencies).map(([name, dependency]) => [name, dependency.status])),
+    capCircuit: getCapResilience().breaker.snapshot().state
   });
 });
 
@@ -720,11 +1040,167 @@ app.get("/.well-known/oauth-authorization-server", (req: Request, res: Response)
 //   });
 // });
 
+/**
+ * Libera juntos el servidor y el transport de una sesión cuando ésta se cierra.
+ * Debe llamarse antes de server.connect(): el servidor encadena su propio onclose
+ * al del transport y así se desvincula automáticamente.
+ */
+function releaseSessionOnClose(transport: StreamableHTTPServerTransport): void {
+  transport.onclose = () => {
+    const sessionId = transport.sessionId;
+    if (!sessionId) {
+      return;
+    }
+    delete transports[sessionId];
+    delete servers[sessionId];
+    localSessions.delete(sessionId);
+    resourceSubscriptions.unregister(sessionId);
+    if (!shuttingDown) {
+      // Se deja una marca en lugar de borrar: una réplica que no encuentra los
+      // metadatos mantiene su transport, una que encuentra la marca lo cierra
+      const now = Date.now();
+      sessionStore.set<McpSessionMetadata>(
+        MCP_SESSION_KEY_PREFIX + sessionId,
+        { createdAt: now, lastSeenAt: now, terminatedAt: now },
+        MCP_SESSION_TTL_MS
+      ).catch((error) => {
+        console.error(`❌ Error marcando como terminada la sesión ${sessionId}:`, error);
+      });
+    }
+  };
+}
+
+/**
+ * Obtiene el transport de una sesión. Si la sesión se inició en otra réplica
+ * (existe en el session store pero no en este pod), lo reconstruye.
+ */
+async function getSessionTransport(sessionId: string): Promise<StreamableHTTPServerTransport | undefined> {
+  const metadata = await loadSessionMetadata(sessionId);
+
+  if (metadata?.terminatedAt) {
+    if (transports[sessionId]) {
+      console.log(`⌛ Sesión ${sessionId} terminada en otra réplica, cerrando transport local`);
+      await transports[sessionId].close();
+    }
+    return undefined;
+  }
+
+  if (transports[sessionId]) {
+    if (!metadata) {
+      // Caducaron o se perdieron (p. ej. reinicio del store): el transport local sigue
+      // siendo válido y se vuelven a guardar sus datos para las demás réplicas
+      console.warn(`⚠️ Sesión ${sessionId} sin metadatos en el session store, se restauran desde este pod`);
+      const server = servers[sessionId];
+      await saveSessionMetadata(sessionId, {
+        owner: localSessions.get(sessionId)?.owner,
+        clientInfo: server.getClientVersion(),
+        clientCapabilities: server.getClientCapabilities(),
+        subscriptions: resourceSubscriptions.subscriptionsOf(sessionId),
+      });
+    }
+    return transports[sessionId];
+  }
+
+  if (!metadata) {
+    return undefined;
+  }
+  if (!metadata.owner) {
+    // Sin propietario no se puede comprobar a quién pertenece: el cliente debe reinicializar
+    console.warn(`⚠️ Sesión ${sessionId} sin propietario en el session store, no se restaura`);
+    return undefined;
+  }
+
+  console.log(`♻️ Restaurando sesión ${sessionId} desde el session store`);
+
+  const server = createMcpServer();
+  const transport = new ResumableHTTPServerTransport({
+    sessionIdGenerator: () => sessionId,
+    eventStore: createEventStore(sessionId),
+  });
+
+  // El SDK no expone cómo retomar una sesión ya inicializada
+  restoreInitializedSession(transport, server, sessionId, metadata.clientCapabilities, metadata.clientInfo);
+
+  releaseSessionOnClose(transport);
+  await server.connect(transport);
+  transports[sessionId] = transport;
+  servers[sessionId] = server;
+  localSessions.set(sessionId, { owner: metadata.owner });
+  resourceSubscriptions.register(sessionId, server, metadata.subscriptions);
+  return transport;
+}
+
+/**
+ * sub del usuario autenticado de la petición HTTP
+ */
+function getRequestSub(req: Request): string {
+  return ((req as any).user as IASTokenPayload | undefined)?.sub ?? ANONYMOUS_OWNER;
+}
+
+/**
+ * Responde 403 si la sesión pertenece a otro usuario: conocer el mcp-session-id
+ * no basta para usar la sesión de otro (ni que sus llamadas usen otro token).
+ * Las sesiones desconocidas o terminadas siguen el flujo normal (400).
+ */
+async function rejectForeignSession(req: Request, res: Response, sessionId: string): Promise<boolean> {
+  const metadata = await loadSessionMetadata(sessionId);
+  const owner = metadata?.owner ?? localSessions.get(sessionId)?.owner;
+  // Una sesión sin propietario conocido no se restaura (getSessionTransport): sigue el flujo de sesión desconocida
+  const exists = metadata ? !metadata.terminatedAt && owner !== undefined : localSessions.has(sessionId);
+  const sub = getRequestSub(req);
+  if (!exists || owner === sub) {
+    return false;
+  }
+  console.warn(`[Sessions] ${sub} intentó usar la sesión ${sessionId} de otro usuario`);
+  res.status(403).json({
+    jsonrpc: "2.0",
+    error: {
+      code: -32000,
+      message: "Forbidden: session belongs to another user",
+    },
+    id: req?.body?.id ?? null,
+  });
+  return true;
+}
+
+/**
+ * 🔭 Abre un span de servidor por cada POST /mcp (continúa la traza si llega
+ * `traceparent`) y lo deja activo para la autenticación, los handlers MCP y CAP
+ */
+function traceMcpRequest(req: Request, res: Response, next: NextFunction): void {
+  const parent = propagation.extract(ROOT_CONTEXT, req.headers);
+  const span = getTracer().startSpan("POST /mcp", {
+    kind: SpanKind.SERVER,
+    attributes: {
+      "http.request.method": "POST",
+      "url.path": "/mcp",
+      "rpc.system": "jsonrpc",
+      "rpc.method": Array.isArray(req.body) ? "batch" : req.body?.method,
+      "mcp.session.id": req.headers["mcp-session-id"] as string | undefined,
+    },
+  }, parent);
+  // Con SSE la respuesta sigue abierta después del handler: el span termina al cerrarse
+  res.once("close", () => {
+    const user = (req as any).user as IASTokenPayload | undefined;
+    span.setAttributes({
+      "http.response.status_code": res.statusCode,
+      // Las sesiones nuevas reciben su ID en la respuesta
+      "mcp.session.id": res.getHeader("mcp-session-id") as string | undefined,
+      "enduser.hashed_id": user ? hashUserId(user.sub) : undefined,
+    });
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR, message: `HTTP ${res.statusCode}` });
+    }
+    span.end();
+  });
+  otelContext.with(trace.setSpan(parent, span), next);
+}
+
 /**
  * Endpoint principal MCP (POST).
  * Protegido con autenticación combinada (JWT header o cookie de sesión)
  */
-app.post("/mcp", combinedAuthMiddleware(iasConfig, getTokenFromSession), async (req, res) => {
+app.post("/mcp", traceMcpRequest, combinedAuthMiddleware(iasConfig, getTokenFromSession(oauthConfig)), async (req, res) => {
   console.log("📨 Recibida petición MCP POST");
   console.log("📦 Cuerpo de la petición:", req.body);
 
@@ -736,40 +1212,69 @@ app.post("/mcp", combinedAuthMiddleware(iasConfig, getTokenFromSession), async (
     // Extraer token de autenticación del request (puede venir del header Authorization o de la sesión OAuth)
     const authToken = (req as any).accessToken || extractToken(req);
 
+    // Exponer el token a los handlers MCP como extra.authInfo
+    if (authToken) {
+      (req as any).auth = buildAuthInfo(authToken, (req as any).user);
+    }
+
     let transport: StreamableHTTPServerTransport;
 
-    if (sessionId && transports[sessionId]) {
+    if (sessionId && await rejectForeignSession(req, res, sessionId)) {
+      return;
+    }
+    const existingTransport = sessionId ? await getSessionTransport(sessionId) : undefined;
+
+    if (sessionId && existingTransport) {
       console.log(`🔄 Reutilizando transport para sesión ${sessionId}`);
-      transport = transports[sessionId];
+      transport = existingTransport;
 
-      // Actualizar el token de la sesión
+      // Actualizar el token (en memoria) y el usuario de la sesión y renovar su TTL
+      localSessions.set(sessionId, { owner: getRequestSub(req), authToken });
+      await saveSessionMetadata(sessionId, { principal: getPrincipal({ authInfo: (req as any).auth }) });
       if (authToken) {
-        sessionTokens[sessionId] = authToken;
         console.log(`🔐 Token de autenticación actualizado para sesión ${sessionId}`);
       }
     } else if (!sessionId && isInitializeRequest(req.body)) {
       console.log("🆕 Sin session ID, inicializando nuevo transport");
 
-      transport = new StreamableHTTPServerTransport({
-        sessionIdGenerator: () => randomUUID(),
-        onsessioninitialized: (newSessionId) => {
-          transports[newSessionId] = transport;
+      const server = createMcpServer();
+      const { clientInfo, capabilities } = req.body.params;
 
-          // Guardar el token para esta sesión
-          if (authToken) {
-            sessionTokens[newSessionId] = authToken;
-            console.log(`🔐 Token de autenticación guardado para nueva sesión ${newSessionId}`);
-          }
+      // El ID se genera antes para asociar el event store (reanudación SSE) a la sesión
+      const newSessionId = randomUUID();
+
+      transport = new ResumableHTTPServerTransport({
+        sessionIdGenerator: () => newSessionId,
+        eventStore: createEventStore(newSessionId),
+        onsessioninitialized: () => {
+          transports[newSessionId] = transport;
+          servers[newSessionId] = server;
+          localSessions.set(newSessionId, { owner: getRequestSub(req), authToken });
+          resourceSubscriptions.register(newSessionId, server);
         },
       });
-      transport.onclose = () => {
-        if (transport.sessionId) {
-          delete transports[transport.sessionId];
-          delete sessionTokens[transport.sessionId]; // Limpiar token al cerrar sesión
-        }
-      };
+      releaseSessionOnClose(transport);
+
+      // Los metadatos se guardan antes de responder a initialize: la siguiente
+      // petición del cliente puede llegar a otra réplica
+      const now = Date.now();
+      await sessionStore.set<McpSessionMetadata>(MCP_SESSION_KEY_PREFIX + newSessionId, {
+        createdAt: now,
+        lastSeenAt: now,
+        owner: getRequestSub(req),
+        principal: getPrincipal({ authInfo: (req as any).auth }),
+        clientInfo,
+        clientCapabilities: capabilities,
+      }, MCP_SESSION_TTL_MS);
 
       await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+
+      // El SDK rechazó el initialize (p. ej. en un batch): la sesión no existe
+      if (!transport.sessionId) {
+        await sessionStore.delete(MCP_SESSION_KEY_PREFIX + newSessionId);
+      }
+      return;
     } else {
       res.status(400).json({
         jsonrpc: "2.0",
@@ -804,10 +1309,14 @@ app.post("/mcp", combinedAuthMiddleware(iasConfig, getTokenFromSession), async (
  * Endpoint GET para SSE streams (usado por MCP para eventos).
  * Protegido con autenticación combinada (JWT header o cookie de sesión)
  */
-app.get("/mcp", combinedAuthMiddleware(iasConfig, getTokenFromSession), async (req: Request, res: Response) => {
+app.get("/mcp", combinedAuthMiddleware(iasConfig, getTokenFromSession(oauthConfig)), async (req: Request, res: Response) => {
   console.error("📥 Recibida petición MCP GET");
   const sessionId = req.headers["mcp-session-id"] as string | undefined;
-  if (!sessionId || !transports[sessionId]) {
+  if (sessionId && await rejectForeignSession(req, res, sessionId)) {
+    return;
+  }
+  const transport = sessionId ? await getSessionTransport(sessionId) : undefined;
+  if (!sessionId || !transport) {
     res.status(400).json({
       jsonrpc: "2.0",
       error: {
@@ -819,6 +1328,8 @@ app.get("/mcp", combinedAuthMiddleware(iasConfig, getTokenFromSession), async (r
     return;
   }
 
+  await saveSessionMetadata(sessionId, {});
+
   const lastEventId = req.headers["last-event-id"] as string | undefined;
   if (lastEventId) {
     console.error(`🔁 Cliente reconectando con Last-Event-ID: ${lastEventId}`);
@@ -826,17 +1337,20 @@ app.get("/mcp", combinedAuthMiddleware(iasConfig, getTokenFromSession), async (r
     console.error(`🌐 Estableciendo nuevo SSE para sesión ${sessionId}`);
   }
 
-  const transport = transports[sessionId];
-  await transport!.handleRequest(req, res);
+  await transport.handleRequest(req, res);
 });
 
 /**
  * Endpoint DELETE para terminar sesión MCP.
  * Protegido con autenticación combinada (JWT header o cookie de sesión)
  */
-app.delete("/mcp", combinedAuthMiddleware(iasConfig, getTokenFromSession), async (req: Request, res: Response) => {
+app.delete("/mcp", combinedAuthMiddleware(iasConfig, getTokenFromSession(oauthConfig)), async (req: Request, res: Response) => {
   const sessionId = req.headers["mcp-session-id"] as string | undefined;
-  if (!sessionId || !transports[sessionId]) {
+  if (sessionId && await rejectForeignSession(req, res, sessionId)) {
+    return;
+  }
+  const transport = sessionId ? await getSessionTransport(sessionId) : undefined;
+  if (!sessionId || !transport) {
     res.status(400).json({
       jsonrpc: "2.0",
       error: {
@@ -853,8 +1367,7 @@ app.delete("/mcp", combinedAuthMiddleware(iasConfig, getTokenFromSession), async
   );
 
   try {
-    const transport = transports[sessionId];
-    await transport!.handleRequest(req, res);
+    await transport.handleRequest(req, res);
   } catch (error) {
     console.error("❌ Error al terminar sesión:", error);
     if (!res.headersSent) {
@@ -884,6 +1397,7 @@ app.listen(PORT, () => {
  */
 process.on("SIGINT", async () => {
   console.log("🛑 Apagando servidor...");
+  shuttingDown = true;
 
   // Cierra todos los transports activos
   for (const sessionId in transports) {
@@ -891,11 +1405,16 @@ process.on("SIGINT", async () => {
       console.log(`🔒 Cerrando transport para sesión ${sessionId}`);
       await transports[sessionId].close();
       delete transports[sessionId];
+      delete servers[sessionId];
     } catch (error) {
       console.error(`❌ Error cerrando transport para sesión ${sessionId}:`, error);
     }
   }
 
+  await notesStore.close();
+  await sessionStore.close();
+  await shutdownTracing();
+
   console.error("✅ Apagado completo");
   process.exit(0);
 });
\ No newline at end of file
@@ -0,0 +1,87 @@
+/**
+ * 🧷 Acceso a campos internos del SDK de MCP
+ *
+ * Retomar en una réplica una sesión iniciada en otra y guardar las
+ * notificaciones del stream GET necesitan estado que el SDK no expone. Todo el
+ * acceso a campos privados pasa por este módulo, escrito contra la versión
+ * SUPPORTED_SDK_VERSION (fijada sin rango en package.json). Al actualizar el SDK
+ * hay que revisar estos nombres: si un campo desaparece se lanza
+ * SdkInternalsError en lugar de seguir con una sesión a medio restaurar.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { ClientCapabilities, Implementation } from "@modelcontextprotocol/sdk/types.js";
+
+export const SUPPORTED_SDK_VERSION = "1.13.2";
+
+/**
+ * Campos privados de StreamableHTTPServerTransport que se usan
+ */
+interface TransportInternals {
+  _initialized: boolean;
+  _standaloneSseStreamId: string;
+  _streamMapping: Map<string, unknown>;
+}
+
+/**
+ * Campos privados de Server que se usan
+ */
+interface ServerInternals {
+  _clientCapabilities?: ClientCapabilities;
+  _clientVersion?: Implementation;
+}
+
+export class SdkInternalsError extends Error {
+  constructor(field: string) {
+    super(`El SDK de MCP ya no tiene el campo interno ${field}: revisar mcp-sdk-internals.ts (escrito para ${SUPPORTED_SDK_VERSION})`);
+    this.name = "SdkInternalsError";
+  }
+}
+
+function internals<T extends object>(target: object, fields: Array<keyof T & string>): T {
+  for (const field of fields) {
+    if (!(field in target)) {
+      throw new SdkInternalsError(field);
+    }
+  }
+  return target as T;
+}
+
+/**
+ * Marca como inicializados un transport y su servidor recién creados para una
+ * sesión existente, con las capabilities y la versión que el cliente envió en
+ * su `initialize`
+ */
+export function restoreInitializedSession(
+  transport: StreamableHTTPServerTransport,
+  server: Server,
+  sessionId: string,
+  clientCapabilities: ClientCapabilities | undefined,
+  clientInfo: Implementation | undefined
+): void {
+  const transportInternals = internals<TransportInternals>(transport, ["_initialized"]);
+  transport.sessionId = sessionId;
+  transportInternals._initialized = true;
+
+  // Server solo crea estos campos al recibir `initialize`: se comprueban con sus getters
+  const serverInternals = server as unknown as ServerInternals;
+  serverInternals._clientCapabilities = clientCapabilities;
+  serverInternals._clientVersion = clientInfo;
+  if (server.getClientCapabilities() !== clientCapabilities) {
+    throw new SdkInternalsError("_clientCapabilities");
+  }
+  if (server.getClientVersion() !== clientInfo) {
+    throw new SdkInternalsError("_clientVersion");
+  }
+}
+
+/**
+ * Stream SSE de GET /mcp del transport: su ID en el event store y si hay una
+ * conexión abierta
+ */
+export function standaloneStream(transport: StreamableHTTPServerTransport): { id: string; open: boolean } {
+  const transportInternals = internals<TransportInternals>(transport, ["_standaloneSseStreamId", "_streamMapping"]);
+  const id = transportInternals._standaloneSseStreamId;
+  return { id, open: transportInternals._streamMapping.has(id) };
+}
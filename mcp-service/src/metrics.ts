@@ -0,0 +1,73 @@
+/**
+ * 📈 Métricas en formato de texto de Prometheus (GET /metrics)
+ *
+ * Counters, gauges e histogramas de prom-client en un registro propio del
+ * servicio, más las métricas por defecto del proceso (CPU, memoria, event loop).
+ * Los valores viven en el proceso: cada réplica expone los suyos y Prometheus
+ * los agrega al consultar.
+ *
+ * Las métricas del servicio se declaran al final de este fichero; los handlers,
+ * el ToolRegistry y CAPClient las actualizan.
+ */
+
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+
+// Buckets por defecto de los clientes de Prometheus, más 30 s para las herramientas que esperan al usuario
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * Registro del proceso
+ */
+export const metrics = new Registry();
+
+collectDefaultMetrics({ register: metrics });
+
+/**
+ * Gauge sin etiquetas cuyo valor calcula `collect` en cada consulta de /metrics
+ * (el módulo que tiene el dato registra el cálculo)
+ */
+export interface CollectedGauge {
+  collect(collector: () => number): void;
+}
+
+function collectedGauge(name: string, help: string): CollectedGauge {
+  let collector = () => 0;
+  new Gauge({
+    name,
+    help,
+    registers: [metrics],
+    collect() {
+      this.set(collector());
+    },
+  });
+  return {
+    collect: (fn) => {
+      collector = fn;
+    },
+  };
+}
+
+function counter<T extends string>(name: string, help: string, labelNames: readonly T[]): Counter<T> {
+  return new Counter({ name, help, labelNames, registers: [metrics] });
+}
+
+function histogram<T extends string>(name: string, help: string, labelNames: readonly T[]): Histogram<T> {
+  return new Histogram({ name, help, labelNames, buckets: DEFAULT_BUCKETS, registers: [metrics] });
+}
+
+// 🔌 Sesiones
+export const mcpSessionsActive = collectedGauge('mcp_sessions_active', 'Sesiones MCP con transport abierto en este pod');
+export const oauthSessionsActive = collectedGauge('oauth_sessions_active', 'Sesiones OAuth de cookie creadas o renovadas en este pod y no caducadas');
+
+// 🛠️ Herramientas
+export const toolCallsTotal = counter('mcp_tool_calls_total', 'Llamadas a herramientas por resultado', ['tool', 'outcome']);
+export const toolErrorsTotal = counter('mcp_tool_errors_total', 'Llamadas a herramientas que no se completaron (error, denied, invalid_arguments, unknown_tool)', ['tool', 'outcome']);
+export const toolCallDuration = histogram('mcp_tool_call_duration_seconds', 'Duración de las llamadas a herramientas', ['tool']);
+
+// 🔗 CAP
+export const capRequestDuration = histogram('cap_request_duration_seconds', 'Duración de cada petición HTTP a CAP por entidad o acción y código de estado', ['method', 'target', 'status']);
+
+// 🔐 Autenticación
+export const tokenVerificationFailuresTotal = counter('auth_token_verification_failures_total', 'Tokens rechazados por motivo', ['reason']);
+export const oauthLoginsTotal = counter('oauth_login_total', 'Inicios de login OAuth (/mcp/login) por resultado', ['outcome']);
+export const oauthCallbacksTotal = counter('oauth_callback_total', 'Callbacks OAuth (/mcp/callback) por resultado', ['outcome']);
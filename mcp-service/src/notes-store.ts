@@ -0,0 +1,358 @@
+/**
+ * 📝 Almacenamiento persistente de notas
+ *
+ * Guarda las notas en un fichero JSON (NOTES_FILE), pensado para un volumen
+ * montado en el pod. Las escrituras son atómicas (fichero temporal + rename)
+ * y se serializan para que dos herramientas concurrentes no se pisen.
+ *
+ * Las notas viven en memoria del proceso, así que solo una réplica puede usar el
+ * fichero: al cargarlo se toma un lock (`<NOTES_FILE>.lock`) que se renueva
+ * mientras el proceso vive. Otra réplica con el mismo volumen recibe
+ * NotesLockedError hasta que el lock caduca.
+ *
+ * Cada nota pertenece a un usuario (sub del token IAS). Solo su propietario la
+ * ve y la modifica, salvo que la comparta con todos o con grupos concretos.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { dirname } from 'node:path';
+
+/**
+ * Tipo para una nota.
+ */
+export interface Note {
+  id: string;
+  title: string;
+  content: string;
+  owner: string;               // sub del usuario que creó la nota
+  shared: boolean;             // Visible para todos los usuarios autenticados
+  sharedWithGroups: string[];  // Visible para los miembros de estos grupos IAS
+  createdAt: string;           // ISO 8601
+  updatedAt: string;           // ISO 8601
+}
+
+/**
+ * Usuario que accede a las notas
+ */
+export interface NoteViewer {
+  sub: string;
+  groups: string[];
+}
+
+/**
+ * Propietario de las notas creadas sin autenticación (IAS_ENABLED=false)
+ */
+export const ANONYMOUS_OWNER = 'anonymous';
+
+/**
+ * Opciones de compartición de una nota
+ */
+export interface NoteSharing {
+  shared?: boolean;
+  sharedWithGroups?: string[];
+}
+
+/**
+ * Error al modificar una nota ajena
+ */
+export class NoteAccessError extends Error {
+  constructor(id: string) {
+    super(`Only the owner can modify note ${id}`);
+    this.name = 'NoteAccessError';
+  }
+}
+
+/**
+ * El fichero de notas lo está usando otra réplica
+ */
+export class NotesLockedError extends Error {
+  constructor(filePath: string, holder: string) {
+    super(`${filePath} está en uso por otra réplica (${holder}): las notas solo admiten una réplica`);
+    this.name = 'NotesLockedError';
+  }
+}
+
+// El lock se renueva cada LOCK_REFRESH_MS; si no se renueva en LOCK_STALE_MS, su proceso murió
+const LOCK_REFRESH_MS = 5_000;
+const LOCK_STALE_MS = 15_000;
+
+/**
+ * Cambio en el almacén, para notificar a los clientes MCP
+ */
+export interface NoteChange {
+  type: 'created' | 'updated' | 'deleted';
+  note: Note;
+}
+
+/**
+ * Indica si el usuario puede ver la nota
+ */
+export function canView(note: Note, viewer: NoteViewer): boolean {
+  return note.owner === viewer.sub
+    || note.shared
+    || note.sharedWithGroups.some((group) => viewer.groups.includes(group));
+}
+
+/**
+ * Notas de ejemplo con las que se inicializa un almacén vacío
+ */
+function seedNotes(): Note[] {
+  const now = new Date().toISOString();
+  return [
+    { id: '1', title: 'First Note', content: 'This is note 1', owner: ANONYMOUS_OWNER, shared: true, sharedWithGroups: [], createdAt: now, updatedAt: now },
+    { id: '2', title: 'Second Note', content: 'This is note 2', owner: ANONYMOUS_OWNER, shared: true, sharedWithGroups: [], createdAt: now, updatedAt: now },
+  ];
+}
+
+export class NotesStore {
+  private notes = new Map<string, Note>();
+  private loaded?: Promise<void>;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private changeListeners: Array<(change: NoteChange) => void> = [];
+  private lockTimer?: NodeJS.Timeout;
+
+  constructor(private filePath: string) {}
+
+  private get lockPath(): string {
+    return `${this.filePath}.lock`;
+  }
+
+  /**
+   * Registra un listener que se invoca tras persistir cada cambio
+   */
+  onChange(listener: (change: NoteChange) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Lista las notas visibles para el usuario, de la más reciente a la más antigua
+   */
+  async list(viewer: NoteViewer): Promise<Note[]> {
+    await this.ensureLoaded();
+    return [...this.notes.values()]
+      .filter((note) => canView(note, viewer))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /**
+   * Obtiene una nota si el usuario puede verla
+   */
+  async get(id: string, viewer: NoteViewer): Promise<Note | undefined> {
+    await this.ensureLoaded();
+    const note = this.notes.get(id);
+    return note && canView(note, viewer) ? note : undefined;
+  }
+
+  async count(): Promise<number> {
+    await this.ensureLoaded();
+    return this.notes.size;
+  }
+
+  async create(data: { title: string; content: string } & NoteSharing, owner: NoteViewer): Promise<Note> {
+    await this.ensureLoaded();
+    const now = new Date().toISOString();
+    const note: Note = {
+      id: randomUUID(),
+      title: data.title,
+      content: data.content,
+      owner: owner.sub,
+      shared: data.shared ?? false,
+      sharedWithGroups: data.sharedWithGroups ?? [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.commit(() => {
+      this.notes.set(note.id, note);
+      return () => this.notes.delete(note.id);
+    });
+    this.emitChange({ type: 'created', note });
+    return note;
+  }
+
+  /**
+   * Modifica una nota. Devuelve undefined si el usuario no puede verla
+   * y lanza NoteAccessError si la ve pero no es su propietario.
+   */
+  async update(id: string, changes: { title?: string; content?: string } & NoteSharing, viewer: NoteViewer): Promise<Note | undefined> {
+    const note = await this.get(id, viewer);
+    if (!note) {
+      return undefined;
+    }
+    if (note.owner !== viewer.sub) {
+      throw new NoteAccessError(id);
+    }
+
+    const updated: Note = {
+      ...note,
+      title: changes.title ?? note.title,
+      content: changes.content ?? note.content,
+      shared: changes.shared ?? note.shared,
+      sharedWithGroups: changes.sharedWithGroups ?? note.sharedWithGroups,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.commit(() => {
+      const previous = this.notes.get(id);
+      this.notes.set(id, updated);
+      return () => (previous ? this.notes.set(id, previous) : this.notes.delete(id));
+    });
+    this.emitChange({ type: 'updated', note: updated });
+    return updated;
+  }
+
+  /**
+   * Elimina una nota con las mismas reglas de acceso que update()
+   */
+  async delete(id: string, viewer: NoteViewer): Promise<boolean> {
+    const note = await this.get(id, viewer);
+    if (!note) {
+      return false;
+    }
+    if (note.owner !== viewer.sub) {
+      throw new NoteAccessError(id);
+    }
+    await this.commit(() => {
+      this.notes.delete(id);
+      return () => this.notes.set(id, note);
+    });
+    this.emitChange({ type: 'deleted', note });
+    return true;
+  }
+
+  /**
+   * Búsqueda simple sin distinguir mayúsculas en título y contenido
+   */
+  async search(query: string, viewer: NoteViewer): Promise<Note[]> {
+    const needle = query.toLowerCase();
+    return (await this.list(viewer)).filter((note) =>
+      note.title.toLowerCase().includes(needle) || note.content.toLowerCase().includes(needle)
+    );
+  }
+
+  private emitChange(change: NoteChange): void {
+    for (const listener of this.changeListeners) {
+      listener(change);
+    }
+  }
+
+  /**
+   * Libera el lock del fichero (al apagar el servidor)
+   */
+  async close(): Promise<void> {
+    if (!this.lockTimer) {
+      return;
+    }
+    clearInterval(this.lockTimer);
+    this.lockTimer = undefined;
+    await rm(this.lockPath, { force: true });
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      // Una carga fallida no se guarda: la siguiente llamada lo vuelve a intentar
+      this.loaded = this.load().catch((error) => {
+        this.loaded = undefined;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Toma el lock del fichero de notas, o lanza NotesLockedError si otra réplica
+   * lo renovó hace menos de LOCK_STALE_MS
+   */
+  private async acquireLock(): Promise<void> {
+    if (this.lockTimer) {
+      return;
+    }
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const holder = `${hostname()}:${process.pid}`;
+    try {
+      await writeFile(this.lockPath, holder, { flag: 'wx' });
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+      const current = await readFile(this.lockPath, 'utf-8').catch(() => 'desconocido');
+      const { mtimeMs } = await stat(this.lockPath);
+      if (Date.now() - mtimeMs < LOCK_STALE_MS) {
+        throw new NotesLockedError(this.filePath, current);
+      }
+      console.warn(`📝 Lock de ${current} caducado en ${this.lockPath}, se toma`);
+      await rm(this.lockPath, { force: true });
+      try {
+        await writeFile(this.lockPath, holder, { flag: 'wx' });
+      } catch (retryError: any) {
+        // Otra réplica lo tomó a la vez
+        if (retryError.code === 'EEXIST') {
+          throw new NotesLockedError(this.filePath, await readFile(this.lockPath, 'utf-8').catch(() => 'desconocido'));
+        }
+        throw retryError;
+      }
+    }
+
+    this.lockTimer = setInterval(() => {
+      const now = new Date();
+      utimes(this.lockPath, now, now).catch((error) => {
+        console.error(`[NotesStore] No se pudo renovar el lock ${this.lockPath}: ${error.message}`);
+      });
+    }, LOCK_REFRESH_MS);
+    this.lockTimer.unref();
+  }
+
+  private async load(): Promise<void> {
+    await this.acquireLock();
+    this.notes.clear();
+    try {
+      const raw = await readFile(this.filePath, 'utf-8');
+      const stored = JSON.parse(raw) as Partial<Note>[];
+      for (const note of stored) {
+        // Notas anteriores a la propiedad por usuario: sin propietario y compartidas
+        this.notes.set(note.id!, {
+          owner: ANONYMOUS_OWNER,
+          shared: true,
+          sharedWithGroups: [],
+          ...note,
+        } as Note);
+      }
+      console.log(`📝 ${this.notes.size} notas cargadas desde ${this.filePath}`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw new Error(`Error leyendo notas desde ${this.filePath}: ${error.message}`);
+      }
+      console.log(`📝 ${this.filePath} no existe, inicializando con notas de ejemplo`);
+      await this.commit(() => {
+        for (const note of seedNotes()) {
+          this.notes.set(note.id, note);
+        }
+        return () => this.notes.clear();
+      });
+    }
+  }
+
+  /**
+   * Aplica un cambio a las notas y escribe el resultado de forma atómica. Los
+   * cambios se aplican de uno en uno tras la escritura anterior; si la escritura
+   * falla, `apply` devuelve cómo deshacerlo y la memoria no se aparta del fichero.
+   */
+  private commit(apply: () => () => void): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const undo = apply();
+      try {
+        const snapshot = JSON.stringify([...this.notes.values()], null, 2);
+        await mkdir(dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+        await writeFile(tmpPath, snapshot, 'utf-8');
+        await rename(tmpPath, this.filePath);
+      } catch (error) {
+        undo();
+        throw error;
+      }
+    });
+    // Un fallo no debe bloquear las escrituras siguientes
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
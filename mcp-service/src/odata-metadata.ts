@@ -0,0 +1,229 @@
+/**
+ * 🧬 Lectura del documento $metadata de OData v4
+ *
+ * Convierte el EDMX del servicio CAP en un modelo sencillo (entidades, tipos
+ * complejos, acciones y funciones) a partir del cual se generan herramientas MCP.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { EDM_TYPES, EdmType, EntityModel } from './cap-query.js';
+
+/**
+ * Propiedad o parámetro con su tipo EDM (cualificado, sin Collection())
+ */
+export interface EdmProperty {
+  name: string;
+  type: string;
+  collection: boolean;
+  nullable: boolean;
+  maxLength?: number;
+  label?: string;             // @Common.Label (@title en CDS)
+  computed: boolean;          // @Core.Computed: lo rellena el servicio
+}
+
+export interface EdmNavigationProperty {
+  name: string;
+  target: string;             // Tipo de entidad destino (cualificado)
+  collection: boolean;
+}
+
+export interface EdmEntityType {
+  name: string;               // Nombre cualificado (Namespace.Entidad)
+  keys: string[];
+  properties: EdmProperty[];
+  navigation: EdmNavigationProperty[];
+}
+
+export interface EdmOperation {
+  kind: 'action' | 'function';
+  name: string;
+  namespace: string;
+  bound: boolean;
+  bindingType?: string;       // Tipo del primer parámetro si la operación es bound
+  bindingCollection?: boolean;
+  parameters: EdmProperty[];  // Sin el parámetro de binding
+  returnType?: { type: string; collection: boolean };
+}
+
+export interface EdmEntitySet {
+  name: string;
+  entityType: string;
+}
+
+export interface ServiceMetadata {
+  namespace: string;
+  entitySets: EdmEntitySet[];
+  entityTypes: Map<string, EdmEntityType>;
+  complexTypes: Map<string, EdmProperty[]>;
+  operations: EdmOperation[];
+  operationImports: Array<{ name: string; kind: 'action' | 'function'; operation: string }>;
+}
+
+// Elementos del EDMX que pueden repetirse y deben leerse siempre como lista
+const ARRAY_ELEMENTS = new Set([
+  'Schema', 'EntitySet', 'EntityType', 'ComplexType', 'Property', 'NavigationProperty', 'PropertyRef',
+  'Action', 'Function', 'Parameter', 'ActionImport', 'FunctionImport', 'Annotations', 'Annotation',
+]);
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  removeNSPrefix: true,
+  // Atributos como EntityType="..." comparten nombre con elementos y no son listas
+  isArray: (name, _jpath, _isLeafNode, isAttribute) => !isAttribute && ARRAY_ELEMENTS.has(name),
+});
+
+/**
+ * Separa `Collection(X)` en tipo y multiplicidad
+ */
+function parseTypeRef(type: string): { type: string; collection: boolean } {
+  const match = /^Collection\((.+)\)$/.exec(type);
+  return match ? { type: match[1], collection: true } : { type, collection: false };
+}
+
+/**
+ * Anotaciones relevantes por destino ("Namespace.Tipo/propiedad")
+ */
+type AnnotationIndex = Map<string, { label?: string; computed?: boolean }>;
+
+function readAnnotations(target: string, annotations: any[] | undefined, index: AnnotationIndex): void {
+  for (const annotation of annotations || []) {
+    const entry = index.get(target) || {};
+    if (annotation.Term === 'Common.Label' && annotation.String) {
+      entry.label = annotation.String;
+    }
+    if (annotation.Term === 'Core.Computed' && annotation.Bool !== 'false') {
+      entry.computed = true;
+    }
+    index.set(target, entry);
+  }
+}
+
+function toProperty(raw: any, target: string, annotations: AnnotationIndex): EdmProperty {
+  readAnnotations(target, raw.Annotation, annotations);
+  const { type, collection } = parseTypeRef(raw.Type);
+  return {
+    name: raw.Name,
+    type,
+    collection,
+    nullable: raw.Nullable !== 'false',
+    maxLength: raw.MaxLength && raw.MaxLength !== 'max' ? parseInt(raw.MaxLength, 10) : undefined,
+    computed: false,
+  };
+}
+
+/**
+ * Parsea un documento EDMX (OData v4) del primer schema con EntityContainer
+ */
+export function parseMetadata(xml: string): ServiceMetadata {
+  const document = parser.parse(xml);
+  const schemas: any[] = document?.Edmx?.DataServices?.Schema;
+  if (!schemas || schemas.length === 0) {
+    throw new Error('El documento $metadata no contiene ningún Schema');
+  }
+  const schema = schemas.find((s) => s.EntityContainer) || schemas[0];
+  const namespace: string = schema.Namespace;
+  const annotations: AnnotationIndex = new Map();
+
+  const entityTypes = new Map<string, EdmEntityType>();
+  for (const raw of schema.EntityType || []) {
+    const name = `${namespace}.${raw.Name}`;
+    const keyRefs = raw.Key?.PropertyRef ?? [];
+    entityTypes.set(name, {
+      name,
+      keys: keyRefs.map((ref: any) => ref.Name),
+      properties: (raw.Property || []).map((p: any) => toProperty(p, `${name}/${p.Name}`, annotations)),
+      navigation: (raw.NavigationProperty || []).map((n: any) => {
+        const { type, collection } = parseTypeRef(n.Type);
+        return { name: n.Name, target: type, collection };
+      }),
+    });
+  }
+
+  const complexTypes = new Map<string, EdmProperty[]>();
+  for (const raw of schema.ComplexType || []) {
+    const name = `${namespace}.${raw.Name}`;
+    complexTypes.set(name, (raw.Property || []).map((p: any) => toProperty(p, `${name}/${p.Name}`, annotations)));
+  }
+
+  const operations: EdmOperation[] = [];
+  for (const kind of ['action', 'function'] as const) {
+    for (const raw of schema[kind === 'action' ? 'Action' : 'Function'] || []) {
+      const bound = raw.IsBound === 'true';
+      const parameters = (raw.Parameter || []).map((p: any) => toProperty(p, `${namespace}.${raw.Name}/${p.Name}`, annotations));
+      const binding = bound ? parameters.shift() : undefined;
+      operations.push({
+        kind,
+        name: raw.Name,
+        namespace,
+        bound,
+        bindingType: binding?.type,
+        bindingCollection: binding?.collection,
+        parameters,
+        returnType: raw.ReturnType ? parseTypeRef(raw.ReturnType.Type) : undefined,
+      });
+    }
+  }
+
+  const container = schema.EntityContainer;
+  const entitySets: EdmEntitySet[] = (container.EntitySet || []).map((set: any) => ({
+    name: set.Name,
+    entityType: set.EntityType,
+  }));
+  const operationImports = [
+    ...(container.ActionImport || []).map((i: any) => ({ name: i.Name, kind: 'action' as const, operation: i.Action })),
+    ...(container.FunctionImport || []).map((i: any) => ({ name: i.Name, kind: 'function' as const, operation: i.Function })),
+  ];
+
+  // Anotaciones externas (bloques <Annotations Target="...">), como las genera CAP
+  for (const block of schema.Annotations || []) {
+    readAnnotations(block.Target, block.Annotation, annotations);
+  }
+  const applyAnnotations = (owner: string, properties: EdmProperty[]) => {
+    for (const property of properties) {
+      const entry = annotations.get(`${owner}/${property.name}`);
+      property.label = entry?.label;
+      property.computed = entry?.computed ?? false;
+    }
+  };
+  for (const entityType of entityTypes.values()) {
+    applyAnnotations(entityType.name, entityType.properties);
+  }
+  for (const [name, properties] of complexTypes.entries()) {
+    applyAnnotations(name, properties);
+  }
+
+  return { namespace, entitySets, entityTypes, complexTypes, operations, operationImports };
+}
+
+/**
+ * Indica si el tipo es un primitivo EDM soportado en filtros y claves
+ */
+export function isPrimitiveType(type: string): type is EdmType {
+  return (EDM_TYPES as string[]).includes(type);
+}
+
+/**
+ * Modelos de consulta (para buildODataQuery) de todos los entity sets del servicio
+ */
+export function toEntityModels(metadata: ServiceMetadata): Record<string, EntityModel> {
+  const models: Record<string, EntityModel> = {};
+  for (const set of metadata.entitySets) {
+    const entityType = metadata.entityTypes.get(set.entityType);
+    if (!entityType) {
+      continue;
+    }
+    const properties: Record<string, EdmType> = {};
+    for (const property of entityType.properties) {
+      if (!property.collection && isPrimitiveType(property.type)) {
+        properties[property.name] = property.type;
+      }
+    }
+    const navigation: Record<string, string> = {};
+    for (const nav of entityType.navigation) {
+      navigation[nav.name] = nav.target.split('.').pop()!;
+    }
+    models[set.name] = { name: set.name, properties, navigation };
+  }
+  return models;
+}
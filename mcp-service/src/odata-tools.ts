@@ -0,0 +1,587 @@
+/**
+ * 🏭 Herramientas MCP generadas desde el $metadata de CAP
+ *
+ * Por cada entity set se generan herramientas CRUD (list, get, create, update,
+ * delete) y por cada acción o función del servicio, bound o unbound, una
+ * herramienta que la invoca. Los input schemas salen de los tipos EDM, así las
+ * entidades y acciones nuevas de catalog-service.cds aparecen sin tocar código.
+ */
+
+import { createHash } from 'node:crypto';
+import { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { CAPClient } from './cap-integration.js';
+import { DEFAULT_QUERY_TOP, EntityModel, formatLiteral, MAX_QUERY_TOP, ODataQueryOptions, QueryValidationError } from './cap-query.js';
+import {
+  EdmEntitySet,
+  EdmEntityType,
+  EdmOperation,
+  EdmProperty,
+  isPrimitiveType,
+  parseMetadata,
+  ServiceMetadata,
+  toEntityModels,
+} from './odata-metadata.js';
+import { capEntitySetUri, capQueryUris } from './cap-resources.js';
+import { confirmGenericWrite, withConfirmToken } from './tools/confirmation.js';
+import { textResult, ToolContext, ToolDefinition, ToolProvider } from './tools/registry.js';
+
+/**
+ * Herramienta generada: definición MCP y función que la ejecuta contra CAP
+ */
+export interface GeneratedTool {
+  name: string;
+  description: string;
+  inputSchema: { type: 'object'; properties: Record<string, any>; required?: string[] };
+  annotations: ToolAnnotations;
+  permissions: string[];
+  entity?: { entitySet: string; keys: string[] };   // Entidad sobre la que actúa (auditoría)
+  resources?: (args: Record<string, any>) => string[];  // Entity sets que lee (reglas de recursos cap://)
+  execute: (capClient: CAPClient, args: Record<string, any>) => Promise<any>;
+}
+
+const READ: Pick<GeneratedTool, 'annotations' | 'permissions'> = {
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  permissions: ['cap:read'],
+};
+const CREATE: Pick<GeneratedTool, 'annotations' | 'permissions'> = {
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+  permissions: ['cap:write'],
+};
+const MODIFY: Pick<GeneratedTool, 'annotations' | 'permissions'> = {
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
+  permissions: ['cap:write'],
+};
+const ACTION: Pick<GeneratedTool, 'annotations' | 'permissions'> = {
+  annotations: { readOnlyHint: false, openWorldHint: true },
+  permissions: ['cap:write'],
+};
+
+export interface ODataToolOptions {
+  prefix: string;
+  writes: boolean;            // Exponer también create/update/delete y acciones
+  allow: string[];            // Patrones con * sobre el nombre de la herramienta (vacío = todas)
+  deny: string[];
+  ttlMs: number;              // Vigencia del $metadata cargado
+}
+
+/**
+ * Lee la configuración de las variables de entorno
+ */
+export function loadODataToolOptions(): ODataToolOptions {
+  const patterns = (value?: string) => (value || '').split(',').map((p) => p.trim()).filter(Boolean);
+  return {
+    prefix: process.env.ODATA_TOOLS_PREFIX || 'odata',
+    writes: process.env.ODATA_TOOLS_WRITES_ENABLED === 'true',
+    allow: patterns(process.env.ODATA_TOOLS_ALLOW),
+    deny: patterns(process.env.ODATA_TOOLS_DENY),
+    ttlMs: parseInt(process.env.ODATA_METADATA_TTL_SECONDS || '600', 10) * 1000,
+  };
+}
+
+function matchesPattern(name: string, pattern: string): boolean {
+  const regex = new RegExp(`^${pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return regex.test(name);
+}
+
+/**
+ * Aplica el interruptor de escrituras, la allow-list y la deny-list (la deny-list tiene prioridad)
+ */
+function isExposed(tool: GeneratedTool, options: ODataToolOptions): boolean {
+  if (!options.writes && tool.annotations.readOnlyHint !== true) {
+    return false;
+  }
+  if (options.deny.some((pattern) => matchesPattern(tool.name, pattern))) {
+    return false;
+  }
+  return options.allow.length === 0 || options.allow.some((pattern) => matchesPattern(tool.name, pattern));
+}
+
+/**
+ * Nombre de herramienta sin normalizar; assignToolNames lo convierte en uno válido para MCP
+ */
+function toolName(...parts: string[]): string {
+  return parts.join('_');
+}
+
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Convierte los nombres en válidos para MCP ([a-zA-Z0-9_-], máx. 64). Si al
+ * normalizar o recortar dos herramientas quedan con el mismo nombre, ambas
+ * llevan un sufijo con el hash de su nombre y descripción originales.
+ */
+function assignToolNames(tools: GeneratedTool[]): void {
+  const normalized = tools.map((tool) => tool.name.replace(/[^a-zA-Z0-9_-]/g, '_'));
+  const counts = new Map<string, number>();
+  for (const name of normalized) {
+    const short = name.slice(0, MAX_TOOL_NAME_LENGTH);
+    counts.set(short, (counts.get(short) ?? 0) + 1);
+  }
+
+  tools.forEach((tool, i) => {
+    const short = normalized[i].slice(0, MAX_TOOL_NAME_LENGTH);
+    if (counts.get(short) === 1) {
+      tool.name = short;
+      return;
+    }
+    const hash = createHash('sha256').update(`${tool.name}\n${tool.description}`).digest('hex').slice(0, 8);
+    tool.name = `${normalized[i].slice(0, MAX_TOOL_NAME_LENGTH - hash.length - 1)}_${hash}`;
+  });
+}
+
+/**
+ * Solo las propiedades declaradas: los argumentos de más no llegan a CAP
+ */
+function pickProperties(args: Record<string, any>, properties: EdmProperty[]): Record<string, any> {
+  return Object.fromEntries(properties.filter((p) => Object.hasOwn(args, p.name)).map((p) => [p.name, args[p.name]]));
+}
+
+/**
+ * JSON Schema de un tipo EDM (primitivo, complejo, entidad o colección)
+ */
+function edmToJsonSchema(type: string, collection: boolean, metadata: ServiceMetadata, depth = 0): any {
+  if (collection) {
+    return { type: 'array', items: edmToJsonSchema(type, false, metadata, depth) };
+  }
+
+  switch (type) {
+    case 'Edm.String':
+      return { type: 'string' };
+    case 'Edm.Guid':
+      return { type: 'string', format: 'uuid' };
+    case 'Edm.Byte':
+    case 'Edm.Int16':
+    case 'Edm.Int32':
+    case 'Edm.Int64':
+      return { type: 'integer' };
+    case 'Edm.Decimal':
+    case 'Edm.Double':
+    case 'Edm.Single':
+      return { type: 'number' };
+    case 'Edm.Boolean':
+      return { type: 'boolean' };
+    case 'Edm.Date':
+      return { type: 'string', format: 'date' };
+    case 'Edm.TimeOfDay':
+      return { type: 'string', format: 'time' };
+    case 'Edm.DateTimeOffset':
+      return { type: 'string', format: 'date-time' };
+  }
+
+  // Tipos estructurados; la profundidad evita ciclos entre tipos
+  const properties = metadata.complexTypes.get(type) ?? metadata.entityTypes.get(type)?.properties;
+  if (properties && depth < 3) {
+    return {
+      type: 'object',
+      properties: Object.fromEntries(properties.map((p) => [p.name, propertySchema(p, metadata, depth + 1)])),
+    };
+  }
+  return { description: `Valor de tipo ${type}` };
+}
+
+function propertySchema(property: EdmProperty, metadata: ServiceMetadata, depth = 0): any {
+  const schema = edmToJsonSchema(property.type, property.collection, metadata, depth);
+  if (property.maxLength && schema.type === 'string') {
+    schema.maxLength = property.maxLength;
+  }
+  // Las propiedades que admiten null se pueden vaciar al modificar
+  if (property.nullable && schema.type) {
+    schema.type = [schema.type, 'null'];
+  }
+  schema.description = [property.label, property.collection ? `Collection(${property.type})` : property.type]
+    .filter(Boolean)
+    .join(' - ');
+  return schema;
+}
+
+/**
+ * Segmento de clave de una entidad: (uuid), ('texto') o (k1=...,k2=...), con cada literal
+ * codificado para el path
+ */
+function keySegment(entityType: EdmEntityType, args: Record<string, any>): string {
+  const problems: string[] = [];
+  const literals = entityType.keys.map((key) => {
+    const property = entityType.properties.find((p) => p.name === key)!;
+    if (args[key] === undefined) {
+      problems.push(`${key}: es obligatorio`);
+      return undefined;
+    }
+    if (!isPrimitiveType(property.type)) {
+      problems.push(`${key}: tipo de clave ${property.type} no soportado`);
+      return undefined;
+    }
+    const literal = formatLiteral(args[key], property.type, key, problems);
+    return literal === undefined ? undefined : encodeURIComponent(literal);
+  });
+  if (problems.length > 0) {
+    throw new QueryValidationError(problems);
+  }
+  return literals.length === 1
+    ? `(${literals[0]})`
+    : `(${entityType.keys.map((key, i) => `${key}=${literals[i]}`).join(',')})`;
+}
+
+function keyProperties(entityType: EdmEntityType): EdmProperty[] {
+  return entityType.keys.map((key) => entityType.properties.find((p) => p.name === key)!);
+}
+
+/**
+ * Herramientas CRUD de un entity set
+ */
+function entitySetTools(
+  set: EdmEntitySet,
+  entityType: EdmEntityType,
+  metadata: ServiceMetadata,
+  models: Record<string, EntityModel>,
+  prefix: string
+): GeneratedTool[] {
+  const keys = keyProperties(entityType);
+  const keySchema = Object.fromEntries(keys.map((p) => [p.name, propertySchema(p, metadata)]));
+  const dataProperties = entityType.properties.filter((p) => !p.computed && !entityType.keys.includes(p.name));
+  const model = models[set.name];
+  const fields = Object.keys(model.properties);
+  const navigation = Object.keys(model.navigation);
+  const resources = () => [capEntitySetUri(set.name)];
+
+  return [
+    {
+      name: toolName(prefix, set.name, 'list'),
+      description: `Lista ${set.name} con filtro estructurado, selección de campos, orden y paginación`,
+      ...READ,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          filter: {
+            type: 'object',
+            description: 'Condición {field, op, value} (op: eq, ne, gt, ge, lt, le, contains, startswith, endswith, in) o combinación {and: [...]}, {or: [...]}, {not: {...}}',
+          },
+          select: { type: 'array', items: { type: 'string', enum: fields } },
+          ...(navigation.length > 0 ? { expand: { type: 'array', items: { type: 'string', enum: navigation } } } : {}),
+          orderby: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                field: { type: 'string', enum: fields },
+                direction: { type: 'string', enum: ['asc', 'desc'] },
+              },
+              required: ['field'],
+            },
+          },
+          top: { type: 'integer', minimum: 1, maximum: MAX_QUERY_TOP, description: `Máximo de resultados (1-${MAX_QUERY_TOP}, por defecto ${DEFAULT_QUERY_TOP})` },
+          skip: { type: 'integer', minimum: 0, description: 'Resultados a saltar' },
+        },
+      },
+      resources: (args) => capQueryUris(set.name, args.expand, models),
+      execute: (capClient, args) => capClient.query(set.name, { top: DEFAULT_QUERY_TOP, ...args } as ODataQueryOptions, models),
+    },
+    {
+      name: toolName(prefix, set.name, 'get'),
+      entity: { entitySet: set.name, keys: entityType.keys },
+      description: `Obtiene un registro de ${set.name} por su clave`,
+      resources,
+      ...READ,
+      inputSchema: { type: 'object', properties: keySchema, required: entityType.keys },
+      execute: (capClient, args) => capClient.request('GET', `/${set.name}${keySegment(entityType, args)}`),
+    },
+    {
+      name: toolName(prefix, set.name, 'create'),
+      entity: { entitySet: set.name, keys: entityType.keys },
+      description: `Crea un registro en ${set.name}`,
+      resources,
+      ...CREATE,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          // Las claves UUID las genera CAP si no se indican
+          ...Object.fromEntries(keys.map((p) => [p.name, propertySchema(p, metadata)])),
+          ...Object.fromEntries(dataProperties.map((p) => [p.name, propertySchema(p, metadata)])),
+        },
+        required: [
+          ...keys.filter((p) => p.type !== 'Edm.Guid').map((p) => p.name),
+          ...dataProperties.filter((p) => !p.nullable).map((p) => p.name),
+        ],
+      },
+      execute: (capClient, args) => capClient.request('POST', `/${set.name}`, pickProperties(args, [...keys, ...dataProperties])),
+    },
+    {
+      name: toolName(prefix, set.name, 'update'),
+      entity: { entitySet: set.name, keys: entityType.keys },
+      description: `Modifica los campos indicados de un registro de ${set.name}`,
+      resources,
+      ...MODIFY,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          ...keySchema,
+          ...Object.fromEntries(dataProperties.map((p) => [p.name, propertySchema(p, metadata)])),
+        },
+        required: entityType.keys,
+      },
+      execute: (capClient, args) =>
+        capClient.request('PATCH', `/${set.name}${keySegment(entityType, args)}`, pickProperties(args, dataProperties)),
+    },
+    {
+      name: toolName(prefix, set.name, 'delete'),
+      entity: { entitySet: set.name, keys: entityType.keys },
+      description: `Elimina un registro de ${set.name} por su clave`,
+      resources,
+      ...MODIFY,
+      inputSchema: { type: 'object', properties: keySchema, required: entityType.keys },
+      execute: (capClient, args) => capClient.request('DELETE', `/${set.name}${keySegment(entityType, args)}`),
+    },
+  ];
+}
+
+/**
+ * Parámetros de una función en la URL: name(p1=literal,p2=literal).
+ * Los valores no primitivos se envían como JSON; cada literal va codificado
+ * para el path (un string con "/", "?" o "#" no cambia la URL).
+ */
+function functionParameters(operation: EdmOperation, args: Record<string, any>): string {
+  const problems: string[] = [];
+  const parts = operation.parameters
+    .filter((p) => args[p.name] !== undefined)
+    .map((p) => {
+      const literal = !p.collection && isPrimitiveType(p.type)
+        ? formatLiteral(args[p.name], p.type, p.name, problems)
+        : JSON.stringify(args[p.name]);
+      return `${p.name}=${encodeURIComponent(literal ?? '')}`;
+    });
+  if (problems.length > 0) {
+    throw new QueryValidationError(problems);
+  }
+  return `(${parts.join(',')})`;
+}
+
+/**
+ * Herramienta para una acción o función (import unbound o bound a una entidad)
+ */
+function operationTool(
+  operation: EdmOperation,
+  metadata: ServiceMetadata,
+  path: (args: Record<string, any>) => string,
+  name: string,
+  extraProperties: Record<string, any> = {},
+  extraRequired: string[] = []
+): GeneratedTool {
+  const parameters = operation.parameters;
+  const returns = operation.returnType
+    ? ` Devuelve ${operation.returnType.collection ? `Collection(${operation.returnType.type})` : operation.returnType.type}.`
+    : '';
+  return {
+    name,
+    description: `${operation.kind === 'action' ? 'Acción' : 'Función'} OData ${operation.namespace}.${operation.name}.${returns}`,
+    ...(operation.kind === 'function' ? READ : ACTION),
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...extraProperties,
+        ...Object.fromEntries(parameters.map((p) => [p.name, propertySchema(p, metadata)])),
+      },
+      required: [...extraRequired, ...parameters.filter((p) => !p.nullable).map((p) => p.name)],
+    },
+    execute: (capClient, args) => {
+      if (operation.kind === 'function') {
+        return capClient.request('GET', `${path(args)}${functionParameters(operation, args)}`);
+      }
+      const body = Object.fromEntries(parameters.filter((p) => args[p.name] !== undefined).map((p) => [p.name, args[p.name]]));
+      return capClient.request('POST', path(args), body);
+    },
+  };
+}
+
+/**
+ * Genera todas las herramientas del servicio, sin filtrar
+ */
+export function generateODataTools(metadata: ServiceMetadata, prefix: string): GeneratedTool[] {
+  const models = toEntityModels(metadata);
+  const tools: GeneratedTool[] = [];
+
+  for (const set of metadata.entitySets) {
+    const entityType = metadata.entityTypes.get(set.entityType);
+    if (entityType && models[set.name]) {
+      tools.push(...entitySetTools(set, entityType, metadata, models, prefix));
+    }
+  }
+
+  for (const operationImport of metadata.operationImports) {
+    const operation = metadata.operations.find((op) =>
+      !op.bound && op.kind === operationImport.kind && `${op.namespace}.${op.name}` === operationImport.operation
+    );
+    if (operation) {
+      tools.push(operationTool(operation, metadata, () => `/${operationImport.name}`, toolName(prefix, operationImport.name)));
+    }
+  }
+
+  for (const operation of metadata.operations.filter((op) => op.bound)) {
+    // La operación se expone sobre cada entity set del tipo al que está ligada
+    for (const set of metadata.entitySets.filter((s) => s.entityType === operation.bindingType)) {
+      const entityType = metadata.entityTypes.get(set.entityType)!;
+      const qualified = `${operation.namespace}.${operation.name}`;
+      const name = toolName(prefix, set.name, operation.name);
+      if (operation.bindingCollection) {
+        tools.push({
+          ...operationTool(operation, metadata, () => `/${set.name}/${qualified}`, name),
+          resources: () => [capEntitySetUri(set.name)],
+        });
+      } else {
+        const keys = keyProperties(entityType);
+        tools.push({
+          ...operationTool(
+            operation,
+            metadata,
+            (args) => `/${set.name}${keySegment(entityType, args)}/${qualified}`,
+            name,
+            Object.fromEntries(keys.map((p) => [p.name, propertySchema(p, metadata)])),
+            entityType.keys
+          ),
+          entity: { entitySet: set.name, keys: entityType.keys },
+          resources: () => [capEntitySetUri(set.name)],
+        });
+      }
+    }
+  }
+
+  assignToolNames(tools);
+  return tools;
+}
+
+/**
+ * Adapta una herramienta generada al registro de herramientas; las que no son
+ * de solo lectura piden confirmación al usuario antes de llamar a CAP
+ */
+function toToolDefinition(tool: GeneratedTool): ToolDefinition {
+  const readOnly = tool.annotations.readOnlyHint === true;
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: readOnly ? tool.inputSchema : withConfirmToken(tool.inputSchema),
+    annotations: tool.annotations,
+    permissions: tool.permissions,
+    resources: tool.resources,
+    handler: async (callArgs, context) => {
+      const { capClient, entities } = context;
+      let args = callArgs;
+      if (!readOnly) {
+        const confirmation = await confirmGenericWrite(tool, callArgs, context);
+        if (!confirmation.confirmed) {
+          return confirmation.result;
+        }
+        args = confirmation.args;
+      }
+
+      // La clave viene en los argumentos o, al crear, en la respuesta de CAP
+      const touch = (source: Record<string, any>): boolean => {
+        const values = tool.entity!.keys.map((key) => source[key]);
+        if (values.some((value) => value === undefined)) {
+          return false;
+        }
+        const id = values.length === 1 ? String(values[0]) : tool.entity!.keys.map((key, i) => `${key}=${values[i]}`).join(',');
+        entities.push({ entitySet: tool.entity!.entitySet, id });
+        return true;
+      };
+      const touched = tool.entity ? touch(args) : true;
+
+      const result = await tool.execute(capClient, args);
+      if (!touched && result && typeof result === 'object') {
+        touch(result);
+      }
+      return textResult(result === undefined || result === ''
+        ? `✅ ${tool.name} ejecutada correctamente`
+        : JSON.stringify(result, null, 2));
+    },
+  };
+}
+
+/**
+ * Catálogo de herramientas generadas con recarga del $metadata bajo demanda.
+ *
+ * El $metadata se carga con un CAPClient de servicio, nunca con el token de
+ * quien hace la llamada: el catálogo es el mismo para todos los usuarios y se
+ * reutiliza durante `ttlMs`.
+ */
+export class ODataToolCatalog implements ToolProvider {
+  private generated = new Map<string, ToolDefinition>();
+  private fingerprint = '';
+  private loadedAt = 0;
+  private failedAt = 0;
+  private loading?: Promise<void>;
+  private changeListeners: Array<() => void> = [];
+
+  // Tras un fallo no se reintenta en cada ListTools
+  private static readonly RETRY_AFTER_MS = 30_000;
+
+  constructor(private options: ODataToolOptions, private serviceClient: () => Promise<CAPClient>) {}
+
+  /**
+   * Registra un listener que se invoca cuando cambia el conjunto de herramientas
+   */
+  onChange(listener: () => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Herramientas para el registro; carga el $metadata si hace falta
+   */
+  async tools(_context: ToolContext): Promise<ToolDefinition[]> {
+    await this.ensureLoaded();
+    return [...this.generated.values()];
+  }
+
+  /**
+   * Carga el $metadata si no está cargado o ha caducado. Los errores se registran
+   * y se conservan las herramientas anteriores.
+   */
+  async ensureLoaded(): Promise<void> {
+    const now = Date.now();
+    const fresh = this.loadedAt > 0 && now - this.loadedAt < this.options.ttlMs;
+    const backingOff = now - this.failedAt < ODataToolCatalog.RETRY_AFTER_MS;
+    if (fresh || backingOff) {
+      return;
+    }
+    if (!this.loading) {
+      this.loading = this.load().finally(() => {
+        this.loading = undefined;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Fuerza la recarga del $metadata
+   */
+  async refresh(): Promise<void> {
+    this.loadedAt = 0;
+    this.failedAt = 0;
+    await this.ensureLoaded();
+  }
+
+  private async load(): Promise<void> {
+    let metadata: ServiceMetadata;
+    try {
+      const capClient = await this.serviceClient();
+      metadata = parseMetadata(await capClient.getMetadata());
+    } catch (error: any) {
+      this.failedAt = Date.now();
+      console.error(`[ODataTools] No se pudo cargar el $metadata: ${error.message}`);
+      return;
+    }
+
+    const generated = generateODataTools(metadata, this.options.prefix);
+    const exposed = generated.filter((tool) => isExposed(tool, this.options));
+    this.generated = new Map(exposed.map((tool) => [tool.name, toToolDefinition(tool)]));
+    this.loadedAt = Date.now();
+    console.log(`🏭 ${exposed.length} de ${generated.length} herramientas generadas desde $metadata (${metadata.namespace})`);
+
+    const fingerprint = createHash('sha256')
+      .update(JSON.stringify(exposed.map((tool) => [tool.name, tool.inputSchema])))
+      .digest('hex');
+    if (fingerprint !== this.fingerprint) {
+      this.fingerprint = fingerprint;
+      for (const listener of this.changeListeners) {
+        listener();
+      }
+    }
+  }
+}
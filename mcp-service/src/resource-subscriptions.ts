@@ -0,0 +1,191 @@
+/**
+ * 🔔 Suscripciones a recursos y notificaciones de cambios
+ *
+ * Lleva el registro de qué sesión MCP está suscrita a qué URI y envía:
+ * - notifications/resources/updated a las sesiones suscritas a un recurso que cambió
+ * - notifications/resources/list_changed a todas las sesiones cuando se crean o
+ *   borran recursos
+ *
+ * Los cambios hechos fuera del servidor MCP (directamente en CAP) se detectan con
+ * un sondeo periódico de los recursos suscritos, comparando una huella del contenido.
+ *
+ * Antes de notificar o sondear se comprueba que el usuario de la sesión todavía
+ * puede leer el recurso (p. ej. una nota que dejó de compartirse).
+ */
+
+import { createHash } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+/**
+ * Estado de suscripción de una sesión
+ */
+interface SessionSubscriptions {
+  server: Server;
+  uris: Set<string>;
+  fingerprints: Map<string, string>;   // Última huella conocida por URI (solo recursos sondeados)
+}
+
+/**
+ * Obtiene el contenido actual de un recurso para una sesión (con sus credenciales)
+ */
+export type ResourceFetcher = (sessionId: string, uri: string) => Promise<string>;
+
+/**
+ * Indica si el usuario de una sesión puede leer un recurso
+ */
+export type ResourceAccessCheck = (sessionId: string, uri: string) => Promise<boolean>;
+
+export class ResourceSubscriptions {
+  private sessions = new Map<string, SessionSubscriptions>();
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(private canRead: ResourceAccessCheck = async () => true) {}
+
+  /**
+   * Registra el servidor de una sesión, restaurando sus suscripciones previas si las hay
+   */
+  register(sessionId: string, server: Server, uris: string[] = []): void {
+    this.sessions.set(sessionId, {
+      server,
+      uris: new Set(uris),
+      fingerprints: new Map(),
+    });
+  }
+
+  unregister(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Suscripciones actuales de una sesión de este pod
+   */
+  subscriptionsOf(sessionId: string): string[] {
+    return [...(this.sessions.get(sessionId)?.uris ?? [])];
+  }
+
+  /**
+   * Suscribe la sesión a una URI y devuelve sus suscripciones actuales
+   */
+  subscribe(sessionId: string, uri: string): string[] {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return [];
+    }
+    session.uris.add(uri);
+    return [...session.uris];
+  }
+
+  /**
+   * Cancela la suscripción de la sesión a una URI y devuelve las restantes
+   */
+  unsubscribe(sessionId: string, uri: string): string[] {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return [];
+    }
+    session.uris.delete(uri);
+    session.fingerprints.delete(uri);
+    return [...session.uris];
+  }
+
+  /**
+   * Notifica a las sesiones suscritas que el recurso cambió (`canRead` sustituye
+   * a la comprobación de acceso por defecto, p. ej. para un recurso ya borrado)
+   */
+  async notifyUpdated(uri: string, canRead: ResourceAccessCheck = this.canRead): Promise<void> {
+    for (const [sessionId, session] of this.sessions.entries()) {
+      if (!session.uris.has(uri) || !(await this.allowed(canRead, sessionId, uri))) {
+        continue;
+      }
+      // El próximo sondeo toma el nuevo contenido como referencia sin volver a notificar
+      session.fingerprints.delete(uri);
+      await this.send(sessionId, () => session.server.sendResourceUpdated({ uri }));
+    }
+  }
+
+  /**
+   * Notifica que la lista de recursos cambió. Si el cambio es un recurso concreto
+   * (creado o borrado), solo a las sesiones que pueden leerlo: el aviso ya revela
+   * que existe; sin `uri`, a todas las sesiones.
+   */
+  async notifyListChanged(uri?: string, canRead: ResourceAccessCheck = this.canRead): Promise<void> {
+    for (const [sessionId, session] of this.sessions.entries()) {
+      if (uri !== undefined && !(await this.allowed(canRead, sessionId, uri))) {
+        continue;
+      }
+      await this.send(sessionId, () => session.server.sendResourceListChanged());
+    }
+  }
+
+  /**
+   * Inicia el sondeo periódico de los recursos suscritos que cumplan el filtro
+   */
+  startPolling(intervalMs: number, shouldPoll: (uri: string) => boolean, fetcher: ResourceFetcher): void {
+    this.stopPolling();
+    this.pollTimer = setInterval(() => {
+      // Un sondeo lento no debe solaparse con el siguiente
+      if (this.polling) {
+        return;
+      }
+      this.polling = true;
+      this.poll(shouldPoll, fetcher).finally(() => {
+        this.polling = false;
+      });
+    }, intervalMs);
+    this.pollTimer.unref();
+    console.log(`🔔 Sondeo de recursos suscritos cada ${intervalMs / 1000} segundos`);
+  }
+
+  stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  private async poll(shouldPoll: (uri: string) => boolean, fetcher: ResourceFetcher): Promise<void> {
+    for (const [sessionId, session] of this.sessions.entries()) {
+      for (const uri of [...session.uris].filter(shouldPoll)) {
+        if (!(await this.allowed(this.canRead, sessionId, uri))) {
+          continue;
+        }
+        let fingerprint: string;
+        try {
+          const content = await fetcher(sessionId, uri);
+          fingerprint = createHash('sha256').update(content).digest('hex');
+        } catch (error: any) {
+          console.error(`[ResourceSubscriptions] Error sondeando ${uri} para sesión ${sessionId}: ${error.message}`);
+          continue;
+        }
+
+        const previous = session.fingerprints.get(uri);
+        session.fingerprints.set(uri, fingerprint);
+        if (previous !== undefined && previous !== fingerprint) {
+          console.log(`🔔 Cambio detectado en ${uri}, notificando a sesión ${sessionId}`);
+          await this.send(sessionId, () => session.server.sendResourceUpdated({ uri }));
+        }
+      }
+    }
+  }
+
+  /**
+   * Comprobación de acceso que, si falla, no notifica
+   */
+  private async allowed(canRead: ResourceAccessCheck, sessionId: string, uri: string): Promise<boolean> {
+    try {
+      return await canRead(sessionId, uri);
+    } catch (error: any) {
+      console.error(`[ResourceSubscriptions] Error comprobando el acceso a ${uri} para sesión ${sessionId}: ${error.message}`);
+      return false;
+    }
+  }
+
+  private async send(sessionId: string, notify: () => Promise<void>): Promise<void> {
+    try {
+      await notify();
+    } catch (error: any) {
+      console.error(`[ResourceSubscriptions] Error notificando a sesión ${sessionId}: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * 🔁 Transport Streamable HTTP con reanudación completa del stream GET
+ *
+ * El transport del SDK descarta las notificaciones del stream SSE de GET /mcp
+ * si en ese momento no hay ninguna conexión abierta, por lo que nunca llegan
+ * al event store. Esta subclase las guarda igualmente para que el cliente las
+ * reciba al reconectarse con Last-Event-ID.
+ */
+
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { EventStore, StreamableHTTPServerTransportOptions } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  JSONRPCMessage,
+  RequestId,
+  isJSONRPCError,
+  isJSONRPCResponse,
+} from "@modelcontextprotocol/sdk/types.js";
+import { standaloneStream } from "./mcp-sdk-internals.js";
+
+export class ResumableHTTPServerTransport extends StreamableHTTPServerTransport {
+  private resumableEventStore?: EventStore;
+
+  constructor(options: StreamableHTTPServerTransportOptions) {
+    super(options);
+    this.resumableEventStore = options.eventStore;
+  }
+
+  async send(message: JSONRPCMessage, options?: { relatedRequestId?: RequestId }): Promise<void> {
+    const isResponse = isJSONRPCResponse(message) || isJSONRPCError(message);
+    const targetsStandaloneStream = options?.relatedRequestId === undefined && !isResponse;
+
+    if (this.resumableEventStore && targetsStandaloneStream) {
+      const stream = standaloneStream(this);
+      if (!stream.open) {
+        await this.resumableEventStore.storeEvent(stream.id, message);
+        return;
+      }
+    }
+
+    return super.send(message, options);
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * 🔁 Event store para streams SSE reanudables
+ *
+ * Guarda cada mensaje enviado por SSE con un ID de evento para que un cliente
+ * que se reconecta con Last-Event-ID reciba, en orden, lo que se perdió.
+ *
+ * Los eventos se agrupan por sesión MCP y por stream, con un máximo de eventos
+ * por stream y un TTL. Backends disponibles (variable EVENT_STORE, por defecto
+ * el mismo que SESSION_STORE):
+ * - memory: en proceso (se pierde al reiniciar el pod)
+ * - redis:  persistente y compartido entre réplicas (REDIS_URL)
+ * - none:   sin reanudación
+ */
+
+import { Redis } from 'ioredis';
+import type { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Evento almacenado con su número de secuencia dentro del stream
+ */
+interface StoredEvent {
+  seq: number;
+  message: JSONRPCMessage;
+}
+
+/**
+ * Backend de bajo nivel: una lista acotada de eventos por clave de stream
+ */
+interface EventLog {
+  append(streamKey: string, message: JSONRPCMessage): Promise<number>;
+  readAfter(streamKey: string, seq: number): Promise<StoredEvent[]>;
+}
+
+/**
+ * Límites de retención de eventos
+ */
+interface EventRetention {
+  maxEventsPerStream: number;
+  ttlMs: number;
+}
+
+/**
+ * Log de eventos en memoria
+ */
+class MemoryEventLog implements EventLog {
+  private streams = new Map<string, { nextSeq: number; events: StoredEvent[]; expiresAt: number }>();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(private retention: EventRetention) {
+    // Limpiar streams expirados periódicamente
+    this.sweepTimer = setInterval(() => this.sweep(), 60 * 1000);
+    this.sweepTimer.unref();
+  }
+
+  async append(streamKey: string, message: JSONRPCMessage): Promise<number> {
+    let stream = this.streams.get(streamKey);
+    if (!stream || stream.expiresAt <= Date.now()) {
+      stream = { nextSeq: 1, events: [], expiresAt: 0 };
+      this.streams.set(streamKey, stream);
+    }
+
+    const seq = stream.nextSeq++;
+    stream.events.push({ seq, message });
+    if (stream.events.length > this.retention.maxEventsPerStream) {
+      stream.events.splice(0, stream.events.length - this.retention.maxEventsPerStream);
+    }
+    stream.expiresAt = Date.now() + this.retention.ttlMs;
+    return seq;
+  }
+
+  async readAfter(streamKey: string, seq: number): Promise<StoredEvent[]> {
+    const stream = this.streams.get(streamKey);
+    if (!stream || stream.expiresAt <= Date.now()) {
+      return [];
+    }
+    return stream.events.filter((event) => event.seq > seq);
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, stream] of this.streams.entries()) {
+      if (stream.expiresAt <= now) {
+        this.streams.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Log de eventos sobre el protocolo Redis (una lista acotada por stream)
+ */
+class RedisEventLog implements EventLog {
+  private client: Redis;
+
+  constructor(url: string, keyPrefix: string, private retention: EventRetention) {
+    this.client = new Redis(url, {
+      keyPrefix,
+      maxRetriesPerRequest: 3,
+    });
+
+    this.client.on('error', (error) => {
+      console.error('❌ [RedisEventLog] Error de conexión:', error.message);
+    });
+  }
+
+  async append(streamKey: string, message: JSONRPCMessage): Promise<number> {
+    const seq = await this.client.incr(`${streamKey}:seq`);
+    const event: StoredEvent = { seq, message };
+
+    await this.client
+      .multi()
+      .rpush(streamKey, JSON.stringify(event))
+      .ltrim(streamKey, -this.retention.maxEventsPerStream, -1)
+      .pexpire(streamKey, this.retention.ttlMs)
+      .pexpire(`${streamKey}:seq`, this.retention.ttlMs)
+      .exec();
+
+    return seq;
+  }
+
+  async readAfter(streamKey: string, seq: number): Promise<StoredEvent[]> {
+    const raw = await this.client.lrange(streamKey, 0, -1);
+    return raw
+      .map((entry) => JSON.parse(entry) as StoredEvent)
+      .filter((event) => event.seq > seq)
+      // Dos envíos concurrentes pueden insertarse fuera de orden
+      .sort((a, b) => a.seq - b.seq);
+  }
+}
+
+/**
+ * EventStore del SDK MCP limitado a una sesión.
+ * Los IDs de evento tienen el formato `<streamId>:<seq>`.
+ */
+export class SessionEventStore implements EventStore {
+  constructor(private sessionId: string, private log: EventLog) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const seq = await this.log.append(this.streamKey(streamId), message);
+    return `${streamId}:${seq}`;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const separator = lastEventId.lastIndexOf(':');
+    const streamId = lastEventId.slice(0, separator);
+    const lastSeq = Number(lastEventId.slice(separator + 1));
+    if (separator <= 0 || !Number.isInteger(lastSeq)) {
+      throw new Error(`Invalid Last-Event-ID: ${lastEventId}`);
+    }
+
+    const events = await this.log.readAfter(this.streamKey(streamId), lastSeq);
+    if (events.length > 0 && events[0].seq > lastSeq + 1) {
+      console.warn(`⚠️ Sesión ${this.sessionId}: eventos ${lastSeq + 1}-${events[0].seq - 1} del stream ${streamId} ya no están disponibles`);
+    }
+
+    console.log(`🔁 Sesión ${this.sessionId}: reenviando ${events.length} eventos del stream ${streamId}`);
+    for (const event of events) {
+      await send(`${streamId}:${event.seq}`, event.message);
+    }
+    return streamId;
+  }
+
+  private streamKey(streamId: StreamId): string {
+    return `events:${this.sessionId}:${streamId}`;
+  }
+}
+
+let eventLog: EventLog | null | undefined;
+
+/**
+ * Crea (una sola vez) el log de eventos según la configuración de entorno
+ */
+function getEventLog(): EventLog | null {
+  if (eventLog !== undefined) {
+    return eventLog;
+  }
+
+  const backend = process.env.EVENT_STORE || process.env.SESSION_STORE || 'memory';
+  const retention: EventRetention = {
+    maxEventsPerStream: parseInt(process.env.EVENT_STORE_MAX_EVENTS || '100', 10),
+    ttlMs: parseInt(process.env.EVENT_STORE_TTL_SECONDS || '600', 10) * 1000,
+  };
+
+  switch (backend) {
+    case 'none':
+      console.log('🔁 Event store: deshabilitado (streams SSE no reanudables)');
+      eventLog = null;
+      break;
+    case 'memory':
+      console.log(`🔁 Event store: memory (máx. ${retention.maxEventsPerStream} eventos por stream)`);
+      eventLog = new MemoryEventLog(retention);
+      break;
+    case 'redis': {
+      const url = process.env.REDIS_URL || 'redis://localhost:6379';
+      const keyPrefix = process.env.SESSION_STORE_PREFIX || 'mcp-service:';
+      console.log(`🔁 Event store: redis (máx. ${retention.maxEventsPerStream} eventos por stream)`);
+      eventLog = new RedisEventLog(url, keyPrefix, retention);
+      break;
+    }
+    default:
+      throw new Error(`EVENT_STORE desconocido: ${backend} (usar "memory", "redis" o "none")`);
+  }
+
+  return eventLog;
+}
+
+/**
+ * Crea el event store de una sesión MCP, o undefined si la reanudación está deshabilitada
+ */
+export function createEventStore(sessionId: string): EventStore | undefined {
+  const log = getEventLog();
+  return log ? new SessionEventStore(sessionId, log) : undefined;
+}
@@ -0,0 +1,70 @@
+/**
+ * 🗄️ Backend de sesiones sobre el protocolo Redis
+ *
+ * Compatible con Redis, Valkey, KeyDB o cualquier servidor que implemente
+ * GET/SET PX NX/GETDEL/DEL (GETDEL desde Redis 6.2). Los valores se guardan como JSON y la expiración la
+ * gestiona el propio servidor.
+ */
+
+import { Redis } from 'ioredis';
+import type { SessionStore } from './session-store.js';
+
+export class RedisSessionStore implements SessionStore {
+  readonly backend = 'redis';
+  private client: Redis;
+
+  constructor(url: string, keyPrefix: string = '') {
+    this.client = new Redis(url, {
+      keyPrefix,
+      maxRetriesPerRequest: 3,
+    });
+
+    this.client.on('error', (error) => {
+      console.error('❌ [RedisSessionStore] Error de conexión:', error.message);
+    });
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const raw = await this.client.get(key);
+    return raw === null ? undefined : (JSON.parse(raw) as T);
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    const raw = JSON.stringify(value);
+    if (ttlMs !== undefined) {
+      // PX requiere un entero positivo; un TTL agotado equivale a borrar
+      if (ttlMs <= 0) {
+        await this.client.del(key);
+        return;
+      }
+      await this.client.set(key, raw, 'PX', Math.ceil(ttlMs));
+    } else {
+      await this.client.set(key, raw);
+    }
+  }
+
+  async setIfAbsent<T>(key: string, value: T, ttlMs?: number): Promise<boolean> {
+    const raw = JSON.stringify(value);
+    const result = ttlMs !== undefined
+      ? await this.client.set(key, raw, 'PX', Math.max(1, Math.ceil(ttlMs)), 'NX')
+      : await this.client.set(key, raw, 'NX');
+    return result === 'OK';
+  }
+
+  async take<T>(key: string): Promise<T | undefined> {
+    const raw = await this.client.getdel(key);
+    return raw === null ? undefined : (JSON.parse(raw) as T);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(key);
+  }
+
+  async ping(): Promise<void> {
+    await this.client.ping();
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * 🗄️ Almacenamiento de sesiones
+ *
+ * Interfaz clave/valor con TTL para el estado que debe sobrevivir entre pods:
+ * estados CSRF de OAuth, sesiones de cookie y metadatos de sesiones MCP.
+ *
+ * Backends disponibles (variable SESSION_STORE):
+ * - memory: Map en proceso (por defecto, solo válido con una réplica)
+ * - redis:  cualquier servidor que hable el protocolo Redis (REDIS_URL)
+ */
+
+import { RedisSessionStore } from './redis-session-store.js';
+
+/**
+ * Contrato común de los backends de sesión
+ */
+export interface SessionStore {
+  readonly backend: string;
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs?: number): Promise<void>;
+  setIfAbsent<T>(key: string, value: T, ttlMs?: number): Promise<boolean>;  // Atómico: false si la clave ya existe
+  take<T>(key: string): Promise<T | undefined>;  // Atómico: lee y borra; solo una llamada recibe el valor
+  delete(key: string): Promise<void>;
+  ping(): Promise<void>;                // Comprueba que el backend responde (readiness)
+  close(): Promise<void>;
+}
+
+/**
+ * Backend en memoria con expiración por entrada
+ */
+export class MemorySessionStore implements SessionStore {
+  readonly backend = 'memory';
+  private entries = new Map<string, { value: string; expiresAt?: number }>();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(sweepIntervalMs: number = 60 * 1000) {
+    // Limpiar entradas expiradas periódicamente
+    this.sweepTimer = setInterval(() => this.sweep(), sweepIntervalMs);
+    this.sweepTimer.unref();
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.read<T>(key);
+  }
+
+  async set<T>(key: string, value: T, ttlMs?: number): Promise<void> {
+    this.entries.set(key, {
+      value: JSON.stringify(value),
+      expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : undefined,
+    });
+  }
+
+  async setIfAbsent<T>(key: string, value: T, ttlMs?: number): Promise<boolean> {
+    // Sin await entre la comprobación y la escritura: ninguna otra llamada puede intercalarse
+    const entry = this.entries.get(key);
+    if (entry && (entry.expiresAt === undefined || entry.expiresAt > Date.now())) {
+      return false;
+    }
+    this.entries.set(key, {
+      value: JSON.stringify(value),
+      expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : undefined,
+    });
+    return true;
+  }
+
+  async take<T>(key: string): Promise<T | undefined> {
+    // Lectura y borrado sin await entre medias
+    const value = this.read<T>(key);
+    this.entries.delete(key);
+    return value;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async ping(): Promise<void> {
+    // En proceso: siempre disponible
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    this.entries.clear();
+  }
+
+  private read<T>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Se serializa igual que en Redis para que ambos backends se comporten igual
+    return JSON.parse(entry.value) as T;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+let storeInstance: SessionStore | null = null;
+
+/**
+ * Crea un store según la configuración de entorno
+ */
+export function createSessionStore(): SessionStore {
+  const backend = process.env.SESSION_STORE || 'memory';
+
+  switch (backend) {
+    case 'memory':
+      console.log('🗄️  Session store: memory (solo válido con una réplica)');
+      return new MemorySessionStore();
+    case 'redis': {
+      const url = process.env.REDIS_URL || 'redis://localhost:6379';
+      const keyPrefix = process.env.SESSION_STORE_PREFIX || 'mcp-service:';
+      console.log(`🗄️  Session store: redis (${url.replace(/\/\/[^@]*@/, '//***@')})`);
+      return new RedisSessionStore(url, keyPrefix);
+    }
+    default:
+      throw new Error(`SESSION_STORE desconocido: ${backend} (usar "memory" o "redis")`);
+  }
+}
+
+/**
+ * Obtiene el store compartido del proceso (se crea en el primer uso)
+ */
+export function getSessionStore(): SessionStore {
+  if (!storeInstance) {
+    storeInstance = createSessionStore();
+  }
+  return storeInstance;
+}
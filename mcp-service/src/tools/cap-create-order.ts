@@ -0,0 +1,103 @@
+/**
+ * 🛒 cap_create_order - Crea una orden de compra en CAP
+ */
+
+import { capResourceUri } from '../cap-resources.js';
+import { CapOrder, ORDER_SCHEMA, QUOTE_SCHEMA, toOrder } from './cap-schemas.js';
+import { ORDER_ITEMS_PROPERTY, quoteOrder, quoteText } from './cap-quote-order.js';
+import { CONFIRM_TOKEN_PROPERTY, CONFIRMATION_SCHEMA } from './confirmation.js';
+import { structuredResult, ToolDefinition, ToolError } from './registry.js';
+
+export const capCreateOrderTool: ToolDefinition = {
+  name: "cap_create_order",
+  description: "Crea una nueva orden de compra en el sistema CAP con productos específicos",
+  inputSchema: {
+    type: "object",
+    properties: {
+      customerName: {
+        type: "string",
+        description: "Nombre del cliente que realiza la orden",
+        minLength: 1,
+      },
+      items: ORDER_ITEMS_PROPERTY,
+      dryRun: {
+        type: "boolean",
+        description: "Solo calcular el presupuesto (como cap_quote_order), sin crear la orden ni tocar el stock",
+      },
+      confirmToken: CONFIRM_TOKEN_PROPERTY,
+    },
+    required: ["customerName", "items"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      order: ORDER_SCHEMA,
+      confirmationRequired: CONFIRMATION_SCHEMA,
+      quote: QUOTE_SCHEMA,
+    },
+    oneOf: [{ required: ["order"] }, { required: ["confirmationRequired"] }, { required: ["quote"] }],
+  },
+  annotations: { title: "Crear orden", readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+  permissions: ["cap:write"],
+  errorMessage: "Error al crear orden",
+  handler: async (args, context) => {
+    const { capClient, resourceSubscriptions, entities, confirmations } = context;
+    const customerName = args.customerName as string;
+    const items = args.items as Array<{ productId: string; quantity: number }>;
+
+    if (args.dryRun === true) {
+      const quote = await quoteOrder(capClient, items, customerName);
+      return structuredResult(quoteText(quote), { quote });
+    }
+
+    // Sin precio de todas las líneas el total (y con él la confirmación) no es fiable
+    const quote = await quoteOrder(capClient, items, customerName);
+    const unpriced = quote.lines.filter((line) => line.unitPrice === undefined);
+    if (unpriced.length > 0) {
+      throw new ToolError(`❌ No se ha creado la orden: productos no encontrados: ${unpriced.map((line) => line.productId).join(", ")}`);
+    }
+
+    // Órdenes con total estimado por encima de CONFIRM_ORDER_TOTAL_ABOVE requieren que el usuario las apruebe
+    if (confirmations.requiredForTotal(quote.total)) {
+      const summary =
+        `🛒 Nueva orden para ${customerName}\n` +
+        quote.lines.map((line) => `- ${line.quantity} × ${line.productName} ($${line.unitPrice} c/u) = $${line.subtotal}`).join("\n") +
+        `\n💰 Total estimado: $${quote.total}`;
+      const confirmation = await confirmations.confirm("cap_create_order", args, summary, context);
+      if (!confirmation.confirmed) {
+        return confirmation.result;
+      }
+    }
+
+    const result = await capClient.createCompleteOrder(customerName, items);
+    entities.push(
+      { entitySet: "Orders", id: result.orderId },
+      ...items.map((item) => ({ entitySet: "Products", id: item.productId }))
+    );
+
+    // La acción solo devuelve ID, número y total: se lee la orden para incluir precios por línea
+    let order: CapOrder;
+    try {
+      order = toOrder(await capClient.getOrderById(result.orderId));
+    } catch (error: any) {
+      console.warn(`[cap_create_order] No se pudo leer la orden ${result.orderId}: ${error.message}`);
+      order = toOrder({ ...result, customerName, status: "PENDING", items });
+    }
+
+    // Nueva orden en la lista de recursos y stock modificado en los productos
+    await resourceSubscriptions.notifyListChanged(capResourceUri("orders", result.orderId));
+    for (const item of items) {
+      await resourceSubscriptions.notifyUpdated(capResourceUri("products", item.productId));
+    }
+
+    return structuredResult(
+      `✅ Orden creada exitosamente!\n\n` +
+      `📋 Número de Orden: ${order.orderNumber}\n` +
+      `🆔 ID: ${order.ID}\n` +
+      `💰 Total: $${order.totalAmount}\n` +
+      `👤 Cliente: ${customerName}\n` +
+      `📦 Productos: ${items.length} ítems`,
+      { order }
+    );
+  },
+};
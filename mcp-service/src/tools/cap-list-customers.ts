@@ -0,0 +1,50 @@
+/**
+ * 👥 cap_list_customers - Lista los clientes de CAP
+ */
+
+import { CapCustomer, CUSTOMER_SCHEMA, toCustomer } from './cap-schemas.js';
+import { formatList, listFormatProperties, ListView } from './list-format.js';
+import { structuredResult, ToolDefinition } from './registry.js';
+
+const CUSTOMER_LIST_VIEW: ListView<CapCustomer> = {
+  columns: {
+    ID: (c) => c.ID,
+    name: (c) => c.name,
+    email: (c) => c.email,
+    phone: (c) => c.phone,
+    address: (c) => c.address,
+    active: (c) => c.active,
+  },
+  defaultColumns: ["name", "email", "phone", "ID"],
+  text: (c) => `- ${c.name}\n  Email: ${c.email ?? '-'} | Teléfono: ${c.phone ?? '-'}\n  ID: ${c.ID}`,
+  header: (count) => `👥 Clientes encontrados: ${count}`,
+  empty: "No hay clientes",
+};
+
+export const capListCustomersTool: ToolDefinition = {
+  name: "cap_list_customers",
+  description: "Lista los clientes registrados en el sistema CAP",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...listFormatProperties(CUSTOMER_LIST_VIEW),
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      count: { type: "integer" },
+      customers: { type: "array", items: CUSTOMER_SCHEMA },
+    },
+    required: ["count", "customers"],
+  },
+  annotations: { title: "Listar clientes", readOnlyHint: true, openWorldHint: true },
+  permissions: ["cap:read"],
+  errorMessage: "Error al obtener clientes",
+  handler: async (args, { capClient }) => {
+    const customers: CapCustomer[] = (await capClient.getCustomers()).map(toCustomer);
+    const { text, items } = formatList(customers, args, CUSTOMER_LIST_VIEW);
+
+    return structuredResult(text, { count: items.length, customers: items });
+  },
+};
@@ -0,0 +1,62 @@
+/**
+ * 📋 cap_list_orders - Lista las órdenes de compra de CAP
+ */
+
+import { CapOrder, ORDER_SCHEMA, toOrder } from './cap-schemas.js';
+import { formatList, listFormatProperties, ListView } from './list-format.js';
+import { structuredResult, ToolDefinition } from './registry.js';
+
+const ORDER_LIST_VIEW: ListView<CapOrder> = {
+  columns: {
+    ID: (o) => o.ID,
+    orderNumber: (o) => o.orderNumber,
+    customerName: (o) => o.customerName,
+    status: (o) => o.status,
+    totalAmount: (o) => o.totalAmount,
+    orderDate: (o) => o.orderDate,
+    items: (o) => o.items?.length ?? 0,
+  },
+  defaultColumns: ["orderNumber", "customerName", "status", "totalAmount", "orderDate", "ID"],
+  text: (o) =>
+    `- ${o.orderNumber} | ${o.status} | $${o.totalAmount}\n  Cliente: ${o.customerName} | Fecha: ${o.orderDate}\n  ` +
+    `Ítems: ${o.items?.length ?? 0} | ID: ${o.ID}`,
+  header: (count) => `📋 Órdenes encontradas: ${count}`,
+  empty: "No hay órdenes",
+};
+
+export const capListOrdersTool: ToolDefinition = {
+  name: "cap_list_orders",
+  description: "Lista las órdenes de compra del sistema CAP con sus líneas",
+  inputSchema: {
+    type: "object",
+    properties: {
+      status: {
+        type: "string",
+        description: "Mostrar solo las órdenes en este estado",
+        enum: ["PENDING", "PROCESSING", "SHIPPED", "DELIVERED", "CANCELLED"],
+      },
+      ...listFormatProperties(ORDER_LIST_VIEW),
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      count: { type: "integer" },
+      orders: { type: "array", items: ORDER_SCHEMA },
+    },
+    required: ["count", "orders"],
+  },
+  annotations: { title: "Listar órdenes", readOnlyHint: true, openWorldHint: true },
+  permissions: ["cap:read"],
+  errorMessage: "Error al obtener órdenes",
+  handler: async (args, { capClient }) => {
+    const status = args.status as string | undefined;
+
+    const orders: CapOrder[] = (await capClient.getOrders())
+      .map(toOrder)
+      .filter((order: CapOrder) => !status || order.status === status);
+    const { text, items } = formatList(orders, args, ORDER_LIST_VIEW);
+
+    return structuredResult(text, { count: items.length, orders: items });
+  },
+};
@@ -0,0 +1,65 @@
+/**
+ * 📦 cap_list_products - Lista los productos del catálogo CAP
+ */
+
+import { CapProduct, PRODUCT_SCHEMA, toProduct } from './cap-schemas.js';
+import { formatList, listFormatProperties, ListView } from './list-format.js';
+import { structuredResult, ToolDefinition } from './registry.js';
+
+const PRODUCT_LIST_VIEW: ListView<CapProduct> = {
+  columns: {
+    ID: (p) => p.ID,
+    name: (p) => p.name,
+    category: (p) => p.category,
+    price: (p) => p.price,
+    stock: (p) => p.stock,
+    active: (p) => p.active,
+    description: (p) => p.description,
+  },
+  defaultColumns: ["name", "category", "price", "stock", "ID"],
+  text: (p) => `- ${p.name} (${p.category})\n  Precio: $${p.price} | Stock: ${p.stock} unidades\n  ID: ${p.ID}`,
+  header: (count) => `📦 Productos encontrados: ${count}`,
+  empty: "No hay productos disponibles",
+};
+
+export const capListProductsTool: ToolDefinition = {
+  name: "cap_list_products",
+  description: "Lista todos los productos disponibles en el catálogo OData de CAP",
+  inputSchema: {
+    type: "object",
+    properties: {
+      filterByLowStock: {
+        type: "boolean",
+        description: "Si es true, filtra solo productos con bajo stock (menos de 10 unidades)",
+      },
+      threshold: {
+        type: "integer",
+        minimum: 0,
+        description: "Umbral de stock para filtrar (solo si filterByLowStock es true)",
+      },
+      ...listFormatProperties(PRODUCT_LIST_VIEW),
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      count: { type: "integer" },
+      products: { type: "array", items: PRODUCT_SCHEMA },
+    },
+    required: ["count", "products"],
+  },
+  annotations: { title: "Listar productos", readOnlyHint: true, openWorldHint: true },
+  permissions: ["cap:read"],
+  errorMessage: "Error al obtener productos",
+  handler: async (args, { capClient }) => {
+    const filterByLowStock = args.filterByLowStock as boolean | undefined;
+    const threshold = args.threshold as number | undefined;
+
+    const raw = filterByLowStock
+      ? await capClient.getLowStockProducts(threshold || 10)
+      : await capClient.getProducts();
+    const { text, items: products } = formatList<CapProduct>(raw.map(toProduct), args, PRODUCT_LIST_VIEW);
+
+    return structuredResult(text, { count: products.length, products });
+  },
+};
@@ -0,0 +1,89 @@
+/**
+ * 🔎 cap_query - Consulta genérica sobre cualquier entidad CAP
+ */
+
+import { CATALOG_MODEL, DEFAULT_QUERY_TOP, FilterExpression, MAX_QUERY_TOP, ODataQueryOptions } from '../cap-query.js';
+import { capQueryUris } from '../cap-resources.js';
+import { textResult, ToolDefinition } from './registry.js';
+
+export const capQueryTool: ToolDefinition = {
+  name: "cap_query",
+  description: "Consulta cualquier entidad del servicio CAP con filtros estructurados, selección de campos, expansión, orden y paginación",
+  inputSchema: {
+    type: "object",
+    properties: {
+      entitySet: {
+        type: "string",
+        description: "Entidad OData a consultar",
+        enum: Object.keys(CATALOG_MODEL),
+      },
+      filter: {
+        type: "object",
+        description: "Expresión de filtro. Condición: {field, op, value} con op en eq, ne, gt, ge, lt, le, contains, startswith, endswith, in (value es una lista). " +
+                     "Combinaciones: {and: [...]}, {or: [...]}, {not: {...}}. " +
+                     "Ejemplo: {\"and\": [{\"field\": \"status\", \"op\": \"eq\", \"value\": \"PENDING\"}, {\"field\": \"totalAmount\", \"op\": \"gt\", \"value\": 100}]}",
+      },
+      select: {
+        type: "array",
+        description: "Campos a devolver (por defecto todos)",
+        items: { type: "string" },
+      },
+      expand: {
+        type: "array",
+        description: "Navegaciones a expandir (p. ej. items en Orders, product en OrderItems)",
+        items: { type: "string" },
+      },
+      orderby: {
+        type: "array",
+        description: "Criterios de orden",
+        items: {
+          type: "object",
+          properties: {
+            field: { type: "string" },
+            direction: { type: "string", enum: ["asc", "desc"] },
+          },
+          required: ["field"],
+        },
+      },
+      top: {
+        type: "integer",
+        minimum: 1,
+        maximum: MAX_QUERY_TOP,
+        description: `Máximo de resultados (1-${MAX_QUERY_TOP}, por defecto ${DEFAULT_QUERY_TOP})`,
+      },
+      skip: {
+        type: "integer",
+        minimum: 0,
+        description: "Resultados a saltar, para paginar",
+      },
+    },
+    required: ["entitySet"],
+  },
+  annotations: { title: "Consultar entidades CAP", readOnlyHint: true, openWorldHint: true },
+  permissions: ["cap:read"],
+  errorMessage: "Error en la consulta",
+  // La entidad consultada y las expandidas, con las reglas de sus recursos cap://
+  resources: (args) => capQueryUris(args.entitySet as string, args.expand as string[] | undefined),
+  handler: async (args, { capClient }) => {
+    const entitySet = args.entitySet as string;
+    const options: ODataQueryOptions = {
+      filter: args.filter as FilterExpression | undefined,
+      select: args.select as string[] | undefined,
+      expand: args.expand as string[] | undefined,
+      orderby: args.orderby as ODataQueryOptions["orderby"],
+      top: (args.top as number | undefined) ?? DEFAULT_QUERY_TOP,
+      skip: args.skip as number | undefined,
+    };
+
+    const result = await capClient.query(entitySet, options);
+    const skip = options.skip ?? 0;
+    const hasMore = result.count !== undefined && skip + result.value.length < result.count;
+
+    return textResult(
+      `🔎 ${entitySet}: ${result.value.length} resultados` +
+      `${result.count !== undefined ? ` de ${result.count}` : ''}` +
+      `${hasMore ? ` (usa skip=${skip + result.value.length} para ver más)` : ''}\n\n` +
+      JSON.stringify(result.value, null, 2)
+    );
+  },
+};
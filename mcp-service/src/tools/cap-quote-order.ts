@@ -0,0 +1,134 @@
+/**
+ * 🧾 cap_quote_order - Presupuesto de una orden sin crearla
+ *
+ * Resuelve cada línea con CAPClient.getProductById: precio unitario, subtotal,
+ * total y avisos de stock por línea. No escribe nada en CAP; cap_create_order
+ * lo usa también con dryRun y para estimar el total antes de pedir confirmación.
+ */
+
+import { CAPClient, CapRequestError } from '../cap-integration.js';
+import { CapQuote, CapQuoteLine, QUOTE_SCHEMA, toProduct } from './cap-schemas.js';
+import { structuredResult, ToolDefinition } from './registry.js';
+
+/**
+ * Argumento `items` compartido por cap_quote_order y cap_create_order
+ */
+export const ORDER_ITEMS_PROPERTY = {
+  type: "array",
+  description: "Lista de productos a ordenar con sus cantidades",
+  minItems: 1,
+  items: {
+    type: "object",
+    properties: {
+      productId: {
+        type: "string",
+        format: "uuid",
+        description: "UUID del producto",
+      },
+      quantity: {
+        type: "integer",
+        minimum: 1,
+        description: "Cantidad de unidades a ordenar",
+      },
+    },
+    required: ["productId", "quantity"],
+  },
+};
+
+// Importes a céntimos para no arrastrar errores de coma flotante
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Calcula el presupuesto leyendo cada producto. Un producto que no existe (404)
+ * no hace fallar el presupuesto: su línea queda sin precio y con un aviso. Cualquier
+ * otro error (CAP no disponible, timeout, 5xx) se propaga: un presupuesto con
+ * líneas sin precio por un fallo transitorio daría un total falso.
+ */
+export async function quoteOrder(
+  capClient: CAPClient,
+  items: Array<{ productId: string; quantity: number }>,
+  customerName?: string
+): Promise<CapQuote> {
+  const lines = await Promise.all(items.map(async (item): Promise<CapQuoteLine> => {
+    try {
+      const product = toProduct(await capClient.getProductById(item.productId));
+      const line: CapQuoteLine = {
+        productId: item.productId,
+        productName: product.name,
+        quantity: item.quantity,
+        unitPrice: product.price,
+        subtotal: roundAmount(product.price * item.quantity),
+        stock: product.stock,
+      };
+      if (product.active === false) {
+        line.warning = "producto inactivo";
+      } else if (product.stock < item.quantity) {
+        line.warning = `stock insuficiente: faltan ${item.quantity - product.stock} unidades`;
+      }
+      return line;
+    } catch (error: any) {
+      if (!(error instanceof CapRequestError) || error.status !== 404) {
+        throw error;
+      }
+      return { productId: item.productId, quantity: item.quantity, warning: "producto no encontrado" };
+    }
+  }));
+
+  return {
+    ...(customerName ? { customerName } : {}),
+    lines,
+    total: roundAmount(lines.reduce((sum, line) => sum + (line.subtotal ?? 0), 0)),
+    fulfillable: lines.every((line) => !line.warning),
+  };
+}
+
+/**
+ * Presupuesto en formato legible
+ */
+export function quoteText(quote: CapQuote): string {
+  const lines = quote.lines.map((line) =>
+    line.unitPrice === undefined
+      ? `- ⚠️ ${line.quantity} × ${line.productId}: ${line.warning}`
+      : `- ${line.warning ? "⚠️ " : ""}${line.quantity} × ${line.productName}: $${line.unitPrice} c/u = $${line.subtotal}` +
+        ` (stock: ${line.stock})${line.warning ? ` → ${line.warning}` : ""}`
+  );
+  const warnings = quote.lines.filter((line) => line.warning).length;
+
+  return `🧾 Presupuesto${quote.customerName ? ` para ${quote.customerName}` : ""}\n\n` +
+    `${lines.join("\n")}\n\n` +
+    `💰 Total: $${quote.total}\n` +
+    (quote.fulfillable ? "✅ Hay stock suficiente para todas las líneas" : `⚠️ ${warnings} línea(s) no se pueden servir`) +
+    `\n\nNo se ha creado ninguna orden ni modificado el stock.`;
+}
+
+export const capQuoteOrderTool: ToolDefinition = {
+  name: "cap_quote_order",
+  description: "Calcula precios por línea, total y avisos de stock de una orden sin crearla ni modificar el stock",
+  inputSchema: {
+    type: "object",
+    properties: {
+      customerName: {
+        type: "string",
+        description: "Nombre del cliente (opcional, solo se muestra en el presupuesto)",
+      },
+      items: ORDER_ITEMS_PROPERTY,
+    },
+    required: ["items"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      quote: QUOTE_SCHEMA,
+    },
+    required: ["quote"],
+  },
+  annotations: { title: "Presupuestar orden", readOnlyHint: true, openWorldHint: true },
+  permissions: ["cap:read"],
+  errorMessage: "Error al calcular el presupuesto",
+  handler: async (args, { capClient }) => {
+    const quote = await quoteOrder(capClient, args.items, args.customerName);
+    return structuredResult(quoteText(quote), { quote });
+  },
+};
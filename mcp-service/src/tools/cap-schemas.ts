@@ -0,0 +1,201 @@
+/**
+ * 🧾 Objetos tipados de CAP para el structuredContent de las herramientas
+ *
+ * Las herramientas CAP devuelven, además del texto legible, productos, órdenes,
+ * líneas de orden, clientes y presupuestos con tipos estables descritos por su
+ * outputSchema.
+ * Las funciones to* normalizan la respuesta OData (decimales como número, sin
+ * campos null).
+ */
+
+export interface CapProduct {
+  ID: string;
+  name: string;
+  description?: string;
+  category?: string;
+  price: number;
+  stock: number;
+  active?: boolean;
+}
+
+export interface CapOrderItem {
+  ID?: string;
+  productId: string;
+  productName?: string;
+  quantity: number;
+  unitPrice?: number;
+  subtotal?: number;
+}
+
+export interface CapOrder {
+  ID: string;
+  orderNumber: string;
+  customerName?: string;
+  status?: string;
+  totalAmount: number;
+  orderDate?: string;
+  items?: CapOrderItem[];
+}
+
+export interface CapCustomer {
+  ID: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  active?: boolean;
+}
+
+export interface CapQuoteLine {
+  productId: string;
+  productName?: string;
+  quantity: number;
+  unitPrice?: number;                 // Sin precio ni subtotal si el producto no se pudo leer
+  subtotal?: number;
+  stock?: number;
+  warning?: string;                   // Stock insuficiente, producto inactivo o no encontrado
+}
+
+export interface CapQuote {
+  customerName?: string;
+  lines: CapQuoteLine[];
+  total: number;
+  fulfillable: boolean;               // Todas las líneas tienen producto y stock suficiente
+}
+
+export const PRODUCT_SCHEMA = {
+  type: "object",
+  properties: {
+    ID: { type: "string", format: "uuid" },
+    name: { type: "string" },
+    description: { type: "string" },
+    category: { type: "string" },
+    price: { type: "number" },
+    stock: { type: "integer" },
+    active: { type: "boolean" },
+  },
+  required: ["ID", "name", "price", "stock"],
+};
+
+export const ORDER_ITEM_SCHEMA = {
+  type: "object",
+  properties: {
+    ID: { type: "string", format: "uuid" },
+    productId: { type: "string", format: "uuid" },
+    productName: { type: "string" },
+    quantity: { type: "integer" },
+    unitPrice: { type: "number" },
+    subtotal: { type: "number" },
+  },
+  required: ["productId", "quantity"],
+};
+
+export const ORDER_SCHEMA = {
+  type: "object",
+  properties: {
+    ID: { type: "string", format: "uuid" },
+    orderNumber: { type: "string" },
+    customerName: { type: "string" },
+    status: { type: "string", enum: ["PENDING", "PROCESSING", "SHIPPED", "DELIVERED", "CANCELLED"] },
+    totalAmount: { type: "number" },
+    orderDate: { type: "string", format: "date-time" },
+    items: { type: "array", items: ORDER_ITEM_SCHEMA },
+  },
+  required: ["ID", "orderNumber", "totalAmount"],
+};
+
+export const CUSTOMER_SCHEMA = {
+  type: "object",
+  properties: {
+    ID: { type: "string", format: "uuid" },
+    name: { type: "string" },
+    email: { type: "string" },
+    phone: { type: "string" },
+    address: { type: "string" },
+    active: { type: "boolean" },
+  },
+  required: ["ID", "name"],
+};
+
+export const QUOTE_LINE_SCHEMA = {
+  type: "object",
+  properties: {
+    productId: { type: "string", format: "uuid" },
+    productName: { type: "string" },
+    quantity: { type: "integer" },
+    unitPrice: { type: "number" },
+    subtotal: { type: "number" },
+    stock: { type: "integer" },
+    warning: { type: "string" },
+  },
+  required: ["productId", "quantity"],
+};
+
+export const QUOTE_SCHEMA = {
+  type: "object",
+  properties: {
+    customerName: { type: "string" },
+    lines: { type: "array", items: QUOTE_LINE_SCHEMA },
+    total: { type: "number" },
+    fulfillable: { type: "boolean" },
+  },
+  required: ["lines", "total", "fulfillable"],
+};
+
+/**
+ * Quita los campos undefined o null para que el objeto cumpla el schema
+ */
+function compact<T extends object>(object: T): T {
+  return Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined && value !== null)) as T;
+}
+
+// Los Decimal de OData pueden llegar como string (IEEE754Compatible)
+function toNumber(value: unknown): number | undefined {
+  return value === undefined || value === null ? undefined : Number(value);
+}
+
+export function toProduct(raw: any): CapProduct {
+  return compact({
+    ID: raw.ID,
+    name: raw.name,
+    description: raw.description,
+    category: raw.category,
+    price: toNumber(raw.price) ?? 0,
+    stock: toNumber(raw.stock) ?? 0,
+    active: raw.active,
+  });
+}
+
+export function toOrderItem(raw: any): CapOrderItem {
+  return compact({
+    ID: raw.ID,
+    productId: raw.productId ?? raw.product_ID ?? raw.product?.ID,
+    productName: raw.product?.name,
+    quantity: toNumber(raw.quantity) ?? 0,
+    unitPrice: toNumber(raw.unitPrice),
+    subtotal: toNumber(raw.subtotal),
+  });
+}
+
+export function toOrder(raw: any): CapOrder {
+  return compact({
+    ID: raw.ID ?? raw.orderId,
+    orderNumber: raw.orderNumber,
+    customerName: raw.customerName,
+    status: raw.status,
+    totalAmount: toNumber(raw.totalAmount) ?? 0,
+    orderDate: raw.orderDate,
+    items: Array.isArray(raw.items) ? raw.items.map(toOrderItem) : undefined,
+  });
+}
+
+export function toCustomer(raw: any): CapCustomer {
+  return compact({
+    ID: raw.ID,
+    name: raw.name,
+    email: raw.email,
+    phone: raw.phone,
+    address: raw.address,
+    active: raw.active,
+  });
+}
@@ -0,0 +1,76 @@
+/**
+ * 🔄 cap_update_order_status - Cambia el estado de una orden en CAP
+ */
+
+import { capResourceUri } from '../cap-resources.js';
+import { ORDER_SCHEMA, toOrder } from './cap-schemas.js';
+import { CONFIRM_TOKEN_PROPERTY, CONFIRMATION_SCHEMA } from './confirmation.js';
+import { structuredResult, ToolDefinition } from './registry.js';
+
+export const capUpdateOrderStatusTool: ToolDefinition = {
+  name: "cap_update_order_status",
+  description: "Actualiza el estado de una orden existente en el sistema CAP",
+  inputSchema: {
+    type: "object",
+    properties: {
+      orderId: {
+        type: "string",
+        format: "uuid",
+        description: "UUID de la orden a actualizar",
+      },
+      newStatus: {
+        type: "string",
+        description: "Nuevo estado de la orden",
+        enum: ["PENDING", "PROCESSING", "SHIPPED", "DELIVERED", "CANCELLED"],
+      },
+      confirmToken: CONFIRM_TOKEN_PROPERTY,
+    },
+    required: ["orderId", "newStatus"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      order: ORDER_SCHEMA,
+      confirmationRequired: CONFIRMATION_SCHEMA,
+    },
+    oneOf: [{ required: ["order"] }, { required: ["confirmationRequired"] }],
+  },
+  annotations: { title: "Actualizar estado de orden", readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
+  permissions: ["cap:write"],
+  errorMessage: "Error al actualizar estado de orden",
+  handler: async (args, context) => {
+    const { capClient, resourceSubscriptions, entities, confirmations } = context;
+    const orderId = args.orderId as string;
+    const newStatus = args.newStatus as string;
+
+    entities.push({ entitySet: "Orders", id: orderId });
+
+    // Cancelar o entregar (según CONFIRM_ORDER_STATUSES) requiere que el usuario lo apruebe
+    if (confirmations.requiredForStatus(newStatus)) {
+      const current = toOrder(await capClient.getOrderById(orderId));
+      if (current.status !== newStatus) {
+        const summary =
+          `📋 Orden: ${current.orderNumber}\n` +
+          `👤 Cliente: ${current.customerName}\n` +
+          `💰 Total: $${current.totalAmount}\n` +
+          `🔄 Estado: ${current.status ?? "?"} → ${newStatus}`;
+        const confirmation = await confirmations.confirm("cap_update_order_status", args, summary, context);
+        if (!confirmation.confirmed) {
+          return confirmation.result;
+        }
+      }
+    }
+
+    const updatedOrder = toOrder(await capClient.updateOrderStatus(orderId, newStatus));
+    await resourceSubscriptions.notifyUpdated(capResourceUri("orders", orderId));
+
+    return structuredResult(
+      `✅ Estado de orden actualizado!\n\n` +
+      `📋 Orden: ${updatedOrder.orderNumber}\n` +
+      `🔄 Nuevo Estado: ${updatedOrder.status}\n` +
+      `👤 Cliente: ${updatedOrder.customerName}\n` +
+      `💰 Total: $${updatedOrder.totalAmount}`,
+      { order: updatedOrder }
+    );
+  },
+};
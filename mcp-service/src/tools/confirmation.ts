@@ -0,0 +1,223 @@
+/**
+ * ✋ Confirmación humana antes de operaciones destructivas o de importe alto
+ *
+ * Antes de cancelar o entregar una orden, o de crear una orden cuyo total supera
+ * el umbral, la herramienta se detiene y pregunta al usuario:
+ * - Con elicitation (el cliente la declara en sus capabilities): se le muestra el
+ *   resumen y se espera su respuesta dentro de la misma llamada.
+ * - Sin elicitation: la llamada devuelve el resumen y un `confirmToken` de un solo
+ *   uso; la operación se ejecuta cuando el modelo repite la llamada con los mismos
+ *   argumentos y el token, después de que el usuario lo apruebe.
+ *
+ * Las herramientas de escritura genéricas (generadas desde el $metadata o
+ * declarativas) se confirman siempre: no se sabe qué hace cada acción.
+ *
+ * Los tokens se guardan en el session store (válidos en cualquier réplica) ligados
+ * al usuario, a la herramienta y a los argumentos.
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { CallToolResult, ElicitRequest, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { SessionStore } from '../storage/session-store.js';
+import { structuredResult, ToolContext, ToolError } from './registry.js';
+
+export interface ConfirmationConfig {
+  orderTotalAbove?: number;           // Órdenes nuevas con total estimado mayor (undefined: nunca)
+  statuses: string[];                 // Estados destino que requieren confirmación
+  tokenTtlSeconds: number;
+}
+
+/**
+ * Pregunta al usuario mediante elicitation/create (solo si el cliente la soporta)
+ */
+export type Elicit = (params: ElicitRequest['params']) => Promise<ElicitResult>;
+
+/**
+ * Resultado de pedir confirmación: o se puede continuar, o la herramienta
+ * devuelve `result` (el resumen con el confirmToken) sin ejecutar nada
+ */
+export type ConfirmationOutcome = { confirmed: true } | { confirmed: false; result: CallToolResult };
+
+interface PendingConfirmation {
+  tool: string;
+  sub: string;
+  argsHash: string;
+}
+
+const TOKEN_KEY_PREFIX = 'confirm:';
+
+/**
+ * Argumento opcional de las herramientas que piden confirmación
+ */
+export const CONFIRM_TOKEN_PROPERTY = {
+  type: "string",
+  description: "Token de confirmación devuelto por una llamada anterior. Solo se envía después de que el usuario apruebe el resumen, con los mismos argumentos",
+};
+
+/**
+ * structuredContent de una llamada pendiente de confirmación
+ */
+export const CONFIRMATION_SCHEMA = {
+  type: "object",
+  properties: {
+    token: { type: "string" },
+    expiresAt: { type: "string", format: "date-time" },
+    summary: { type: "string" },
+  },
+  required: ["token", "expiresAt", "summary"],
+};
+
+/**
+ * Lee la configuración de entorno:
+ * - CONFIRM_ORDER_TOTAL_ABOVE: total a partir del cual una orden nueva se confirma (default: 1000, "off" para nunca)
+ * - CONFIRM_ORDER_STATUSES: estados destino que se confirman (default: CANCELLED,DELIVERED; vacío para ninguno)
+ * - CONFIRM_TOKEN_TTL_SECONDS: validez del confirmToken (default: 300)
+ */
+export function loadConfirmationConfig(env: NodeJS.ProcessEnv = process.env): ConfirmationConfig {
+  const totalAbove = env.CONFIRM_ORDER_TOTAL_ABOVE ?? '1000';
+  const orderTotalAbove = totalAbove.trim().toLowerCase() === 'off' ? undefined : Number(totalAbove);
+  if (orderTotalAbove !== undefined && !Number.isFinite(orderTotalAbove)) {
+    throw new Error(`CONFIRM_ORDER_TOTAL_ABOVE inválido: ${totalAbove} (usar un número u "off")`);
+  }
+  return {
+    orderTotalAbove,
+    statuses: (env.CONFIRM_ORDER_STATUSES ?? 'CANCELLED,DELIVERED')
+      .split(',')
+      .map((status) => status.trim().toUpperCase())
+      .filter(Boolean),
+    tokenTtlSeconds: parseInt(env.CONFIRM_TOKEN_TTL_SECONDS || '300', 10),
+  };
+}
+
+// JSON con las claves ordenadas, para que el orden de los argumentos no cambie el hash
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hashArguments(args: Record<string, any>): string {
+  const { confirmToken: _token, ...rest } = args;
+  return createHash('sha256').update(stableStringify(rest)).digest('hex');
+}
+
+/**
+ * inputSchema de una herramienta genérica de escritura con el confirmToken añadido
+ */
+export function withConfirmToken<T extends { properties?: Record<string, any> }>(inputSchema: T): T {
+  return { ...inputSchema, properties: { ...inputSchema.properties, confirmToken: CONFIRM_TOKEN_PROPERTY } };
+}
+
+/**
+ * Confirmación de una herramienta genérica de escritura: el resumen son su
+ * descripción y los argumentos. Si se confirma devuelve los argumentos sin el
+ * confirmToken, listos para enviar a CAP.
+ */
+export async function confirmGenericWrite(
+  tool: { name: string; description: string },
+  args: Record<string, any>,
+  context: ToolContext
+): Promise<{ confirmed: true; args: Record<string, any> } | { confirmed: false; result: CallToolResult }> {
+  const { confirmToken: _token, ...toolArgs } = args;
+  const summary = `✏️ ${tool.name}: ${tool.description}\n${JSON.stringify(toolArgs, null, 2)}`;
+  const confirmation = await context.confirmations.confirm(tool.name, args, summary, context);
+  return confirmation.confirmed ? { confirmed: true, args: toolArgs } : confirmation;
+}
+
+function invalidToken(tool: string): ToolError {
+  return new ToolError(`❌ confirmToken inválido o caducado: vuelve a llamar a ${tool} sin confirmToken para obtener uno nuevo`);
+}
+
+export class Confirmations {
+  constructor(public readonly config: ConfirmationConfig, private store: SessionStore) {}
+
+  requiredForStatus(status: string): boolean {
+    return this.config.statuses.includes(status.toUpperCase());
+  }
+
+  requiredForTotal(total: number): boolean {
+    return this.config.orderTotalAbove !== undefined && total > this.config.orderTotalAbove;
+  }
+
+  /**
+   * Pide confirmación al usuario para ejecutar `tool` con `args`.
+   * Lanza ToolError si el usuario la rechaza o el confirmToken no es válido.
+   */
+  async confirm(tool: string, args: Record<string, any>, summary: string, context: ToolContext): Promise<ConfirmationOutcome> {
+    if (typeof args.confirmToken === 'string') {
+      await this.redeem(args.confirmToken, tool, args, context);
+      return { confirmed: true };
+    }
+
+    if (context.elicit) {
+      try {
+        const response = await context.elicit({
+          message: `${summary}\n\n¿Confirmas la operación?`,
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              confirm: { type: 'boolean', title: 'Confirmar', description: 'Marca para ejecutar la operación' },
+            },
+            required: ['confirm'],
+          },
+        });
+        if (response.action === 'accept' && response.content?.confirm === true) {
+          console.log(`✋ [Confirmations] ${tool} confirmada por ${context.viewer.sub} (elicitation)`);
+          return { confirmed: true };
+        }
+        console.log(`✋ [Confirmations] ${tool} rechazada por ${context.viewer.sub} (${response.action})`);
+        throw new ToolError(`🚫 Operación cancelada por el usuario: no se ha ejecutado ${tool}`);
+      } catch (error: any) {
+        if (error instanceof ToolError) {
+          throw error;
+        }
+        // El cliente declaró elicitation pero no respondió: se usa el confirmToken
+        console.warn(`[Confirmations] elicitation falló para ${tool}, se usa confirmToken: ${error.message}`);
+      }
+    }
+
+    return { confirmed: false, result: await this.issue(tool, args, summary, context) };
+  }
+
+  private async issue(tool: string, args: Record<string, any>, summary: string, context: ToolContext): Promise<CallToolResult> {
+    const token = randomUUID();
+    const ttlMs = this.config.tokenTtlSeconds * 1000;
+    const expiresAt = new Date(Date.now() + ttlMs).toISOString();
+    await this.store.set<PendingConfirmation>(
+      TOKEN_KEY_PREFIX + token,
+      { tool, sub: context.viewer.sub, argsHash: hashArguments(args) },
+      ttlMs
+    );
+    console.log(`✋ [Confirmations] ${tool} pendiente de confirmación de ${context.viewer.sub}`);
+    context.deferred = true;
+
+    return structuredResult(
+      `✋ Esta operación requiere la confirmación del usuario. No se ha ejecutado nada.\n\n` +
+      `${summary}\n\n` +
+      `Muestra este resumen al usuario. Si lo aprueba, vuelve a llamar a ${tool} con los mismos ` +
+      `argumentos y confirmToken: "${token}" (caduca ${expiresAt}).`,
+      { confirmationRequired: { token, expiresAt, summary } }
+    );
+  }
+
+  private async redeem(token: string, tool: string, args: Record<string, any>, context: ToolContext): Promise<void> {
+    const key = TOKEN_KEY_PREFIX + token;
+    const pending = await this.store.get<PendingConfirmation>(key);
+    if (!pending || pending.tool !== tool || pending.sub !== context.viewer.sub) {
+      throw invalidToken(tool);
+    }
+    if (pending.argsHash !== hashArguments(args)) {
+      throw new ToolError(`❌ Los argumentos no coinciden con los confirmados: vuelve a llamar a ${tool} sin confirmToken para obtener uno nuevo`);
+    }
+    // Un solo uso: take() lee y borra en un paso, así que de dos llamadas concurrentes con el
+    // mismo token solo una lo recibe (las comprobaciones previas no lo consumen si no coincide)
+    if (!(await this.store.take<PendingConfirmation>(key))) {
+      throw invalidToken(tool);
+    }
+    console.log(`✋ [Confirmations] ${tool} confirmada por ${context.viewer.sub} (confirmToken)`);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * 📝 create_note - Crea una nota del usuario
+ */
+
+import { textResult, ToolDefinition } from './registry.js';
+
+export const createNoteTool: ToolDefinition = {
+  name: "create_note",
+  description: "Create a new note",
+  inputSchema: {
+    type: "object",
+    properties: {
+      title: {
+        type: "string",
+        description: "Title of the note",
+        minLength: 1,
+      },
+      content: {
+        type: "string",
+        description: "Text content of the note",
+        minLength: 1,
+      },
+      shared: {
+        type: "boolean",
+        description: "Share the note with every authenticated user (default: false)",
+      },
+      sharedWithGroups: {
+        type: "array",
+        description: "IAS groups whose members can read the note",
+        items: {
+          type: "string",
+        },
+      },
+    },
+    required: ["title", "content"],
+  },
+  annotations: { title: "Create note", readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: false },
+  permissions: ["notes:write"],
+  handler: async (args, { notesStore, viewer }) => {
+    const title = args.title as string;
+    const content = args.content as string;
+    const shared = args.shared as boolean | undefined;
+    const sharedWithGroups = args.sharedWithGroups as string[] | undefined;
+    const note = await notesStore.create({ title, content, shared, sharedWithGroups }, viewer);
+
+    return textResult(`Created note ${note.id}: ${title}`);
+  },
+};
@@ -0,0 +1,38 @@
+/**
+ * 🗑️ delete_note - Elimina una nota propia
+ */
+
+import { NoteAccessError } from '../notes-store.js';
+import { textResult, ToolDefinition, ToolError } from './registry.js';
+
+export const deleteNoteTool: ToolDefinition = {
+  name: "delete_note",
+  description: "Delete a note you own",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "ID of the note to delete",
+      },
+    },
+    required: ["id"],
+  },
+  annotations: { title: "Delete note", readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  permissions: ["notes:write"],
+  handler: async (args, { notesStore, viewer }) => {
+    const id = args.id as string;
+
+    let deleted: boolean;
+    try {
+      deleted = await notesStore.delete(id, viewer);
+    } catch (error) {
+      throw error instanceof NoteAccessError ? new ToolError(error.message) : error;
+    }
+
+    if (!deleted) {
+      throw new ToolError(`Note ${id} not found`);
+    }
+    return textResult(`Deleted note ${id}`);
+  },
+};
@@ -0,0 +1,112 @@
+/**
+ * 🔁 Claves de idempotencia para las herramientas de escritura
+ *
+ * Si un cliente o un proxy reintenta un POST /mcp que agotó su tiempo, la misma
+ * herramienta se ejecutaría dos veces (dos órdenes, stock descontado dos veces).
+ * Las herramientas que no son de solo lectura aceptan `idempotencyKey`; sin ella
+ * la clave es la sesión MCP más el id de la petición JSON-RPC, que un reintento
+ * del mismo mensaje conserva.
+ *
+ * El resultado se guarda en el session store durante IDEMPOTENCY_TTL_SECONDS:
+ * repetir la llamada con la misma clave devuelve el resultado original sin volver
+ * a ejecutar nada. Mientras la primera llamada sigue en curso, el reintento se
+ * rechaza en lugar de ejecutarse en paralelo.
+ */
+
+import { createHash } from 'node:crypto';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { SessionStore } from '../storage/session-store.js';
+
+export const IDEMPOTENCY_KEY_ARGUMENT = 'idempotencyKey';
+
+/**
+ * Propiedad que se añade al inputSchema de las herramientas de escritura
+ */
+export const IDEMPOTENCY_KEY_PROPERTY = {
+  type: "string",
+  minLength: 1,
+  maxLength: 200,
+  description: "Clave opcional para reintentar sin duplicar: repetir la llamada con la misma clave devuelve el resultado original",
+};
+
+type IdempotencyEntry =
+  | { status: 'pending'; argsHash: string }
+  | { status: 'done'; argsHash: string; result: CallToolResult };
+
+/**
+ * Resultado de reservar una clave: ejecutar, devolver el resultado guardado o rechazar
+ */
+export type IdempotencyClaim =
+  | { kind: 'execute' }
+  | { kind: 'replay'; result: CallToolResult }
+  | { kind: 'conflict'; message: string };
+
+const KEY_PREFIX = 'idempotency:';
+
+// Las llamadas que siguen en curso tras este tiempo se consideran abandonadas
+const PENDING_TTL_MS = 5 * 60 * 1000;
+
+// Reservas seguidas si la clave desaparece justo después de encontrarla ocupada
+const CLAIM_ATTEMPTS = 3;
+
+function hashArguments(args: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(args)).digest('hex');
+}
+
+export class IdempotencyCache {
+  constructor(private store: SessionStore, private ttlSeconds: number) {}
+
+  /**
+   * Clave en el store: por usuario y herramienta, para que dos usuarios con la
+   * misma clave no compartan resultados
+   */
+  storeKey(sub: string, tool: string, key: string): string {
+    return `${KEY_PREFIX}${sub}:${tool}:${key}`;
+  }
+
+  /**
+   * Reserva la clave antes de ejecutar la herramienta. La reserva es atómica
+   * (setIfAbsent): de dos reintentos simultáneos solo uno ejecuta la herramienta.
+   */
+  async claim(storeKey: string, args: Record<string, unknown>): Promise<IdempotencyClaim> {
+    const argsHash = hashArguments(args);
+
+    for (let attempt = 0; attempt < CLAIM_ATTEMPTS; attempt++) {
+      if (await this.store.setIfAbsent<IdempotencyEntry>(storeKey, { status: 'pending', argsHash }, PENDING_TTL_MS)) {
+        return { kind: 'execute' };
+      }
+
+      const entry = await this.store.get<IdempotencyEntry>(storeKey);
+      if (!entry) {
+        // Liberada o caducada entre la reserva y la lectura: se vuelve a intentar
+        continue;
+      }
+      if (entry.argsHash !== argsHash) {
+        return { kind: 'conflict', message: '❌ Esta idempotencyKey ya se usó con otros argumentos: usa una clave nueva' };
+      }
+      if (entry.status === 'done') {
+        return { kind: 'replay', result: entry.result };
+      }
+      break;
+    }
+    return { kind: 'conflict', message: '⏳ La llamada original con esta idempotencyKey sigue en curso: reintenta en unos segundos' };
+  }
+
+  /**
+   * Guarda el resultado para que los reintentos lo reciban
+   */
+  async complete(storeKey: string, args: Record<string, unknown>, result: CallToolResult): Promise<void> {
+    await this.store.set<IdempotencyEntry>(
+      storeKey,
+      { status: 'done', argsHash: hashArguments(args), result },
+      this.ttlSeconds * 1000
+    );
+  }
+
+  /**
+   * Libera la clave si la llamada falló o no ejecutó nada, para poder reintentarla
+   */
+  async release(storeKey: string): Promise<void> {
+    await this.store.delete(storeKey);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * 🧰 Herramientas integradas del servidor MCP
+ *
+ * Para añadir una herramienta: crear su módulo en este directorio y añadirla a
+ * la lista. ListTools y CallTool la recogen del registro automáticamente.
+ */
+
+import { capCreateOrderTool } from './cap-create-order.js';
+import { capListCustomersTool } from './cap-list-customers.js';
+import { capListOrdersTool } from './cap-list-orders.js';
+import { capListProductsTool } from './cap-list-products.js';
+import { capQueryTool } from './cap-query.js';
+import { capQuoteOrderTool } from './cap-quote-order.js';
+import { capUpdateOrderStatusTool } from './cap-update-order-status.js';
+import { createNoteTool } from './create-note.js';
+import { deleteNoteTool } from './delete-note.js';
+import { listNotesTool } from './list-notes.js';
+import { ToolDefinition } from './registry.js';
+import { searchNotesTool } from './search-notes.js';
+import { updateNoteTool } from './update-note.js';
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  createNoteTool,
+  updateNoteTool,
+  deleteNoteTool,
+  listNotesTool,
+  searchNotesTool,
+  capListProductsTool,
+  capListOrdersTool,
+  capListCustomersTool,
+  capQuoteOrderTool,
+  capCreateOrderTool,
+  capUpdateOrderStatusTool,
+  capQueryTool,
+];
+
+export { ToolRegistry, ToolError, textResult, structuredResult } from './registry.js';
+export type { ToolCallEvent, ToolContext, ToolDefinition, ToolProvider, TouchedEntity } from './registry.js';
@@ -0,0 +1,135 @@
+/**
+ * 📊 Formatos de salida de las herramientas de listado
+ *
+ * Todas las herramientas que devuelven listas (productos, órdenes, clientes,
+ * notas) comparten los argumentos `format`, `columns`, `sortBy` y `sortDirection`:
+ * - text: el listado legible de cada herramienta (por defecto)
+ * - markdown: tabla markdown
+ * - csv: CSV con cabecera, para pegar en una hoja de cálculo
+ * - json: JSON compacto con las columnas elegidas, para otra herramienta
+ */
+
+export const LIST_FORMATS = ['text', 'markdown', 'csv', 'json'] as const;
+export type ListFormat = typeof LIST_FORMATS[number];
+
+/**
+ * Cómo se presenta una lista: columnas disponibles y listado de texto
+ */
+export interface ListView<T> {
+  columns: Record<string, (item: T) => unknown>;   // Columnas disponibles, en orden
+  defaultColumns?: string[];                        // Columnas de tabla y CSV si no se eligen (default: todas)
+  text: (item: T) => string;                        // Cada elemento en formato text
+  header: (count: number) => string;                // Cabecera de text y markdown
+  empty: string;                                    // Texto si no hay elementos
+}
+
+/**
+ * Propiedades del inputSchema para elegir formato, columnas y orden
+ */
+export function listFormatProperties<T>(view: ListView<T>): Record<string, any> {
+  const columns = Object.keys(view.columns);
+  return {
+    format: {
+      type: "string",
+      enum: [...LIST_FORMATS],
+      description: "Formato de salida: text (por defecto), markdown (tabla), csv o json",
+    },
+    columns: {
+      type: "array",
+      description: `Columnas a mostrar en markdown, csv, json o text (por defecto: ${(view.defaultColumns ?? columns).join(", ")})`,
+      items: { type: "string", enum: columns },
+      minItems: 1,
+    },
+    sortBy: {
+      type: "string",
+      enum: columns,
+      description: "Columna por la que ordenar",
+    },
+    sortDirection: {
+      type: "string",
+      enum: ["asc", "desc"],
+      description: "Sentido del orden (por defecto asc)",
+    },
+  };
+}
+
+function compareValues(a: unknown, b: unknown, direction: 1 | -1): number {
+  if (a === b) {
+    return 0;
+  }
+  // Los vacíos van siempre al final, también en orden descendente
+  if (a === undefined || a === null || a === '') {
+    return 1;
+  }
+  if (b === undefined || b === null || b === '') {
+    return -1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return direction * (a - b);
+  }
+  return direction * String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function cellText(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(cellText).join(', ');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function markdownCell(value: unknown): string {
+  return cellText(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+function csvCell(value: unknown): string {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Ordena y presenta una lista según los argumentos de la llamada.
+ * Devuelve el texto y los elementos ya ordenados (para el structuredContent).
+ */
+export function formatList<T>(items: T[], args: Record<string, any>, view: ListView<T>): { text: string; items: T[] } {
+  const format: ListFormat = args.format ?? 'text';
+  const sortBy: string | undefined = args.sortBy;
+  const direction: 1 | -1 = args.sortDirection === 'desc' ? -1 : 1;
+
+  const sorted = sortBy
+    ? [...items].sort((a, b) => compareValues(view.columns[sortBy](a), view.columns[sortBy](b), direction))
+    : items;
+
+  const selected: string[] | undefined = args.columns;
+  const columns = selected ?? (format === 'json' ? Object.keys(view.columns) : view.defaultColumns ?? Object.keys(view.columns));
+  const rows = sorted.map((item) => columns.map((column) => view.columns[column](item)));
+
+  let text: string;
+  switch (format) {
+    case 'json':
+      text = JSON.stringify(rows.map((row) => Object.fromEntries(columns.map((column, i) => [column, row[i] ?? null]))));
+      break;
+    case 'csv':
+      text = [columns, ...rows].map((row) => row.map(csvCell).join(',')).join('\n');
+      break;
+    case 'markdown': {
+      const table = [
+        `| ${columns.join(' | ')} |`,
+        `| ${columns.map(() => '---').join(' | ')} |`,
+        ...rows.map((row) => `| ${row.map(markdownCell).join(' | ')} |`),
+      ].join('\n');
+      text = `${view.header(sorted.length)}\n\n${sorted.length > 0 ? table : view.empty}`;
+      break;
+    }
+    default: {
+      const lines = selected
+        ? rows.map((row) => `- ${columns.map((column, i) => `${column}: ${cellText(row[i])}`).join(' | ')}`)
+        : sorted.map(view.text);
+      text = `${view.header(sorted.length)}\n\n${lines.join(selected ? '\n' : '\n\n') || view.empty}`;
+    }
+  }
+
+  return { text, items: sorted };
+}
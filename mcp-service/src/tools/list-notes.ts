@@ -0,0 +1,24 @@
+/**
+ * 📒 list_notes - Lista las notas visibles para el usuario
+ */
+
+import { formatList, listFormatProperties } from './list-format.js';
+import { NOTE_LIST_VIEW } from './note-formatting.js';
+import { textResult, ToolDefinition } from './registry.js';
+
+export const listNotesTool: ToolDefinition = {
+  name: "list_notes",
+  description: "List the notes you own or that are shared with you",
+  inputSchema: {
+    type: "object",
+    properties: {
+      ...listFormatProperties(NOTE_LIST_VIEW),
+    },
+  },
+  annotations: { title: "List notes", readOnlyHint: true, openWorldHint: false },
+  permissions: ["notes:read"],
+  handler: async (args, { notesStore, viewer }) => {
+    const notes = await notesStore.list(viewer);
+    return textResult(formatList(notes, args, NOTE_LIST_VIEW).text);
+  },
+};
@@ -0,0 +1,45 @@
+/**
+ * Presentación de notas en las respuestas de las herramientas
+ */
+
+import { Note } from '../notes-store.js';
+import { ListView } from './list-format.js';
+
+/**
+ * Describe con quién está compartida una nota
+ */
+export function describeSharing(note: Note): string {
+  if (note.shared) {
+    return "everyone";
+  }
+  if (note.sharedWithGroups.length > 0) {
+    return `groups ${note.sharedWithGroups.join(", ")}`;
+  }
+  return "private";
+}
+
+/**
+ * Formatea una nota para las herramientas de listado y búsqueda
+ */
+export function formatNote(note: Note): string {
+  return `- ${note.title} (ID: ${note.id})\n  Owner: ${note.owner} | Shared with: ${describeSharing(note)}\n  Created: ${note.createdAt} | Modified: ${note.updatedAt}\n  ${note.content}`;
+}
+
+/**
+ * Columnas y listado de texto de list_notes (search_notes cambia cabecera y texto vacío)
+ */
+export const NOTE_LIST_VIEW: ListView<Note> = {
+  columns: {
+    id: (note) => note.id,
+    title: (note) => note.title,
+    owner: (note) => note.owner,
+    sharedWith: describeSharing,
+    createdAt: (note) => note.createdAt,
+    updatedAt: (note) => note.updatedAt,
+    content: (note) => note.content,
+  },
+  defaultColumns: ["title", "owner", "sharedWith", "updatedAt", "id"],
+  text: formatNote,
+  header: (count) => `Found ${count} notes`,
+  empty: "No notes yet",
+};
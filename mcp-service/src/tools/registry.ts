@@ -0,0 +1,380 @@
+/**
+ * 🧰 Registro de herramientas MCP
+ *
+ * Cada herramienta vive en su propio módulo con su schema, handler, anotaciones
+ * y permisos requeridos. Los handlers de ListTools y CallTool se construyen a
+ * partir del registro, que centraliza el manejo de errores y el logging.
+ */
+
+import { CallToolResult, Tool, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { CAPClient } from '../cap-integration.js';
+import { CapUnavailableError } from '../cap-resilience.js';
+import { NotesStore, NoteViewer } from '../notes-store.js';
+import { ResourceSubscriptions } from '../resource-subscriptions.js';
+import { IASTokenPayload } from '../auth/ias-auth.js';
+import { ArgumentProblem, invalidArgumentsMessage, validateArguments } from './validation.js';
+import { Confirmations, Elicit } from './confirmation.js';
+import { IDEMPOTENCY_KEY_ARGUMENT, IDEMPOTENCY_KEY_PROPERTY, IdempotencyCache } from './idempotency.js';
+
+/**
+ * Entidad CAP leída o modificada por una llamada
+ */
+export interface TouchedEntity {
+  entitySet: string;
+  id: string;
+}
+
+/**
+ * Dependencias y datos de la llamada disponibles para los handlers
+ */
+export interface ToolContext {
+  sessionId?: string;
+  requestId?: string | number;           // Id JSON-RPC de tools/call
+  authInfo?: AuthInfo;
+  user?: IASTokenPayload;
+  viewer: NoteViewer;
+  capClient: CAPClient;
+  notesStore: NotesStore;
+  resourceSubscriptions: ResourceSubscriptions;
+  entities: TouchedEntity[];             // Los handlers añaden las entidades CAP que tocan (auditoría)
+  confirmations: Confirmations;
+  elicit?: Elicit;                       // Solo si el cliente soporta elicitation
+  deferred?: boolean;                    // El handler no ejecutó nada y espera otra llamada (p. ej. confirmación)
+}
+
+/**
+ * Definición de una herramienta
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Tool['inputSchema'];
+  outputSchema?: Tool['outputSchema'];  // Forma del structuredContent que devuelve el handler
+  annotations?: ToolAnnotations;
+  permissions: string[];                 // Permisos que debe tener el usuario para verla y llamarla
+  errorMessage?: string;                 // Prefijo de los errores inesperados (default: "Error en <name>")
+  resources?: (args: Record<string, any>) => string[];  // URIs que lee la llamada; se autorizan como resources/read
+  handler: (args: Record<string, any>, context: ToolContext) => Promise<CallToolResult>;
+}
+
+/**
+ * Fuente de herramientas dinámicas (generadas desde $metadata, declarativas...)
+ */
+export interface ToolProvider {
+  tools(context: ToolContext): Promise<ToolDefinition[]>;
+}
+
+/**
+ * Error esperado de una herramienta: se devuelve al cliente tal cual, con isError
+ */
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+/**
+ * Decide si el usuario de la llamada puede usar la herramienta
+ */
+export type ToolAuthorizer = (tool: ToolDefinition, context: ToolContext) => boolean;
+
+/**
+ * Decide si el usuario puede leer un recurso al que accede una herramienta
+ */
+export type ResourceAuthorizer = (uri: string, context: ToolContext) => boolean;
+
+/**
+ * Resultado de una llamada, para auditoría
+ */
+export interface ToolCallEvent {
+  tool: string;
+  args: Record<string, any>;
+  context: ToolContext;
+  outcome: 'success' | 'error' | 'denied' | 'invalid_arguments' | 'unknown_tool' | 'replayed';
+  error?: string;
+  durationMs: number;
+}
+
+export type ToolCallListener = (event: ToolCallEvent) => void;
+
+/**
+ * Resultado de texto de una herramienta
+ */
+export function textResult(text: string, isError = false): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text,
+      },
+    ],
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+/**
+ * Resultado con texto legible y structuredContent (que debe cumplir el outputSchema)
+ */
+export function structuredResult(text: string, structuredContent: Record<string, unknown>): CallToolResult {
+  return {
+    ...textResult(text),
+    structuredContent,
+  };
+}
+
+/**
+ * Las herramientas que no se declaran de solo lectura aceptan idempotencyKey
+ */
+function isWriteTool(tool: ToolDefinition): boolean {
+  return tool.annotations?.readOnlyHint !== true;
+}
+
+export class ToolRegistry {
+  private builtin = new Map<string, ToolDefinition>();
+  private providers: ToolProvider[] = [];
+  private authorizer: ToolAuthorizer = () => true;
+  private resourceAuthorizer: ResourceAuthorizer = () => true;
+  private callListeners: ToolCallListener[] = [];
+  private idempotency?: IdempotencyCache;
+
+  register(...tools: ToolDefinition[]): this {
+    for (const tool of tools) {
+      if (this.builtin.has(tool.name)) {
+        throw new Error(`Tool ${tool.name} is already registered`);
+      }
+      this.builtin.set(tool.name, tool);
+    }
+    return this;
+  }
+
+  addProvider(provider: ToolProvider): this {
+    this.providers.push(provider);
+    return this;
+  }
+
+  setAuthorizer(authorizer: ToolAuthorizer): void {
+    this.authorizer = authorizer;
+  }
+
+  /**
+   * Comprueba los recursos que declara leer cada llamada (p. ej. el entity set de
+   * cap_query), con las mismas reglas que resources/read
+   */
+  setResourceAuthorizer(authorizer: ResourceAuthorizer): void {
+    this.resourceAuthorizer = authorizer;
+  }
+
+  /**
+   * Activa las claves de idempotencia en las herramientas de escritura
+   */
+  setIdempotencyCache(cache: IdempotencyCache): void {
+    this.idempotency = cache;
+  }
+
+  /**
+   * Se llama al terminar cada tools/call (también si se deniega o la herramienta no existe)
+   */
+  onCall(listener: ToolCallListener): void {
+    this.callListeners.push(listener);
+  }
+
+  /**
+   * Nombres de las herramientas integradas (registradas con register)
+   */
+  names(): string[] {
+    return [...this.builtin.keys()];
+  }
+
+  /**
+   * Todas las herramientas que el usuario de la llamada puede usar.
+   * Las integradas tienen prioridad si un proveedor repite un nombre.
+   */
+  async available(context: ToolContext): Promise<ToolDefinition[]> {
+    const tools = new Map(this.builtin);
+    for (const provider of this.providers) {
+      for (const tool of await provider.tools(context)) {
+        if (!tools.has(tool.name)) {
+          tools.set(tool.name, tool);
+        }
+      }
+    }
+    return [...tools.values()].filter((tool) => this.authorizer(tool, context));
+  }
+
+  /**
+   * Respuesta de tools/list
+   */
+  async list(context: ToolContext): Promise<Tool[]> {
+    return (await this.available(context)).map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: this.inputSchemaOf(tool),
+      ...(tool.outputSchema ? { outputSchema: tool.outputSchema } : {}),
+      ...(tool.annotations ? { annotations: tool.annotations } : {}),
+    }));
+  }
+
+  /**
+   * inputSchema publicado: el de la herramienta más idempotencyKey si es de escritura
+   */
+  private inputSchemaOf(tool: ToolDefinition): Tool['inputSchema'] {
+    if (!this.idempotency || !isWriteTool(tool)) {
+      return tool.inputSchema;
+    }
+    return {
+      ...tool.inputSchema,
+      properties: { ...tool.inputSchema.properties, [IDEMPOTENCY_KEY_ARGUMENT]: IDEMPOTENCY_KEY_PROPERTY },
+    };
+  }
+
+  /**
+   * Ejecuta una herramienta. Los argumentos se validan contra su inputSchema antes
+   * de llamar al handler; si no lo cumplen se devuelve un resultado con isError y
+   * los problemas por campo. Los errores del handler se devuelven
+   * como resultado con isError: ToolError y CapUnavailableError con su mensaje tal
+   * cual y el resto con el prefijo de la herramienta.
+   *
+   * En las herramientas de escritura, una llamada repetida con la misma clave de
+   * idempotencia (idempotencyKey, o sesión + id de la petición) devuelve el
+   * resultado guardado de la primera sin volver a ejecutar el handler.
+   */
+  async call(name: string, args: Record<string, any>, context: ToolContext): Promise<CallToolResult> {
+    const startedAt = Date.now();
+    const emit = (outcome: ToolCallEvent['outcome'], error?: string) => {
+      for (const listener of this.callListeners) {
+        listener({ tool: name, args, context, outcome, error, durationMs: Date.now() - startedAt });
+      }
+    };
+
+    const tool = this.builtin.get(name) ?? (await this.findDynamic(name, context));
+    if (!tool) {
+      console.warn(`[Tools] ${context.viewer.sub} llamó a una herramienta desconocida: ${name}`);
+      emit('unknown_tool', `Unknown tool: ${name}`);
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    if (!this.authorizer(tool, context)) {
+      console.warn(`[Tools] ${context.viewer.sub} no tiene permiso para ${name} (requiere ${tool.permissions.join(', ')})`);
+      emit('denied');
+      return textResult(`⛔ No tienes permiso para usar ${name}`, true);
+    }
+
+    let problems: ArgumentProblem[];
+    try {
+      problems = validateArguments(this.inputSchemaOf(tool), args);
+    } catch (error: any) {
+      // Schema mal definido (p. ej. un pattern que no compila): error de la herramienta, no rechazo sin manejar
+      console.error(`[Tools] ${name}: no se pudo validar el inputSchema: ${error.message}`);
+      emit('error', error.message);
+      return textResult(`❌ ${tool.errorMessage ?? `Error en ${name}`}: inputSchema inválido (${error.message})`, true);
+    }
+    if (problems.length > 0) {
+      console.warn(`[Tools] ${name}: argumentos inválidos (${problems.map((p) => p.path || 'arguments').join(', ')})`);
+      const message = invalidArgumentsMessage(name, problems);
+      emit('invalid_arguments', message);
+      return textResult(message, true);
+    }
+
+    const deniedResource = tool.resources?.(args).find((uri) => !this.resourceAuthorizer(uri, context));
+    if (deniedResource) {
+      console.warn(`[Tools] ${context.viewer.sub} no tiene permiso para leer ${deniedResource} con ${name}`);
+      emit('denied');
+      return textResult(`⛔ No tienes permiso para leer ${deniedResource} con ${name}`, true);
+    }
+
+    const { [IDEMPOTENCY_KEY_ARGUMENT]: explicitKey, ...toolArgs } = args;
+    const idempotencyKey = this.idempotency && isWriteTool(tool)
+      ? explicitKey ?? (context.sessionId && context.requestId !== undefined ? `${context.sessionId}:${context.requestId}` : undefined)
+      : undefined;
+    const storeKey = idempotencyKey !== undefined
+      ? this.idempotency!.storeKey(context.viewer.sub, name, String(idempotencyKey))
+      : undefined;
+
+    console.log(`🛠️ [Tools] ${name} (sesión ${context.sessionId}, usuario ${context.viewer.sub})`);
+    try {
+      if (storeKey) {
+        const claim = await this.idempotency!.claim(storeKey, toolArgs);
+        if (claim.kind === 'replay') {
+          console.log(`🔁 [Tools] ${name}: clave de idempotencia repetida, se devuelve el resultado original`);
+          emit('replayed');
+          return claim.result;
+        }
+        if (claim.kind === 'conflict') {
+          console.warn(`[Tools] ${name}: ${claim.message}`);
+          emit('error', claim.message);
+          return textResult(claim.message, true);
+        }
+      }
+
+      const result = await tool.handler(toolArgs, context);
+      if (tool.outputSchema && result.structuredContent && !result.isError) {
+        this.checkOutputSchema(tool, result.structuredContent);
+      }
+      console.log(`🛠️ [Tools] ${name} completada en ${Date.now() - startedAt} ms${result.isError ? ' con error' : ''}`);
+      if (storeKey) {
+        // Solo se guarda lo que tuvo efecto; los errores y las llamadas diferidas se pueden reintentar
+        await this.settleIdempotency(storeKey, toolArgs, result.isError || context.deferred ? undefined : result);
+      }
+      if (result.isError) {
+        const text = result.content.find((item) => item.type === 'text');
+        emit('error', text?.type === 'text' ? text.text : undefined);
+      } else {
+        emit('success');
+      }
+      return result;
+    } catch (error: any) {
+      console.error(`[Tools] ${name} falló en ${Date.now() - startedAt} ms: ${error.message}`);
+      if (storeKey) {
+        await this.settleIdempotency(storeKey, toolArgs, undefined);
+      }
+      emit('error', error.message);
+      if (error instanceof ToolError || error instanceof CapUnavailableError) {
+        return textResult(error.message, true);
+      }
+      return textResult(`❌ ${tool.errorMessage ?? `Error en ${name}`}: ${error.message}`, true);
+    }
+  }
+
+  /**
+   * Avisa si el structuredContent no cumple el outputSchema. La llamada ya se
+   * ejecutó, así que ni la discrepancia ni un schema inválido cambian el resultado.
+   */
+  private checkOutputSchema(tool: ToolDefinition, structuredContent: Record<string, unknown>): void {
+    try {
+      const drift = validateArguments(tool.outputSchema, structuredContent);
+      if (drift.length > 0) {
+        console.warn(`[Tools] ${tool.name}: structuredContent no cumple el outputSchema (${drift.map((p) => `${p.path}: ${p.message}`).join('; ')})`);
+      }
+    } catch (error: any) {
+      console.error(`[Tools] ${tool.name}: no se pudo validar el outputSchema: ${error.message}`);
+    }
+  }
+
+  /**
+   * Guarda el resultado de la clave de idempotencia o la libera (sin resultado).
+   * Un fallo del store no cambia el resultado de la llamada.
+   */
+  private async settleIdempotency(storeKey: string, args: Record<string, any>, result: CallToolResult | undefined): Promise<void> {
+    try {
+      if (result) {
+        await this.idempotency!.complete(storeKey, args, result);
+      } else {
+        await this.idempotency!.release(storeKey);
+      }
+    } catch (error: any) {
+      console.error(`[Tools] No se pudo actualizar la clave de idempotencia ${storeKey}: ${error.message}`);
+    }
+  }
+
+  private async findDynamic(name: string, context: ToolContext): Promise<ToolDefinition | undefined> {
+    for (const provider of this.providers) {
+      const tool = (await provider.tools(context)).find((t) => t.name === name);
+      if (tool) {
+        return tool;
+      }
+    }
+    return undefined;
+  }
+}
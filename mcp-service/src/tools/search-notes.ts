@@ -0,0 +1,34 @@
+/**
+ * 🔍 search_notes - Busca texto en las notas visibles para el usuario
+ */
+
+import { formatList, listFormatProperties } from './list-format.js';
+import { NOTE_LIST_VIEW } from './note-formatting.js';
+import { textResult, ToolDefinition } from './registry.js';
+
+export const searchNotesTool: ToolDefinition = {
+  name: "search_notes",
+  description: "Search the notes visible to you whose title or content contains the given text",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Text to search for (case-insensitive)",
+      },
+      ...listFormatProperties(NOTE_LIST_VIEW),
+    },
+    required: ["query"],
+  },
+  annotations: { title: "Search notes", readOnlyHint: true, openWorldHint: false },
+  permissions: ["notes:read"],
+  handler: async (args, { notesStore, viewer }) => {
+    const query = args.query as string;
+    const notes = await notesStore.search(query, viewer);
+    return textResult(formatList(notes, args, {
+      ...NOTE_LIST_VIEW,
+      header: (count) => `Found ${count} notes matching "${query}"`,
+      empty: "No matching notes",
+    }).text);
+  },
+};
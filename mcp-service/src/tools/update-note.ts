@@ -0,0 +1,58 @@
+/**
+ * ✏️ update_note - Modifica una nota propia
+ */
+
+import { Note, NoteAccessError } from '../notes-store.js';
+import { textResult, ToolDefinition, ToolError } from './registry.js';
+
+export const updateNoteTool: ToolDefinition = {
+  name: "update_note",
+  description: "Update the title, content or sharing of a note you own",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "ID of the note to update",
+      },
+      title: {
+        type: "string",
+        description: "New title of the note",
+      },
+      content: {
+        type: "string",
+        description: "New text content of the note",
+      },
+      shared: {
+        type: "boolean",
+        description: "Share the note with every authenticated user",
+      },
+      sharedWithGroups: {
+        type: "array",
+        description: "Replace the IAS groups whose members can read the note",
+        items: {
+          type: "string",
+        },
+      },
+    },
+    required: ["id"],
+  },
+  annotations: { title: "Update note", readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+  permissions: ["notes:write"],
+  handler: async (args, { notesStore, viewer }) => {
+    const id = args.id as string;
+    const { title, content, shared, sharedWithGroups } = args;
+
+    let note: Note | undefined;
+    try {
+      note = await notesStore.update(id, { title, content, shared, sharedWithGroups }, viewer);
+    } catch (error) {
+      throw error instanceof NoteAccessError ? new ToolError(error.message) : error;
+    }
+
+    if (!note) {
+      throw new ToolError(`Note ${id} not found`);
+    }
+    return textResult(`Updated note ${note.id}: ${note.title}`);
+  },
+};
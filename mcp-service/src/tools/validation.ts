@@ -0,0 +1,196 @@
+/**
+ * ✅ Validación de argumentos contra el inputSchema de cada herramienta
+ *
+ * Implementa el subconjunto de JSON Schema que usan las herramientas (integradas,
+ * declarativas y generadas desde $metadata). Los errores se acumulan por campo
+ * para que el modelo pueda corregir todos los argumentos en un solo intento.
+ */
+
+/**
+ * Problema de validación de un argumento
+ */
+export interface ArgumentProblem {
+  path: string;                 // Ruta del campo (p. ej. "items[0].quantity"); "" es el objeto de argumentos
+  message: string;
+}
+
+/**
+ * Texto del resultado (isError) de una llamada con argumentos que no cumplen el
+ * inputSchema: una línea por campo ("- ruta: problema"), así el modelo lo lee y
+ * corrige la llamada
+ */
+export function invalidArgumentsMessage(tool: string, problems: ArgumentProblem[]): string {
+  return `Argumentos inválidos para ${tool}:\n${problems.map((p) => `- ${p.path || 'arguments'}: ${p.message}`).join('\n')}`;
+}
+
+const FORMAT_PATTERNS: Record<string, { pattern: RegExp; description: string }> = {
+  uuid: { pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, description: 'un UUID' },
+  date: { pattern: /^\d{4}-\d{2}-\d{2}$/, description: 'una fecha YYYY-MM-DD' },
+  time: { pattern: /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/, description: 'una hora HH:MM:SS' },
+  'date-time': { pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/, description: 'una fecha ISO 8601' },
+  email: { pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/, description: 'un email' },
+};
+
+const TYPE_NAMES: Record<string, string> = {
+  string: 'un string',
+  number: 'un número',
+  integer: 'un entero',
+  boolean: 'un booleano',
+  object: 'un objeto',
+  array: 'una lista',
+  null: 'null',
+};
+
+/**
+ * Expresiones de `pattern` ya compiladas (los schemas se validan en cada llamada)
+ */
+const compiledPatterns = new Map<string, RegExp>();
+
+/**
+ * Compila el `pattern` de un schema una sola vez. Un patrón inválido lanza
+ * SyntaxError: es un error de la definición de la herramienta, no del argumento.
+ */
+function compilePattern(pattern: string): RegExp {
+  let regex = compiledPatterns.get(pattern);
+  if (!regex) {
+    regex = new RegExp(pattern);
+    compiledPatterns.set(pattern, regex);
+  }
+  return regex;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+function validateValue(value: unknown, schema: any, path: string, problems: ArgumentProblem[]): void {
+  if (!schema || typeof schema !== 'object') {
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      problems.push({ path, message: `se esperaba ${types.map((type) => (Object.hasOwn(TYPE_NAMES, type) ? TYPE_NAMES[type] : type)).join(' o ')}` });
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    problems.push({ path, message: `debe ser ${JSON.stringify(schema.const)}` });
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    problems.push({ path, message: `debe ser uno de: ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(', ')}` });
+  }
+
+  for (const keyword of ['anyOf', 'oneOf'] as const) {
+    if (Array.isArray(schema[keyword])) {
+      const matches = schema[keyword].filter((option: any) => {
+        const optionProblems: ArgumentProblem[] = [];
+        validateValue(value, option, path, optionProblems);
+        return optionProblems.length === 0;
+      }).length;
+      if (keyword === 'anyOf' ? matches === 0 : matches !== 1) {
+        problems.push({ path, message: `no cumple ${keyword === 'anyOf' ? 'ninguna' : 'exactamente una'} de las alternativas permitidas` });
+      }
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      problems.push({ path, message: schema.minLength === 1 ? 'no puede estar vacío' : `debe tener al menos ${schema.minLength} caracteres` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      problems.push({ path, message: `debe tener como máximo ${schema.maxLength} caracteres` });
+    }
+    if (schema.pattern !== undefined && !compilePattern(schema.pattern).test(value)) {
+      problems.push({ path, message: `debe cumplir el patrón ${schema.pattern}` });
+    }
+    const format = Object.hasOwn(FORMAT_PATTERNS, schema.format) ? FORMAT_PATTERNS[schema.format] : undefined;
+    if (format && !format.pattern.test(value)) {
+      problems.push({ path, message: `se esperaba ${format.description}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      problems.push({ path, message: `debe ser mayor o igual que ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      problems.push({ path, message: `debe ser menor o igual que ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      problems.push({ path, message: `debe ser mayor que ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      problems.push({ path, message: `debe ser menor que ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      problems.push({ path, message: schema.minItems === 1 ? 'no puede estar vacía' : `debe tener al menos ${schema.minItems} elementos` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      problems.push({ path, message: `debe tener como máximo ${schema.maxItems} elementos` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => validateValue(item, schema.items, childPath(path, index), problems));
+    }
+  }
+
+  if (matchesType(value, 'object')) {
+    const object = value as Record<string, unknown>;
+    const properties: Record<string, any> = schema.properties ?? {};
+    for (const name of schema.required ?? []) {
+      if (!Object.hasOwn(object, name) || object[name] === undefined) {
+        problems.push({ path: childPath(path, name), message: 'es obligatorio' });
+      }
+    }
+    for (const [name, item] of Object.entries(object)) {
+      if (item === undefined) {
+        continue;
+      }
+      if (Object.hasOwn(properties, name)) {
+        validateValue(item, properties[name], childPath(path, name), problems);
+      } else if (schema.additionalProperties === false) {
+        problems.push({ path: childPath(path, name), message: 'no es un argumento permitido' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateValue(item, schema.additionalProperties, childPath(path, name), problems);
+      }
+    }
+  }
+}
+
+/**
+ * Valida los argumentos de una llamada y devuelve la lista de problemas (vacía si son válidos)
+ */
+export function validateArguments(schema: unknown, args: Record<string, unknown>): ArgumentProblem[] {
+  const problems: ArgumentProblem[] = [];
+  validateValue(args, schema, '', problems);
+  return problems;
+}
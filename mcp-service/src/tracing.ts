@@ -0,0 +1,173 @@
+/**
+ * 🔭 Trazas distribuidas con OpenTelemetry
+ *
+ * Cada POST /mcp abre un span de servidor; el handler de CallTool y cada petición
+ * HTTP de CAPClient cuelgan de él. El SDK de Node registra el contexto activo
+ * (AsyncLocalStorage) y el propagador W3C: la cabecera `traceparent` se reenvía a
+ * CAP (y se respeta si el cliente MCP la envía), así un fallo en OData se enlaza
+ * con la petición JSON-RPC que lo provocó.
+ *
+ * Exportadores (OTEL_TRACES_EXPORTER):
+ * - otlp:    OTLP/HTTP a OTEL_EXPORTER_OTLP_ENDPOINT (+ /v1/traces), con las
+ *            variables estándar OTEL_EXPORTER_OTLP_*
+ * - console: ConsoleSpanExporter del SDK (desarrollo local)
+ * - file:    JSONL en TRACES_FILE (desarrollo local)
+ * - none:    no se exporta nada (por defecto); traceparent se reenvía igualmente
+ *
+ * Los spans terminados se exportan por lotes (BatchSpanProcessor, variables OTEL_BSP_*).
+ */
+
+import { createHash } from 'node:crypto';
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { Attributes, Span, SpanKind, SpanStatusCode, trace, Tracer } from '@opentelemetry/api';
+import { ExportResult, ExportResultCode, hrTimeToMilliseconds } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { BatchSpanProcessor, ConsoleSpanExporter, ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+
+export interface TracingConfig {
+  serviceName: string;
+  exporter: 'otlp' | 'console' | 'file' | 'none';
+  filePath: string;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: Attributes;
+}
+
+/**
+ * Lee la configuración de entorno (variables estándar de OpenTelemetry más TRACES_FILE)
+ */
+export function loadTracingConfig(env: NodeJS.ProcessEnv = process.env): TracingConfig {
+  const exporter = (env.OTEL_TRACES_EXPORTER || 'none').trim().toLowerCase();
+  if (!['otlp', 'console', 'file', 'none'].includes(exporter)) {
+    throw new Error(`OTEL_TRACES_EXPORTER desconocido: ${exporter} (usar "otlp", "console", "file" o "none")`);
+  }
+  return {
+    serviceName: env.OTEL_SERVICE_NAME || 'mcp-service',
+    exporter: exporter as TracingConfig['exporter'],
+    filePath: env.TRACES_FILE || './data/traces.jsonl',
+  };
+}
+
+/**
+ * Identificador de usuario seudonimizado para los atributos de los spans
+ * (los backends de trazas no deben recibir el sub ni el email)
+ */
+export function hashUserId(sub: string): string {
+  return createHash('sha256').update(sub).digest('hex').slice(0, 16);
+}
+
+/**
+ * Marca el span como fallido con el mensaje del error
+ */
+export function recordError(span: Span, error: any): void {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error?.message ?? String(error) });
+}
+
+/**
+ * Representación compacta de un span para el fichero de desarrollo
+ */
+function toRecord(span: ReadableSpan) {
+  const { traceId, spanId } = span.spanContext();
+  const parentSpanId = span.parentSpanContext?.spanId;
+  return {
+    traceId,
+    spanId,
+    ...(parentSpanId ? { parentSpanId } : {}),
+    name: span.name,
+    kind: SpanKind[span.kind].toLowerCase(),
+    start: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+    durationMs: Math.round(hrTimeToMilliseconds(span.duration) * 1000) / 1000,
+    status: span.status,
+    attributes: span.attributes,
+  };
+}
+
+export class FileSpanExporter implements SpanExporter {
+  private directoryReady?: Promise<string | undefined>;
+
+  constructor(private filePath: string) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    this.directoryReady ??= mkdir(dirname(this.filePath), { recursive: true });
+    this.directoryReady
+      .then(() => appendFile(this.filePath, spans.map((span) => `${JSON.stringify(toRecord(span))}\n`).join(''), 'utf-8'))
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        (error) => resultCallback({ code: ExportResultCode.FAILED, error })
+      );
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+function createExporter(config: TracingConfig): SpanExporter | undefined {
+  switch (config.exporter) {
+    case 'otlp':
+      console.log(`🔭 Trazas: OTLP/HTTP a ${process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318'}`);
+      return new OTLPTraceExporter();
+    case 'console':
+      console.log('🔭 Trazas: consola');
+      return new ConsoleSpanExporter();
+    case 'file':
+      console.log(`🔭 Trazas: fichero ${config.filePath}`);
+      return new FileSpanExporter(config.filePath);
+    default:
+      return undefined;
+  }
+}
+
+let provider: NodeTracerProvider | undefined;
+
+/**
+ * Registra el proveedor de trazas del proceso (contexto, propagador W3C y exportador).
+ * Sin llamarla antes, getTracer() lo hace con la configuración de entorno.
+ */
+export function initTracing(config: TracingConfig = loadTracingConfig(), exporter: SpanExporter | undefined = createExporter(config)): void {
+  if (provider) {
+    throw new Error('El proveedor de trazas ya está registrado');
+  }
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ 'service.name': config.serviceName }),
+    spanProcessors: exporter ? [new BatchSpanProcessor(exporter)] : [],
+  });
+  provider.register();
+}
+
+/**
+ * Tracer del proceso (el proveedor se registra en el primer uso, después de cargar .env)
+ */
+export function getTracer(): Tracer {
+  if (!provider) {
+    initTracing();
+  }
+  return trace.getTracer('mcp-service');
+}
+
+/**
+ * Ejecuta `fn` dentro de un span nuevo, hijo del activo, que termina (con error si lanza) al acabar
+ */
+export function traced<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+  return getTracer().startActiveSpan(name, options, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error: any) {
+      recordError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Exporta los spans pendientes y cierra el exportador (al apagar el proceso)
+ */
+export async function shutdownTracing(): Promise<void> {
+  await provider?.shutdown();
+}
@@ -0,0 +1,75 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { redactArguments } from '../src/audit-log.js';
+import { CAP_DATA, startService, TestService } from './mcp-harness.js';
+
+const ADMIN_API_TOKEN = 'admin-secret';
+
+let service: TestService;
+
+beforeAll(async () => {
+  service = await startService({ ADMIN_API_TOKEN, AUDIT_REDACT_KEYS: 'customerName' });
+});
+
+async function queryAudit(query: string, token = ADMIN_API_TOKEN) {
+  return fetch(`${service.url}/admin/audit?${query}`, { headers: { Authorization: `Bearer ${token}` } });
+}
+
+describe('redactArguments', () => {
+  it('oculta las claves sensibles a cualquier profundidad sin distinguir mayúsculas ni separadores', () => {
+    expect(redactArguments({ user: 'ana', API_KEY: 'k', nested: [{ accessToken: 't', note: 'x' }] })).toEqual({
+      user: 'ana',
+      API_KEY: '[REDACTED]',
+      nested: [{ accessToken: '[REDACTED]', note: 'x' }],
+    });
+    expect(redactArguments({ iban: 'ES00' }, ['IBAN'])).toEqual({ iban: '[REDACTED]' });
+  });
+});
+
+describe('registro de auditoría', () => {
+  it('registra usuario, sesión, argumentos ocultos, resultado y entidades de cada llamada', async () => {
+    const ana = await service.connect('ana', { email: 'ana@example.com' });
+    const bob = await service.connect('bob');
+    const orderId = CAP_DATA.Orders[0].ID as string;
+    await ana.callTool({ name: 'cap_update_order_status', arguments: { orderId, newStatus: 'PROCESSING' } });
+    await ana.callTool({ name: 'cap_create_order', arguments: { customerName: 'Ana', items: [{ productId: 'x', quantity: 1 }] } });
+    await bob.callTool({ name: 'cap_list_products', arguments: {} });
+
+    const response = await queryAudit('user=ana@example.com');
+    expect(response.status).toBe(200);
+    const { count, records } = await response.json();
+    expect(count).toBe(2);
+    // Del más reciente al más antiguo
+    expect(records[0]).toMatchObject({
+      sub: 'ana',
+      email: 'ana@example.com',
+      sessionId: ana.transport?.sessionId,
+      tool: 'cap_create_order',
+      arguments: { customerName: '[REDACTED]' },
+      outcome: 'invalid_arguments',
+    });
+    expect(records[1]).toMatchObject({
+      tool: 'cap_update_order_status',
+      outcome: 'success',
+      entities: [{ entitySet: 'Orders', id: orderId }],
+      durationMs: expect.any(Number),
+    });
+
+    const byTool = await (await queryAudit('tool=cap_list_products&limit=1')).json();
+    expect(byTool.records).toEqual([expect.objectContaining({ sub: 'bob', outcome: 'success' })]);
+
+    const future = new Date(Date.now() + 60_000).toISOString();
+    expect((await (await queryAudit(`from=${future}`)).json()).count).toBe(0);
+  });
+
+  it('exige el token de administración y valida los parámetros', async () => {
+    expect((await fetch(`${service.url}/admin/audit`)).status).toBe(401);
+    expect((await queryAudit('', service.token('ana'))).status).toBe(403);
+
+    const invalid = await queryAudit('from=ayer&limit=0');
+    expect(invalid.status).toBe(400);
+    expect((await invalid.json()).problems).toEqual([
+      'from: se esperaba una fecha ISO 8601',
+      'limit: se esperaba un entero entre 1 y 1000',
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { AuthorizationPolicy, loadAuthorizationPolicy, PolicyError, Principal } from '../src/auth/authorization.js';
+import { capQueryTool } from '../src/tools/cap-query.js';
+import { ToolContext, ToolRegistry } from '../src/tools/registry.js';
+
+const EXAMPLE_POLICY = fileURLToPath(new URL('../config/authz-policy.example.json', import.meta.url));
+
+function principal(groups: string[] = [], scopes: string[] = []): Principal {
+  return { sub: 'ana', groups, scopes };
+}
+
+describe('AuthorizationPolicy', () => {
+  const policy = loadAuthorizationPolicy(EXAMPLE_POLICY);
+
+  it('suma default y los grants por grupo o scope', () => {
+    expect(policy.permissionsOf(principal()).sort()).toEqual(['cap:read', 'notes:read', 'notes:write']);
+    expect(policy.permissionsOf(principal(['OrderManagers']))).toContain('cap:write');
+    expect(policy.permissionsOf(principal([], ['cap.admin']))).toContain('cap:*');
+  });
+
+  it('suma los permisos declarados y los de todas las reglas que coinciden, sin importar el orden', () => {
+    expect(policy.required('tools', 'odata_Customers_delete', ['cap:write']).sort())
+      .toEqual(['cap:admin', 'cap:write', 'customers:read']);
+    expect(policy.required('tools', 'odata_Orders_list', ['cap:read'])).toEqual(['cap:read']);
+  });
+
+  it('una regla no rebaja los permisos declarados', () => {
+    const reordered = AuthorizationPolicy.fromConfig({
+      grants: [{ groups: ['CustomerService'], permissions: ['customers:read', 'cap:read'] }],
+      require: { tools: { 'odata_*_delete': ['cap:admin'], 'odata_Customers_*': ['customers:read'] } },
+    });
+    const agent = principal(['CustomerService']);
+    expect(reordered.canUseTool(agent, 'odata_Customers_list', ['cap:read'])).toBe(true);
+    expect(reordered.canUseTool(agent, 'odata_Customers_update', ['cap:write'])).toBe(false);
+    expect(reordered.canUseTool(agent, 'odata_Customers_delete', ['cap:write'])).toBe(false);
+  });
+
+  it('los delete exigen cap:admin además de cap:write', () => {
+    expect(policy.canUseTool(principal(['OrderManagers']), 'odata_Orders_delete', ['cap:write'])).toBe(false);
+    expect(policy.canUseTool(principal([], ['cap.admin']), 'odata_Orders_delete', ['cap:write'])).toBe(true);
+  });
+
+  it('aplica las reglas y los permisos por defecto de los recursos', () => {
+    expect(policy.canReadResource(principal(), 'cap://customers/C1')).toBe(false);
+    expect(policy.canReadResource(principal(['CustomerService']), 'cap://customers/C1')).toBe(true);
+    expect(policy.canReadResource(principal(), 'note:///n1')).toBe(true);
+  });
+
+  it('sin política se permite todo', () => {
+    expect(AuthorizationPolicy.allowAll().canUseTool(principal(), 'odata_Orders_delete', ['cap:admin'])).toBe(true);
+  });
+
+  it('rechaza una política inválida', () => {
+    expect(() => AuthorizationPolicy.fromConfig({ grants: [{ permissions: ['cap:read'] }] })).toThrow(PolicyError);
+  });
+});
+
+describe('cap_query con la política de ejemplo', () => {
+  const policy = loadAuthorizationPolicy(EXAMPLE_POLICY);
+  const registry = new ToolRegistry().register(capQueryTool);
+  const principalOf = (context: ToolContext) => principal(context.viewer.groups);
+  registry.setAuthorizer((tool, context) => policy.canUseTool(principalOf(context), tool.name, tool.permissions));
+  registry.setResourceAuthorizer((uri, context) => policy.canReadResource(principalOf(context), uri));
+
+  function contextFor(groups: string[], queried: string[]): ToolContext {
+    const capClient = {
+      query: async (entitySet: string) => {
+        queried.push(entitySet);
+        return { value: [] };
+      },
+    };
+    return { viewer: { sub: 'ana', groups }, capClient } as unknown as ToolContext;
+  }
+
+  it('aplica las reglas de cap://customers/* al consultar Customers', async () => {
+    const queried: string[] = [];
+    const denied = await registry.call('cap_query', { entitySet: 'Customers' }, contextFor([], queried));
+    expect(denied.isError).toBe(true);
+    expect(denied.content[0]).toMatchObject({ text: expect.stringContaining('cap://customers/*') });
+    expect(queried).toEqual([]);
+
+    const allowed = await registry.call('cap_query', { entitySet: 'Customers' }, contextFor(['CustomerService'], queried));
+    expect(allowed.isError).toBeUndefined();
+    expect(queried).toEqual(['Customers']);
+  });
+
+  it('las entidades sin reglas propias solo exigen los permisos de la herramienta', async () => {
+    const queried: string[] = [];
+    const result = await registry.call('cap_query', { entitySet: 'Orders', expand: ['items'] }, contextFor([], queried));
+    expect(result.isError).toBeUndefined();
+    expect(queried).toEqual(['Orders']);
+  });
+});
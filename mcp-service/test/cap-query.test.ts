@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { buildODataQuery, QueryValidationError } from '../src/cap-query.js';
+
+function problemsOf(run: () => unknown): string[] {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof QueryValidationError) {
+      return error.problems;
+    }
+    throw error;
+  }
+  return [];
+}
+
+describe('buildODataQuery', () => {
+  it('construye los parámetros de sistema de una consulta válida', () => {
+    expect(buildODataQuery('Products', {
+      filter: { field: 'name', op: 'contains', value: "O'Neil" },
+      orderby: [{ field: 'price', direction: 'desc' }],
+      top: 5,
+    })).toEqual({
+      $count: 'true',
+      $filter: "contains(name,'O''Neil')",
+      $orderby: 'price desc',
+      $top: '5',
+    });
+  });
+
+  it('rechaza como error de validación los nombres heredados de Object', () => {
+    expect(problemsOf(() => buildODataQuery('constructor', {}))[0]).toMatch(/^entitySet: 'constructor' no existe/);
+    expect(problemsOf(() => buildODataQuery('__proto__', {}))[0]).toMatch(/^entitySet: '__proto__' no existe/);
+
+    const problems = problemsOf(() => buildODataQuery('Products', {
+      filter: { field: 'constructor', op: 'eq', value: 1 },
+      select: ['__proto__'],
+      expand: ['toString'],
+      orderby: [{ field: 'hasOwnProperty' }],
+    }));
+    expect(problems).toHaveLength(4);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { CAPClient, CapRequestError } from '../src/cap-integration.js';
+import { CapUnavailableError } from '../src/cap-resilience.js';
+import { quoteOrder } from '../src/tools/cap-quote-order.js';
+
+const PRODUCT_ID = '00000000-0000-4000-8000-000000000001';
+const MISSING_ID = '00000000-0000-4000-8000-000000000099';
+
+/**
+ * CAPClient que solo conoce un producto y falla con `error` para el resto
+ */
+function fakeCapClient(error: Error): CAPClient {
+  return {
+    getProductById: async (id: string) => {
+      if (id === PRODUCT_ID) {
+        return { ID: id, name: 'P1', price: 10, stock: 5, active: true };
+      }
+      throw error;
+    },
+  } as unknown as CAPClient;
+}
+
+describe('quoteOrder', () => {
+  it('marca como no encontrado solo un producto con 404', async () => {
+    const capClient = fakeCapClient(new CapRequestError('Not found', 404));
+    const quote = await quoteOrder(capClient, [
+      { productId: PRODUCT_ID, quantity: 2 },
+      { productId: MISSING_ID, quantity: 1 },
+    ]);
+    expect(quote.total).toBe(20);
+    expect(quote.fulfillable).toBe(false);
+    expect(quote.lines[1]).toEqual({ productId: MISSING_ID, quantity: 1, warning: 'producto no encontrado' });
+  });
+
+  it('propaga los errores de disponibilidad de CAP en lugar de dejar la línea sin precio', async () => {
+    const capClient = fakeCapClient(new CapUnavailableError('GET /Products: HTTP 503'));
+    await expect(quoteOrder(capClient, [{ productId: MISSING_ID, quantity: 1 }])).rejects.toBeInstanceOf(CapUnavailableError);
+  });
+
+  it('propaga los errores HTTP que no son 404', async () => {
+    const capClient = fakeCapClient(new CapRequestError('Internal error', 500));
+    await expect(quoteOrder(capClient, [{ productId: MISSING_ID, quantity: 1 }])).rejects.toThrow('Internal error');
+  });
+});
@@ -0,0 +1,120 @@
+import axios, { AxiosAdapter, AxiosError } from 'axios';
+import { describe, expect, it, vi } from 'vitest';
+import { CapResilience, CapResilienceConfig, CapUnavailableError, CircuitBreaker } from '../src/cap-resilience.js';
+
+const CONFIG: CapResilienceConfig = {
+  timeoutMs: 1000,
+  retries: 1,
+  retryBaseDelayMs: 0,
+  retryMaxDelayMs: 0,
+  breakerThreshold: 2,
+  breakerResetMs: 20,
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Cliente axios cuyo adaptador responde con los estados de `statuses` (200 al agotarse)
+ */
+function fakeClient(resilience: CapResilience, statuses: number[]) {
+  const calls: string[] = [];
+  const adapter: AxiosAdapter = async (config) => {
+    calls.push(`${config.method} ${config.url}`);
+    const status = statuses.shift() ?? 200;
+    const response = { data: {}, status, statusText: String(status), headers: {}, config };
+    if (status >= 400) {
+      throw new AxiosError(`HTTP ${status}`, undefined, config, undefined, response);
+    }
+    return response;
+  };
+  const client = axios.create({ adapter });
+  resilience.install(client);
+  return { client, calls };
+}
+
+describe('CircuitBreaker', () => {
+  it('se abre tras el umbral de fallos seguidos y rechaza al instante', () => {
+    const breaker = new CircuitBreaker(2, 1000);
+    breaker.beforeRequest();
+    breaker.onFailure('HTTP 503');
+    expect(breaker.snapshot().state).toBe('closed');
+    breaker.beforeRequest();
+    breaker.onFailure('HTTP 503');
+    expect(breaker.snapshot().state).toBe('open');
+    expect(() => breaker.beforeRequest()).toThrow(CapUnavailableError);
+  });
+
+  it('deja pasar una sola petición de prueba en half-open', async () => {
+    const breaker = new CircuitBreaker(1, 10);
+    breaker.onFailure('HTTP 503');
+    await wait(15);
+    breaker.beforeRequest();
+    expect(breaker.snapshot().state).toBe('half_open');
+    expect(() => breaker.beforeRequest()).toThrow(CapUnavailableError);
+    breaker.onSuccess();
+    expect(breaker.snapshot().state).toBe('closed');
+    expect(() => breaker.beforeRequest()).not.toThrow();
+  });
+
+  it('vuelve a abrirse si la petición de prueba falla', async () => {
+    const breaker = new CircuitBreaker(1, 10);
+    breaker.onFailure('HTTP 503');
+    await wait(15);
+    breaker.beforeRequest();
+    breaker.onFailure('HTTP 503');
+    expect(breaker.snapshot().state).toBe('open');
+  });
+});
+
+describe('CapResilience', () => {
+  it('reintenta las peticiones idempotentes y no cuenta cada intento', async () => {
+    const resilience = new CapResilience(CONFIG);
+    const { client, calls } = fakeClient(resilience, [503]);
+    await expect(client.get('/Products')).resolves.toMatchObject({ status: 200 });
+    expect(calls).toHaveLength(2);
+    expect(resilience.breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('no reintenta los POST', async () => {
+    const resilience = new CapResilience(CONFIG);
+    const { client, calls } = fakeClient(resilience, [503]);
+    await expect(client.post('/createCompleteOrder', {})).rejects.toBeInstanceOf(CapUnavailableError);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('se recupera cuando falla la petición de prueba reintentada (half-open)', async () => {
+    const resilience = new CapResilience(CONFIG);
+    // Dos peticiones con su reintento abren el circuito; la prueba y su reintento fallan; después CAP responde
+    const { client, calls } = fakeClient(resilience, [503, 503, 503, 503, 503, 503]);
+
+    await expect(client.get('/Products')).rejects.toBeInstanceOf(CapUnavailableError);
+    await expect(client.get('/Products')).rejects.toBeInstanceOf(CapUnavailableError);
+    expect(resilience.breaker.snapshot().state).toBe('open');
+    await expect(client.get('/Products')).rejects.toThrow(/circuito abierto/);
+    expect(calls).toHaveLength(4);
+
+    await wait(CONFIG.breakerResetMs + 5);
+    // La petición de prueba se reintenta (no la rechaza su propio circuito) y vuelve a abrirlo
+    await expect(client.get('/Products')).rejects.toThrow(/GET \/Products: HTTP 503/);
+    expect(calls).toHaveLength(6);
+    expect(resilience.breaker.snapshot().state).toBe('open');
+
+    await wait(CONFIG.breakerResetMs + 5);
+    await expect(client.get('/Products')).resolves.toMatchObject({ status: 200 });
+    expect(resilience.breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('no reintenta una petición normal si el circuito se abrió mientras esperaba', async () => {
+    const resilience = new CapResilience({ ...CONFIG, retryBaseDelayMs: 200, retryMaxDelayMs: 200, breakerResetMs: 10_000 });
+    const { client, calls } = fakeClient(resilience, [503]);
+
+    const request = client.get('/Products');
+    await vi.waitFor(() => expect(calls).toHaveLength(1), { interval: 5 });
+    // Otras peticiones abren el circuito durante el backoff
+    resilience.breaker.onFailure('HTTP 503');
+    resilience.breaker.onFailure('HTTP 503');
+
+    await expect(request).rejects.toThrow(/circuito abierto/);
+    expect(calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,61 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { CAP_DATA, startService, TestService } from './mcp-harness.js';
+
+let service: TestService;
+let client: Client;
+
+beforeAll(async () => {
+  service = await startService({ RESOURCES_PAGE_SIZE: '2' });
+  client = await service.connect('ana');
+});
+
+describe('objetos CAP como recursos MCP', () => {
+  it('pagina notas, productos, órdenes y clientes con el cursor', async () => {
+    const pages: string[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listResources(cursor ? { cursor } : {});
+      pages.push(page.resources.map((resource) => resource.uri));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(pages.every((page) => page.length <= 2)).toBe(true);
+    expect(pages.flat()).toEqual([
+      'note:///1',
+      'note:///2',
+      ...CAP_DATA.Products.map((p) => `cap://products/${p.ID}`),
+      ...CAP_DATA.Orders.map((o) => `cap://orders/${o.ID}`),
+      ...CAP_DATA.Customers.map((c) => `cap://customers/${c.ID}`),
+    ]);
+    // CAP se consulta por páginas con $top/$skip, no entero
+    expect(service.capRequests.map((request) => request.path.split('&$orderby')[0])).toEqual(expect.arrayContaining([
+      '/Products?$top=2&$skip=0',
+      '/Products?$top=2&$skip=2',
+      '/Orders?$top=1&$skip=0',
+    ]));
+  });
+
+  it('publica un resource template por colección', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+      'cap://products/{id}',
+      'cap://orders/{id}',
+      'cap://customers/{id}',
+    ]);
+  });
+
+  it('lee un objeto CAP como JSON', async () => {
+    const order = CAP_DATA.Orders[0];
+    const { contents } = await client.readResource({ uri: `cap://orders/${order.ID}` });
+    expect(contents[0]).toMatchObject({ uri: `cap://orders/${order.ID}`, mimeType: 'application/json' });
+    expect(JSON.parse(contents[0].text as string)).toEqual(order);
+  });
+
+  it('rechaza IDs que no son UUID y colecciones desconocidas sin llamar a CAP', async () => {
+    service.capRequests.length = 0;
+    await expect(client.readResource({ uri: 'cap://products/1)?$top=5' })).rejects.toThrow(/Invalid Products ID/);
+    await expect(client.readResource({ uri: `cap://suppliers/${CAP_DATA.Products[0].ID}` })).rejects.toThrow(/Unknown CAP resource collection/);
+    expect(service.capRequests).toEqual([]);
+  });
+});
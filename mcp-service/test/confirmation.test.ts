@@ -0,0 +1,94 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { MemorySessionStore } from '../src/storage/session-store.js';
+import { confirmGenericWrite, Confirmations } from '../src/tools/confirmation.js';
+import { ToolContext, ToolError } from '../src/tools/registry.js';
+
+const store = new MemorySessionStore();
+const confirmations = new Confirmations({ orderTotalAbove: 1000, statuses: ['CANCELLED'], tokenTtlSeconds: 60 }, store);
+const ARGS = { orderId: 'order-1', newStatus: 'CANCELLED' };
+
+function contextFor(sub: string): ToolContext {
+  return { viewer: { sub, groups: [] }, confirmations } as unknown as ToolContext;
+}
+
+/**
+ * Pide confirmación sin elicitation y devuelve el confirmToken emitido
+ */
+async function issueToken(sub: string = 'ana'): Promise<string> {
+  const outcome = await confirmations.confirm('cap_update_order_status', ARGS, 'Cancelar orden', contextFor(sub));
+  if (outcome.confirmed) {
+    throw new Error('se esperaba un confirmToken');
+  }
+  return (outcome.result.structuredContent as any).confirmationRequired.token;
+}
+
+afterAll(async () => {
+  await store.close();
+});
+
+describe('Confirmations', () => {
+  it('sin elicitation devuelve un token y marca la llamada como diferida', async () => {
+    const context = contextFor('ana');
+    const outcome = await confirmations.confirm('cap_update_order_status', ARGS, 'Cancelar orden', context);
+    expect(outcome.confirmed).toBe(false);
+    expect(context.deferred).toBe(true);
+  });
+
+  it('acepta el token con los mismos argumentos en otro orden, una sola vez', async () => {
+    const token = await issueToken();
+    const sameArgs = { newStatus: 'CANCELLED', orderId: 'order-1', confirmToken: token };
+    await expect(confirmations.confirm('cap_update_order_status', sameArgs, '', contextFor('ana'))).resolves.toEqual({ confirmed: true });
+    await expect(confirmations.confirm('cap_update_order_status', sameArgs, '', contextFor('ana'))).rejects.toThrow(/inválido o caducado/);
+  });
+
+  it('con dos llamadas concurrentes con el mismo token solo una se confirma', async () => {
+    const token = await issueToken();
+    const args = { ...ARGS, confirmToken: token };
+    const outcomes = await Promise.allSettled([
+      confirmations.confirm('cap_update_order_status', args, '', contextFor('ana')),
+      confirmations.confirm('cap_update_order_status', args, '', contextFor('ana')),
+    ]);
+    expect(outcomes.map((outcome) => outcome.status).sort()).toEqual(['fulfilled', 'rejected']);
+  });
+
+  it('rechaza el token de otro usuario', async () => {
+    const token = await issueToken('ana');
+    await expect(confirmations.confirm('cap_update_order_status', { ...ARGS, confirmToken: token }, '', contextFor('luis')))
+      .rejects.toBeInstanceOf(ToolError);
+  });
+
+  it('rechaza el token en otra herramienta', async () => {
+    const token = await issueToken();
+    await expect(confirmations.confirm('cap_create_order', { ...ARGS, confirmToken: token }, '', contextFor('ana')))
+      .rejects.toThrow(/inválido o caducado/);
+  });
+
+  it('rechaza el token con otros argumentos', async () => {
+    const token = await issueToken();
+    await expect(confirmations.confirm('cap_update_order_status', { ...ARGS, orderId: 'order-2', confirmToken: token }, '', contextFor('ana')))
+      .rejects.toThrow(/no coinciden/);
+  });
+
+  it('con elicitation ejecuta solo si el usuario acepta', async () => {
+    const accept = { ...contextFor('ana'), elicit: async () => ({ action: 'accept' as const, content: { confirm: true } }) };
+    await expect(confirmations.confirm('cap_update_order_status', ARGS, 'Cancelar', accept)).resolves.toEqual({ confirmed: true });
+
+    const decline = { ...contextFor('ana'), elicit: async () => ({ action: 'decline' as const }) };
+    await expect(confirmations.confirm('cap_update_order_status', ARGS, 'Cancelar', decline)).rejects.toThrow(/cancelada por el usuario/);
+  });
+});
+
+describe('confirmGenericWrite', () => {
+  const tool = { name: 'odata_Orders_delete', description: 'Elimina un registro de Orders por su clave' };
+
+  it('pide confirmación y, con el token, devuelve los argumentos sin confirmToken', async () => {
+    const first = await confirmGenericWrite(tool, { ID: 'order-1' }, contextFor('ana'));
+    if (first.confirmed) {
+      throw new Error('se esperaba un confirmToken');
+    }
+    const token = (first.result.structuredContent as any).confirmationRequired.token;
+
+    await expect(confirmGenericWrite(tool, { ID: 'order-1', confirmToken: token }, contextFor('ana')))
+      .resolves.toEqual({ confirmed: true, args: { ID: 'order-1' } });
+  });
+});
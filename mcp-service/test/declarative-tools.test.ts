@@ -0,0 +1,132 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { CAPClient } from '../src/cap-integration.js';
+import { ODataQueryOptions, QueryValidationError } from '../src/cap-query.js';
+import { DeclarativeTools } from '../src/declarative-tools.js';
+import { ToolContext, ToolDefinition } from '../src/tools/registry.js';
+
+const ORDERS_BY_STATUS = {
+  name: 'orders_by_status',
+  description: 'Órdenes por estado',
+  inputSchema: {
+    type: 'object',
+    properties: { status: { type: 'string' }, limit: { type: 'integer' } },
+    required: ['status'],
+  },
+  request: {
+    entitySet: 'Orders',
+    filter: { field: 'status', op: 'eq', value: '{{status}}' },
+    top: '{{limit}}',
+  },
+  response: { format: 'text', header: '{{count}} órdenes {{status}}', item: '- {{orderNumber}}', empty: 'Sin órdenes {{status}}' },
+};
+
+const ALL_PRODUCTS = {
+  name: 'all_products',
+  description: 'Todos los productos',
+  inputSchema: { type: 'object', properties: {} },
+  request: { entitySet: 'Products' },
+};
+
+const SEARCH = {
+  name: 'search_products',
+  description: 'Busca productos',
+  inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+  request: { function: 'searchProducts', parameters: { text: '{{text}}' } },
+};
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'declarative-tools-'));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Carga las definiciones desde un fichero temporal
+ */
+async function loadTools(tools: unknown[], existing?: DeclarativeTools): Promise<DeclarativeTools> {
+  const file = join(dir, 'tools.json');
+  await writeFile(file, JSON.stringify({ tools }));
+  const declarative = existing ?? new DeclarativeTools(file, ['cap_query']);
+  await declarative.load();
+  return declarative;
+}
+
+/**
+ * CAPClient que registra las consultas y peticiones y devuelve `rows`
+ */
+function recordingContext(queries: Array<{ entitySet: string; options: ODataQueryOptions }>, paths: string[] = [], rows: unknown[] = []) {
+  const capClient = {
+    query: async (entitySet: string, options: ODataQueryOptions) => {
+      queries.push({ entitySet, options });
+      return { value: rows, count: rows.length };
+    },
+    request: async (_method: string, path: string) => {
+      paths.push(path);
+      return [];
+    },
+  } as unknown as CAPClient;
+  return { capClient, viewer: { sub: 'ana', groups: [] } } as unknown as ToolContext;
+}
+
+async function toolNamed(declarative: DeclarativeTools, name: string): Promise<ToolDefinition> {
+  return (await declarative.tools()).find((tool) => tool.name === name)!;
+}
+
+describe('DeclarativeTools', () => {
+  it('sin top aplica el mismo límite por defecto que cap_query', async () => {
+    const declarative = await loadTools([ALL_PRODUCTS, ORDERS_BY_STATUS]);
+    const queries: Array<{ entitySet: string; options: ODataQueryOptions }> = [];
+
+    await (await toolNamed(declarative, 'all_products')).handler({}, recordingContext(queries));
+    await (await toolNamed(declarative, 'orders_by_status')).handler({ status: 'PENDING' }, recordingContext(queries));
+    expect(queries.map((q) => q.options.top)).toEqual([50, 50]);
+  });
+
+  it('usa el top del argumento y rechaza valores fuera de rango o no enteros', async () => {
+    const tool = await toolNamed(await loadTools([ORDERS_BY_STATUS]), 'orders_by_status');
+    const queries: Array<{ entitySet: string; options: ODataQueryOptions }> = [];
+
+    await tool.handler({ status: 'PENDING', limit: 5 }, recordingContext(queries));
+    expect(queries[0].options).toMatchObject({ top: 5, filter: { field: 'status', op: 'eq', value: 'PENDING' } });
+
+    for (const limit of [0, 5000, 2.5, 'x']) {
+      await expect(tool.handler({ status: 'PENDING', limit }, recordingContext(queries))).rejects.toBeInstanceOf(QueryValidationError);
+    }
+    expect(queries).toHaveLength(1);
+  });
+
+  it('rechaza el fichero si top fijo supera el máximo y conserva las herramientas anteriores', async () => {
+    const declarative = await loadTools([ALL_PRODUCTS]);
+    await loadTools([{ ...ALL_PRODUCTS, request: { entitySet: 'Products', top: 5000 } }], declarative);
+    expect((await declarative.tools()).map((tool) => tool.name)).toEqual(['all_products']);
+  });
+
+  it('presenta la respuesta con las plantillas de texto', async () => {
+    const tool = await toolNamed(await loadTools([ORDERS_BY_STATUS]), 'orders_by_status');
+    const rows = [{ orderNumber: 'ORD-1' }, { orderNumber: 'ORD-2' }];
+
+    const listed = await tool.handler({ status: 'PENDING' }, recordingContext([], [], rows));
+    expect(listed.content).toEqual([{ type: 'text', text: '2 órdenes PENDING\n\n- ORD-1\n- ORD-2' }]);
+    const empty = await tool.handler({ status: 'SHIPPED' }, recordingContext([]));
+    expect(empty.content).toEqual([{ type: 'text', text: 'Sin órdenes SHIPPED' }]);
+  });
+
+  it('codifica los parámetros de las funciones para el path', async () => {
+    const tool = await toolNamed(await loadTools([SEARCH]), 'search_products');
+    const paths: string[] = [];
+    await tool.handler({ text: "50% off & 'más'" }, recordingContext([], paths));
+    expect(paths).toEqual([`/searchProducts(text=${encodeURIComponent("'50% off & ''más'''")})`]);
+  });
+
+  it('no permite redefinir una herramienta integrada', async () => {
+    const declarative = await loadTools([{ ...ALL_PRODUCTS, name: 'cap_query' }]);
+    expect(await declarative.tools()).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import type { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// Redis falso en memoria con la misma API que ioredis
+vi.mock('ioredis', async () => {
+  const { default: RedisMock } = await import('ioredis-mock');
+  return { Redis: RedisMock, default: RedisMock };
+});
+
+const notification = (n: number): JSONRPCMessage => ({ jsonrpc: '2.0', method: 'notifications/message', params: { n } });
+
+/**
+ * createEventStore de un módulo recién cargado con `env` (el log se crea una vez por proceso)
+ */
+async function loadEventStore(env: Record<string, string>) {
+  vi.resetModules();
+  for (const [key, value] of Object.entries(env)) {
+    vi.stubEnv(key, value);
+  }
+  return (await import('../src/storage/event-store.js')).createEventStore;
+}
+
+async function replay(store: EventStore, lastEventId: string) {
+  const sent: Array<[string, unknown]> = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (eventId, message) => {
+      sent.push([eventId, (message as any).params.n]);
+    },
+  });
+  return { streamId, sent };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe.each(['memory', 'redis'])('EventStore (%s)', (backend) => {
+  it('reenvía en orden los eventos posteriores a Last-Event-ID', async () => {
+    const createEventStore = await loadEventStore({ EVENT_STORE: backend, SESSION_STORE_PREFIX: `${backend}-order:` });
+    const store = createEventStore('session-1')!;
+    const ids = [];
+    for (const n of [1, 2, 3]) {
+      ids.push(await store.storeEvent('_GET_stream', notification(n)));
+    }
+    expect(ids).toEqual(['_GET_stream:1', '_GET_stream:2', '_GET_stream:3']);
+
+    await expect(replay(store, ids[0])).resolves.toEqual({
+      streamId: '_GET_stream',
+      sent: [['_GET_stream:2', 2], ['_GET_stream:3', 3]],
+    });
+  });
+
+  it('conserva como máximo EVENT_STORE_MAX_EVENTS eventos por stream', async () => {
+    const createEventStore = await loadEventStore({ EVENT_STORE: backend, EVENT_STORE_MAX_EVENTS: '2', SESSION_STORE_PREFIX: `${backend}-bounded:` });
+    const store = createEventStore('session-1')!;
+    for (const n of [1, 2, 3, 4]) {
+      await store.storeEvent('_GET_stream', notification(n));
+    }
+    expect((await replay(store, '_GET_stream:0')).sent).toEqual([['_GET_stream:3', 3], ['_GET_stream:4', 4]]);
+  });
+
+  it('separa los eventos de cada sesión y rechaza un Last-Event-ID mal formado', async () => {
+    const createEventStore = await loadEventStore({ EVENT_STORE: backend, SESSION_STORE_PREFIX: `${backend}-sessions:` });
+    await createEventStore('session-1')!.storeEvent('stream-a', notification(1));
+    const other = createEventStore('session-2')!;
+
+    expect((await replay(other, 'stream-a:0')).sent).toEqual([]);
+    await expect(replay(other, 'sin-secuencia')).rejects.toThrow('Invalid Last-Event-ID');
+  });
+});
+
+describe('EventStore (none)', () => {
+  it('no crea event store: los streams no son reanudables', async () => {
+    const createEventStore = await loadEventStore({ EVENT_STORE: 'none' });
+    expect(createEventStore('session-1')).toBeUndefined();
+  });
+});
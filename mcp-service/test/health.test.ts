@@ -0,0 +1,96 @@
+import { describe, expect, it, vi } from 'vitest';
+import { HealthChecker, loadHealthCheckOptions } from '../src/health.js';
+import { startService } from './mcp-harness.js';
+
+describe('HealthChecker', () => {
+  it('lee timeout y caché del entorno', () => {
+    expect(loadHealthCheckOptions({})).toEqual({ timeoutMs: 2000, cacheMs: 10_000 });
+    expect(loadHealthCheckOptions({ HEALTH_CHECK_TIMEOUT_MS: '500', HEALTH_CHECK_CACHE_SECONDS: '0' })).toEqual({ timeoutMs: 500, cacheMs: 0 });
+  });
+
+  it('no está listo si una dependencia falla y detalla cada una', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const checker = new HealthChecker({ timeoutMs: 1000, cacheMs: 0 }).register(
+      { name: 'sessionStore', check: async () => 'memory' },
+      { name: 'cap', check: async () => { throw new Error('HTTP 503'); } }
+    );
+
+    const report = await checker.report();
+    expect(report.ready).toBe(false);
+    expect(report.dependencies.sessionStore).toMatchObject({ status: 'up', detail: 'memory', lastSuccessAt: expect.any(String) });
+    expect(report.dependencies.cap).toMatchObject({ status: 'down', lastError: 'HTTP 503', lastErrorAt: expect.any(String) });
+  });
+
+  it('marca como caída una dependencia que no responde dentro del timeout', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const checker = new HealthChecker({ timeoutMs: 20, cacheMs: 0 }).register({
+      name: 'jwks',
+      check: () => new Promise(() => {}),
+    });
+
+    const report = await checker.report();
+    expect(report.dependencies.jwks).toMatchObject({ status: 'down', lastError: 'sin respuesta en 20 ms' });
+  });
+
+  it('conserva el último error al recuperarse y el último éxito al caer', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    let up = false;
+    const checker = new HealthChecker({ timeoutMs: 1000, cacheMs: 0 }).register({
+      name: 'cap',
+      check: async () => {
+        if (!up) {
+          throw new Error('ECONNREFUSED');
+        }
+      },
+    });
+
+    await checker.report();
+    up = true;
+    const recovered = (await checker.report()).dependencies.cap;
+    expect(recovered).toMatchObject({ status: 'up', lastError: 'ECONNREFUSED' });
+    up = false;
+    const down = (await checker.report()).dependencies.cap;
+    expect(down).toMatchObject({ status: 'down', lastSuccessAt: recovered.lastSuccessAt });
+  });
+
+  it('reutiliza el informe en caché y comparte la ronda entre sondas simultáneas', async () => {
+    const check = vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    });
+    const checker = new HealthChecker({ timeoutMs: 1000, cacheMs: 60_000 }).register({ name: 'cap', check });
+
+    const [first, second] = await Promise.all([checker.report(), checker.report()]);
+    expect(second).toBe(first);
+    expect(await checker.report()).toBe(first);
+    expect(check).toHaveBeenCalledTimes(1);
+  });
+
+  it('vuelve a comprobar cuando caduca el caché', async () => {
+    const check = vi.fn(async () => {});
+    const checker = new HealthChecker({ timeoutMs: 1000, cacheMs: 0 }).register({ name: 'cap', check });
+
+    await checker.report();
+    await checker.report();
+    expect(check).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('/ready y /health', () => {
+  it('/ready responde 503 con el estado de cada dependencia y /health sigue en 200', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // El CAP falso no sirve el documento de servicio (GET /): la comprobación de CAP falla
+    const { url } = await startService({ HEALTH_CHECK_CACHE_SECONDS: '0' });
+
+    const ready = await fetch(`${url}/ready`);
+    expect(ready.status).toBe(503);
+    expect(await ready.json()).toMatchObject({ status: 'not_ready', checks: { cap: 'down', sessionStore: 'up', jwks: 'up' } });
+
+    const health = await fetch(`${url}/health`);
+    expect(health.status).toBe(200);
+    const body = await health.json();
+    expect(body.status).toBe('degraded');
+    expect(body.dependencies.cap.lastError).toContain('HTTP 404');
+    expect(body.dependencies.jwks).toMatchObject({ status: 'up', detail: '1 claves de firma' });
+    expect(body.dependencies.sessionStore).toMatchObject({ status: 'up', detail: 'memory' });
+  });
+});
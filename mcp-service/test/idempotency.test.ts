@@ -0,0 +1,59 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { MemorySessionStore } from '../src/storage/session-store.js';
+import { IdempotencyCache } from '../src/tools/idempotency.js';
+
+const RESULT = { content: [{ type: 'text' as const, text: 'orden creada' }] };
+
+describe('IdempotencyCache', () => {
+  const store = new MemorySessionStore();
+  const cache = new IdempotencyCache(store, 60);
+  let n = 0;
+  const newKey = () => cache.storeKey('user-1', 'cap_create_order', `key-${++n}`);
+
+  afterAll(async () => {
+    await store.close();
+  });
+
+  it('solo una de dos reservas simultáneas ejecuta la herramienta', async () => {
+    const key = newKey();
+    const claims = await Promise.all([
+      cache.claim(key, { customerName: 'Ana' }),
+      cache.claim(key, { customerName: 'Ana' }),
+    ]);
+    expect(claims.map((claim) => claim.kind).sort()).toEqual(['conflict', 'execute']);
+  });
+
+  it('devuelve el resultado guardado al repetir la clave', async () => {
+    const key = newKey();
+    expect(await cache.claim(key, { customerName: 'Ana' })).toEqual({ kind: 'execute' });
+    await cache.complete(key, { customerName: 'Ana' }, RESULT);
+    expect(await cache.claim(key, { customerName: 'Ana' })).toEqual({ kind: 'replay', result: RESULT });
+  });
+
+  it('rechaza la misma clave con otros argumentos', async () => {
+    const key = newKey();
+    await cache.claim(key, { customerName: 'Ana' });
+    await cache.complete(key, { customerName: 'Ana' }, RESULT);
+    expect(await cache.claim(key, { customerName: 'Luis' })).toMatchObject({ kind: 'conflict' });
+  });
+
+  it('permite reintentar una clave liberada', async () => {
+    const key = newKey();
+    await cache.claim(key, { customerName: 'Ana' });
+    await cache.release(key);
+    expect(await cache.claim(key, { customerName: 'Ana' })).toEqual({ kind: 'execute' });
+  });
+});
+
+describe('MemorySessionStore.setIfAbsent', () => {
+  it('no sobrescribe una clave vigente pero sí una caducada', async () => {
+    const store = new MemorySessionStore();
+    expect(await store.setIfAbsent('k', 1, 10)).toBe(true);
+    expect(await store.setIfAbsent('k', 2)).toBe(false);
+    expect(await store.get('k')).toBe(1);
+    await new Promise((resolve) => setTimeout(resolve, 15));
+    expect(await store.setIfAbsent('k', 3)).toBe(true);
+    expect(await store.get('k')).toBe(3);
+    await store.close();
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { formatList, listFormatProperties, ListView } from '../src/tools/list-format.js';
+
+interface Row {
+  name: string;
+  price?: number;
+  tags?: string[];
+}
+
+const VIEW: ListView<Row> = {
+  columns: {
+    name: (r) => r.name,
+    price: (r) => r.price,
+    tags: (r) => r.tags,
+  },
+  defaultColumns: ['name', 'price'],
+  text: (r) => `- ${r.name}`,
+  header: (count) => `Filas: ${count}`,
+  empty: 'Sin filas',
+};
+
+const ROWS: Row[] = [
+  { name: 'Té | verde', price: 5, tags: ['a', 'b'] },
+  { name: 'Café, "espresso"', price: 12 },
+  { name: 'Agua' },
+  { name: 'item10', price: 1 },
+  { name: 'item9', price: 1 },
+];
+
+describe('formatList', () => {
+  it('text usa el listado de la vista por defecto y columnas clave: valor si se eligen', () => {
+    expect(formatList(ROWS.slice(0, 2), {}, VIEW).text).toBe('Filas: 2\n\n- Té | verde\n\n- Café, "espresso"');
+    expect(formatList(ROWS.slice(0, 1), { columns: ['name', 'tags'] }, VIEW).text).toBe('Filas: 1\n\n- name: Té | verde | tags: a, b');
+    expect(formatList([], {}, VIEW).text).toBe('Filas: 0\n\nSin filas');
+  });
+
+  it('markdown escapa las barras de las celdas', () => {
+    expect(formatList(ROWS.slice(0, 1), { format: 'markdown' }, VIEW).text).toBe(
+      'Filas: 1\n\n| name | price |\n| --- | --- |\n| Té \\| verde | 5 |'
+    );
+  });
+
+  it('csv entrecomilla las celdas con comas o comillas y deja vacíos los valores ausentes', () => {
+    expect(formatList(ROWS.slice(1, 3), { format: 'csv' }, VIEW).text).toBe('name,price\n"Café, ""espresso""",12\nAgua,');
+  });
+
+  it('json usa todas las columnas por defecto y null para los ausentes', () => {
+    expect(JSON.parse(formatList(ROWS.slice(1, 3), { format: 'json' }, VIEW).text)).toEqual([
+      { name: 'Café, "espresso"', price: 12, tags: null },
+      { name: 'Agua', price: null, tags: null },
+    ]);
+  });
+
+  it('ordena con orden numérico natural y deja los vacíos al final en ambos sentidos', () => {
+    const names = (args: Record<string, unknown>) => formatList(ROWS, args, VIEW).items.map((r) => r.name);
+    expect(names({ sortBy: 'price' })).toEqual(['item10', 'item9', 'Té | verde', 'Café, "espresso"', 'Agua']);
+    expect(names({ sortBy: 'price', sortDirection: 'desc' })[0]).toBe('Café, "espresso"');
+    expect(names({ sortBy: 'name' })).toEqual(['Agua', 'Café, "espresso"', 'item9', 'item10', 'Té | verde']);
+  });
+
+  it('el inputSchema solo admite las columnas de la vista', () => {
+    const properties = listFormatProperties(VIEW);
+    expect(properties.format.enum).toEqual(['text', 'markdown', 'csv', 'json']);
+    expect(properties.columns.items.enum).toEqual(['name', 'price', 'tags']);
+    expect(properties.sortBy.enum).toEqual(['name', 'price', 'tags']);
+  });
+});
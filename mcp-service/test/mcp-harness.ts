@@ -0,0 +1,167 @@
+import { generateKeyPairSync } from 'node:crypto';
+import { mkdtemp } from 'node:fs/promises';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import jwt from 'jsonwebtoken';
+
+/**
+ * 🧪 Servicio MCP completo (src/index.ts) contra un IAS y un CAP falsos
+ *
+ * Cada fichero de test que lo usa arranca su propia instancia (vitest aísla los
+ * módulos por fichero). Los tokens se firman con una clave RSA publicada en el
+ * JWKS del IAS falso; el CAP falso sirve `CAP_DATA` y registra cada petición.
+ */
+
+const ISSUER_PATH = '/ias';
+
+const uuid = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+
+export const CAP_DATA: Record<string, Array<Record<string, unknown>>> = {
+  Products: [1, 2, 3].map((n) => ({ ID: uuid(n), name: `P${n}`, category: 'C', price: 10 * n, stock: 4 * n, active: true })),
+  Orders: [4, 5].map((n) => ({ ID: uuid(n), orderNumber: `ORD-${n}`, customerName: 'Ana', status: 'PENDING', totalAmount: 100 * n, items: [] })),
+  Customers: [{ ID: uuid(6), name: 'Ana', email: 'ana@example.com' }],
+};
+
+export interface CapRequest {
+  method: string;
+  path: string;                       // Relativa al servicio OData, con query
+  authorization?: string;
+  traceparent?: string;
+  body?: unknown;
+}
+
+export interface TestService {
+  url: string;
+  capRequests: CapRequest[];
+  /** Access token de IAS para el usuario `sub` */
+  token(sub: string, claims?: Record<string, unknown>): string;
+  /** Cliente MCP conectado (initialize incluido) con el token del usuario */
+  connect(sub?: string, claims?: Record<string, unknown>): Promise<Client>;
+}
+
+async function listen(server: Server): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => resolve(body));
+  });
+}
+
+function json(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * CAP falso: colecciones, entidad por clave y las acciones de órdenes
+ */
+function fakeCap(capRequests: CapRequest[]): Server {
+  return createServer(async (req, res) => {
+    const raw = await readBody(req);
+    const url = new URL(req.url ?? '/', 'http://cap');
+    const path = url.pathname.replace('/odata/v4/catalog', '');
+    const body = raw ? JSON.parse(raw) : undefined;
+    capRequests.push({ method: req.method ?? 'GET', path: `${path}${url.search}`, authorization: req.headers.authorization, traceparent: req.headers.traceparent as string | undefined, body });
+
+    const byKey = /^\/(\w+)\(([^)]+)\)$/.exec(path);
+    if (byKey) {
+      const entity = CAP_DATA[byKey[1]]?.find((row) => row.ID === byKey[2]);
+      return entity ? json(res, 200, entity) : json(res, 404, { error: { message: 'Not found' } });
+    }
+    const collection = /^\/(\w+)$/.exec(path)?.[1];
+    if (collection && CAP_DATA[collection]) {
+      const skip = Number(url.searchParams.get('$skip') ?? 0);
+      const top = Number(url.searchParams.get('$top') ?? 1000);
+      const rows = CAP_DATA[collection];
+      return json(res, 200, { value: rows.slice(skip, skip + top), ...(url.searchParams.get('$count') ? { '@odata.count': rows.length } : {}) });
+    }
+    if (path === '/createCompleteOrder') {
+      const items = body.items.map((item: any, index: number) => {
+        const product = CAP_DATA.Products.find((row) => row.ID === item.productId)!;
+        const unitPrice = Number(product.price);
+        // Los Decimal llegan como string (IEEE754Compatible)
+        return { ID: uuid(800 + index), quantity: item.quantity, unitPrice: String(unitPrice), subtotal: String(unitPrice * item.quantity), product: { ID: product.ID, name: product.name } };
+      });
+      const total = items.reduce((sum: number, item: any) => sum + Number(item.subtotal), 0);
+      const order = { ID: uuid(900 + CAP_DATA.Orders.length), orderNumber: `ORD-9${CAP_DATA.Orders.length}`, customerName: body.customerName, status: 'PENDING', totalAmount: String(total), items };
+      CAP_DATA.Orders.push(order);
+      return json(res, 200, { orderId: order.ID, orderNumber: order.orderNumber, totalAmount: total });
+    }
+    if (path === '/updateOrderStatus') {
+      const order = CAP_DATA.Orders.find((row) => row.ID === body.orderId);
+      return order ? json(res, 200, Object.assign(order, { status: body.newStatus })) : json(res, 404, { error: { message: 'Order not found' } });
+    }
+    json(res, 404, { error: { message: 'no route' } });
+  });
+}
+
+/**
+ * Arranca el servicio con IAS habilitado; `env` se aplica antes de importar src/index.ts
+ */
+export async function startService(env: Record<string, string> = {}): Promise<TestService> {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwks = { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'test-key', alg: 'RS256', use: 'sig' }] };
+  const ias = createServer((_req, res) => json(res, 200, jwks));
+  const issuer = `${await listen(ias)}${ISSUER_PATH}`;
+
+  const capRequests: CapRequest[] = [];
+  const capUrl = await listen(fakeCap(capRequests));
+
+  const probe = createServer();
+  const port = (await listen(probe)).split(':').pop()!;
+  await new Promise((resolve) => probe.close(resolve));
+
+  const dir = await mkdtemp(join(tmpdir(), 'mcp-service-'));
+  Object.assign(process.env, {
+    PORT: port,
+    IAS_ENABLED: 'true',
+    IAS_ISSUER: issuer,
+    IAS_JWKS_URI: `${issuer}/oauth2/certs`,
+    CAP_SERVICE_URL: capUrl,
+    CAP_POLL_INTERVAL_SECONDS: '0',
+    CAP_RETRIES: '0',
+    NOTES_FILE: join(dir, 'notes.json'),
+    AUDIT_LOG_FILE: join(dir, 'audit.jsonl'),
+    ...env,
+  });
+  await import('../src/index.js');
+
+  const url = `http://127.0.0.1:${port}`;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      if ((await fetch(`${url}/health`)).ok) {
+        break;
+      }
+    } catch (error) {
+      if (attempt > 100) {
+        throw error;
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+
+  const token = (sub: string, claims: Record<string, unknown> = {}) =>
+    jwt.sign({ sub, ...claims }, privateKey, { algorithm: 'RS256', keyid: 'test-key', issuer, expiresIn: '1h' });
+
+  return {
+    url,
+    capRequests,
+    token,
+    async connect(sub = 'ana', claims = {}) {
+      const client = new Client({ name: 'test', version: '1.0.0' });
+      await client.connect(new StreamableHTTPClientTransport(new URL(`${url}/mcp`), {
+        requestInit: { headers: { Authorization: `Bearer ${token(sub, claims)}` } },
+      }));
+      return client;
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { describe, expect, it } from 'vitest';
+import { restoreInitializedSession, standaloneStream } from '../src/mcp-sdk-internals.js';
+
+// Falla al actualizar el SDK si cambian los campos internos que usa la restauración de sesiones
+describe('mcp-sdk-internals', () => {
+  it('restaura una sesión inicializada con los datos del cliente', () => {
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: () => 'session-1' });
+    const capabilities = { elicitation: {} };
+    const clientInfo = { name: 'client', version: '2.0.0' };
+
+    restoreInitializedSession(transport, server, 'session-1', capabilities, clientInfo);
+    expect(transport.sessionId).toBe('session-1');
+    expect(server.getClientCapabilities()).toBe(capabilities);
+    expect(server.getClientVersion()).toBe(clientInfo);
+  });
+
+  it('indica si el stream GET está abierto', () => {
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: () => 'session-1' });
+    expect(standaloneStream(transport)).toEqual({ id: '_GET_stream', open: false });
+  });
+});
@@ -0,0 +1,49 @@
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ResourceListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { startService, TestService } from './mcp-harness.js';
+
+let service: TestService;
+
+beforeAll(async () => {
+  service = await startService();
+});
+
+describe('un Server MCP por sesión', () => {
+  it('cada sesión recibe sus respuestas y notificaciones aunque otras se conecten después', async () => {
+    const ana = await service.connect('ana');
+    const notified = vi.fn();
+    ana.setNotificationHandler(ResourceListChangedNotificationSchema, notified);
+    const bob = await service.connect('bob');
+
+    const [anaTools, bobTools] = await Promise.all([ana.listTools(), bob.listTools()]);
+    expect(anaTools.tools.map((tool) => tool.name)).toContain('create_note');
+    expect(bobTools.tools).toEqual(anaTools.tools);
+
+    await ana.callTool({ name: 'create_note', arguments: { title: 'Ana', content: 'privada' } });
+    await vi.waitFor(() => expect(notified).toHaveBeenCalled());
+  });
+
+  it('terminar una sesión cierra solo su Server y su transport', async () => {
+    const ana = await service.connect('ana');
+    const bob = await service.connect('bob');
+    const bobTransport = bob.transport as StreamableHTTPClientTransport;
+    const bobSessionId = bobTransport.sessionId!;
+
+    await bobTransport.terminateSession();
+    const response = await fetch(`${service.url}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: `Bearer ${service.token('bob')}`,
+        'mcp-session-id': bobSessionId,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.message).toContain('No valid session ID');
+
+    await expect(ana.listTools()).resolves.toMatchObject({ tools: expect.any(Array) });
+  });
+});
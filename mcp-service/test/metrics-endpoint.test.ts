@@ -0,0 +1,61 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { startService, TestService } from './mcp-harness.js';
+
+const METRICS_TOKEN = 'metrics-secret';
+
+let service: TestService;
+
+beforeAll(async () => {
+  service = await startService({ METRICS_TOKEN });
+});
+
+async function scrape(): Promise<string> {
+  const response = await fetch(`${service.url}/metrics`, { headers: { Authorization: `Bearer ${METRICS_TOKEN}` } });
+  expect(response.status).toBe(200);
+  expect(response.headers.get('content-type')).toMatch(/^text\/plain;.*version=0\.0\.4/);
+  return response.text();
+}
+
+describe('GET /metrics', () => {
+  it('exige METRICS_TOKEN como bearer', async () => {
+    for (const headers of [{}, { Authorization: 'Bearer otro' }, { Authorization: `Bearer ${service.token('ana')}` }]) {
+      const response = await fetch(`${service.url}/metrics`, { headers });
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toBe('Bearer realm="metrics"');
+    }
+  });
+
+  it('cuenta llamadas a herramientas, sesiones y peticiones a CAP', async () => {
+    const client = await service.connect('ana');
+    await client.callTool({ name: 'cap_list_products', arguments: {} });
+    await client.callTool({ name: 'cap_update_order_status', arguments: { orderId: 'x', newStatus: 'SHIPPED' } });
+
+    const text = await scrape();
+    expect(text).toContain('mcp_tool_calls_total{tool="cap_list_products",outcome="success"} 1\n');
+    expect(text).toContain('mcp_tool_calls_total{tool="cap_update_order_status",outcome="invalid_arguments"} 1\n');
+    expect(text).toContain('mcp_tool_errors_total{tool="cap_update_order_status",outcome="invalid_arguments"} 1\n');
+    expect(text).toContain('mcp_tool_call_duration_seconds_count{tool="cap_list_products"} 1\n');
+    expect(text).toMatch(/^cap_request_duration_seconds_count\{method="GET",target="Products",status="200"\} [1-9]/m);
+    expect(text).toContain('mcp_sessions_active 1\n');
+    expect(text).toContain('process_cpu_user_seconds_total');
+    await client.close();
+  });
+
+  it('cuenta los tokens rechazados por motivo', async () => {
+    const post = (authorization?: string) => fetch(`${service.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...(authorization ? { Authorization: authorization } : {}) },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+    });
+
+    expect((await post()).status).toBe(401);
+    expect((await post('Bearer no-es-un-jwt')).status).toBe(401);
+    const [header, payload] = service.token('ana').split('.');
+    expect((await post(`Bearer ${header}.${payload}.firma`)).status).toBe(401);
+
+    const text = await scrape();
+    expect(text).toContain('auth_token_verification_failures_total{reason="missing_token"} 1\n');
+    expect(text).toContain('auth_token_verification_failures_total{reason="malformed"} 1\n');
+    expect(text).toContain('auth_token_verification_failures_total{reason="invalid_signature"} 1\n');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { capRequestDuration, mcpSessionsActive, metrics, toolCallsTotal } from '../src/metrics.js';
+
+describe('metrics', () => {
+  it('expone los counters con sus etiquetas escapadas en formato de texto de Prometheus', async () => {
+    toolCallsTotal.inc({ tool: 'cap_query', outcome: 'success' });
+    toolCallsTotal.inc({ tool: 'cap_query', outcome: 'success' });
+    toolCallsTotal.inc({ tool: 'raro"\\\n', outcome: 'error' });
+
+    const text = await metrics.metrics();
+    expect(metrics.contentType).toMatch(/^text\/plain; version=0\.0\.4/);
+    expect(text).toContain('# HELP mcp_tool_calls_total Llamadas a herramientas por resultado\n# TYPE mcp_tool_calls_total counter\n');
+    expect(text).toContain('mcp_tool_calls_total{tool="cap_query",outcome="success"} 2\n');
+    expect(text).toContain('mcp_tool_calls_total{tool="raro\\"\\\\\\n",outcome="error"} 1\n');
+  });
+
+  it('acumula los buckets de los histogramas e incluye +Inf, _sum y _count', async () => {
+    capRequestDuration.observe({ method: 'GET', target: 'Products', status: '200' }, 0.02);
+    capRequestDuration.observe({ method: 'GET', target: 'Products', status: '200' }, 45);
+
+    const lines = (await metrics.metrics()).split('\n').filter((line) => line.includes('target="Products"'));
+    expect(lines).toContain('cap_request_duration_seconds_bucket{le="0.01",method="GET",target="Products",status="200"} 0');
+    expect(lines).toContain('cap_request_duration_seconds_bucket{le="0.025",method="GET",target="Products",status="200"} 1');
+    expect(lines).toContain('cap_request_duration_seconds_bucket{le="30",method="GET",target="Products",status="200"} 1');
+    expect(lines).toContain('cap_request_duration_seconds_bucket{le="+Inf",method="GET",target="Products",status="200"} 2');
+    expect(lines).toContain('cap_request_duration_seconds_sum{method="GET",target="Products",status="200"} 45.02');
+    expect(lines).toContain('cap_request_duration_seconds_count{method="GET",target="Products",status="200"} 2');
+  });
+
+  it('calcula los gauges de sesiones en cada consulta', async () => {
+    let sessions = 3;
+    mcpSessionsActive.collect(() => sessions);
+    expect(await metrics.metrics()).toContain('\nmcp_sessions_active 3\n');
+    sessions = 1;
+    expect(await metrics.metrics()).toContain('\nmcp_sessions_active 1\n');
+  });
+
+  it('incluye las métricas por defecto del proceso', async () => {
+    expect(await metrics.metrics()).toMatch(/^process_cpu_user_seconds_total \d/m);
+  });
+});
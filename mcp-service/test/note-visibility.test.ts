@@ -0,0 +1,61 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { startService, TestService } from './mcp-harness.js';
+
+let service: TestService;
+let ana: Client;
+const uris: Record<string, string> = {};
+
+/**
+ * Títulos de las notas que el cliente ve en resources/list
+ */
+async function visibleNotes(client: Client): Promise<string[]> {
+  const { resources } = await client.listResources();
+  return resources.filter((resource) => resource.uri.startsWith('note:///')).map((resource) => resource.name);
+}
+
+beforeAll(async () => {
+  service = await startService();
+  ana = await service.connect('ana');
+  const notes = {
+    privada: {},
+    ventas: { sharedWithGroups: ['ventas'] },
+    publica: { shared: true },
+  };
+  for (const [title, sharing] of Object.entries(notes)) {
+    const result = await ana.callTool({ name: 'create_note', arguments: { title, content: `contenido ${title}`, ...sharing } });
+    const id = /Created note (\S+):/.exec((result.content as Array<{ text: string }>)[0].text)![1];
+    uris[title] = `note:///${id}`;
+  }
+});
+
+describe('visibilidad de las notas', () => {
+  it('la dueña ve todas sus notas', async () => {
+    expect(await visibleNotes(ana)).toEqual(expect.arrayContaining(['privada', 'ventas', 'publica']));
+  });
+
+  it('otro usuario solo ve las compartidas con todos', async () => {
+    const bob = await service.connect('bob');
+    const titles = await visibleNotes(bob);
+    expect(titles).toContain('publica');
+    expect(titles).not.toContain('privada');
+    expect(titles).not.toContain('ventas');
+    await expect(bob.readResource({ uri: uris.privada })).rejects.toThrow(/not found/);
+    await expect(bob.readResource({ uri: uris.publica })).resolves.toMatchObject({ contents: [{ text: 'contenido publica' }] });
+  });
+
+  it('los miembros de un grupo ven las notas compartidas con ese grupo', async () => {
+    const carol = await service.connect('carol', { groups: ['ventas'] });
+    expect(await visibleNotes(carol)).toEqual(expect.arrayContaining(['ventas', 'publica']));
+    await expect(carol.readResource({ uri: uris.ventas })).resolves.toMatchObject({ contents: [{ text: 'contenido ventas' }] });
+    await expect(carol.readResource({ uri: uris.privada })).rejects.toThrow(/not found/);
+  });
+
+  it('nadie más puede modificar ni borrar una nota ajena', async () => {
+    const bob = await service.connect('bob');
+    const id = uris.publica.replace('note:///', '');
+    const result = await bob.callTool({ name: 'delete_note', arguments: { id } });
+    expect(result.isError).toBe(true);
+    await expect(ana.readResource({ uri: uris.publica })).resolves.toMatchObject({ contents: [{ text: 'contenido publica' }] });
+  });
+});
@@ -0,0 +1,77 @@
+import { mkdir, mkdtemp, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ANONYMOUS_OWNER, NotesLockedError, NotesStore } from '../src/notes-store.js';
+
+const VIEWER = { sub: ANONYMOUS_OWNER, groups: [] };
+
+describe('NotesStore', () => {
+  let dir: string;
+  let filePath: string;
+  const stores: NotesStore[] = [];
+
+  function open(): NotesStore {
+    const store = new NotesStore(filePath);
+    stores.push(store);
+    return store;
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'notes-'));
+    filePath = join(dir, 'notes.json');
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.splice(0).map((store) => store.close()));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('vuelve a intentar la carga después de un fallo', async () => {
+    await writeFile(filePath, '{ no es json', 'utf-8');
+    const store = open();
+    await expect(store.count()).rejects.toThrow(/Error leyendo notas/);
+
+    await writeFile(filePath, JSON.stringify([{ id: 'a', title: 'A', content: 'a' }]), 'utf-8');
+    await expect(store.count()).resolves.toBe(1);
+  });
+
+  it('solo una réplica puede usar el fichero', async () => {
+    await open().create({ title: 'A', content: 'a' }, VIEWER);
+    await expect(open().count()).rejects.toBeInstanceOf(NotesLockedError);
+  });
+
+  it('toma el lock de un proceso que dejó de renovarlo', async () => {
+    await writeFile(`${filePath}.lock`, 'otro-pod:1', 'utf-8');
+    const old = new Date(Date.now() - 60_000);
+    await utimes(`${filePath}.lock`, old, old);
+
+    await expect(open().count()).resolves.toBe(2);
+  });
+
+  it('libera el lock al cerrar', async () => {
+    const first = open();
+    await first.count();
+    await first.close();
+    await expect(open().count()).resolves.toBe(2);
+  });
+
+  it('deshace en memoria los cambios que no se pudieron escribir', async () => {
+    await writeFile(filePath, '[]', 'utf-8');
+    const store = open();
+    const kept = await store.create({ title: 'A', content: 'a' }, VIEWER);
+
+    // Un directorio en la ruta del fichero temporal hace fallar la escritura
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await mkdir(tmpPath);
+    await expect(store.create({ title: 'B', content: 'b' }, VIEWER)).rejects.toThrow();
+    await expect(store.update(kept.id, { title: 'A2' }, VIEWER)).rejects.toThrow();
+    await expect(store.delete(kept.id, VIEWER)).rejects.toThrow();
+    expect((await store.list(VIEWER)).map((note) => note.title)).toEqual(['A']);
+
+    await rm(tmpPath, { recursive: true });
+    await store.create({ title: 'C', content: 'c' }, VIEWER);
+    const stored = JSON.parse(await readFile(filePath, 'utf-8'));
+    expect(stored.map((note: { title: string }) => note.title)).toEqual(['A', 'C']);
+  });
+});
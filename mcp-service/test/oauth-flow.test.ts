@@ -0,0 +1,125 @@
+import axios from 'axios';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getTokenFromSession, OAuthConfig } from '../src/auth/oauth-flow.js';
+import { getSessionStore } from '../src/storage/session-store.js';
+
+const CONFIG: OAuthConfig = {
+  enabled: true,
+  issuer: 'https://ias.example.com',
+  clientId: 'client',
+  clientSecret: 'secret',
+  redirectUri: 'http://localhost:3001/mcp/callback',
+  scopes: ['openid', 'offline_access'],
+};
+
+const store = getSessionStore();
+const getToken = getTokenFromSession(CONFIG);
+
+/**
+ * Guarda una sesión OAuth como lo haría /mcp/callback
+ */
+async function saveSession(sessionId: string, expiresInMs: number, refreshToken?: string): Promise<void> {
+  await store.set(`oauth:session:${sessionId}`, {
+    access_token: `access-${sessionId}`,
+    refresh_token: refreshToken,
+    expires_at: Date.now() + expiresInMs,
+  });
+}
+
+/**
+ * Respuesta del endpoint de token de IAS
+ */
+function tokenResponse(accessToken: string, refreshToken?: string) {
+  return { data: { access_token: accessToken, refresh_token: refreshToken, expires_in: 3600 } };
+}
+
+/**
+ * refresh_token enviado en la llamada n-ésima a axios.post
+ */
+function sentRefreshToken(post: ReturnType<typeof vi.spyOn>, call: number): string | null {
+  return new URLSearchParams(post.mock.calls[call][1] as string).get('refresh_token');
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('getTokenFromSession', () => {
+  it('no renueva un token fuera del margen de renovación', async () => {
+    const post = vi.spyOn(axios, 'post');
+    await saveSession('fresh', 10 * 60 * 1000, 'refresh-1');
+    await expect(getToken('fresh')).resolves.toBe('access-fresh');
+    expect(post).not.toHaveBeenCalled();
+  });
+
+  it('renueva dentro del margen y usa el refresh_token rotado en el siguiente refresh', async () => {
+    const post = vi.spyOn(axios, 'post')
+      .mockResolvedValueOnce(tokenResponse('access-2', 'refresh-2'))
+      .mockResolvedValueOnce(tokenResponse('access-3'));
+    await saveSession('rotating', 30 * 1000, 'refresh-1');
+
+    await expect(getToken('rotating')).resolves.toBe('access-2');
+    expect(post).toHaveBeenCalledWith(`${CONFIG.issuer}/oauth2/token`, expect.any(String), expect.any(Object));
+    expect(sentRefreshToken(post, 0)).toBe('refresh-1');
+
+    // Forzar otra renovación: el token renovado pasa a estar expirado
+    const session = await store.get<{ expires_at: number }>('oauth:session:rotating');
+    await store.set('oauth:session:rotating', { ...session, expires_at: Date.now() - 1000 });
+    await expect(getToken('rotating')).resolves.toBe('access-3');
+    expect(sentRefreshToken(post, 1)).toBe('refresh-2');
+
+    // Sin rotación se conserva el refresh_token anterior
+    await expect(store.get('oauth:session:rotating')).resolves.toMatchObject({ refresh_token: 'refresh-2' });
+  });
+
+  it('las llamadas concurrentes de la misma sesión comparten un único refresh', async () => {
+    let respond!: (value: unknown) => void;
+    const post = vi.spyOn(axios, 'post').mockReturnValue(new Promise((resolve) => { respond = resolve; }));
+    await saveSession('concurrent', -1000, 'refresh-1');
+
+    const calls = Promise.all([getToken('concurrent'), getToken('concurrent'), getToken('concurrent')]);
+    await vi.waitFor(() => expect(post).toHaveBeenCalled());
+    respond(tokenResponse('access-2', 'refresh-2'));
+
+    await expect(calls).resolves.toEqual(['access-2', 'access-2', 'access-2']);
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it('usa la sesión rotada por otra réplica si su propio refresh falla', async () => {
+    await saveSession('replica', -1000, 'refresh-1');
+    vi.spyOn(axios, 'post').mockImplementation(async () => {
+      // Mientras tanto, otra réplica ya canjeó refresh-1 y guardó el resultado
+      await store.set('oauth:session:replica', {
+        access_token: 'access-other',
+        refresh_token: 'refresh-other',
+        expires_at: Date.now() + 3600 * 1000,
+      });
+      throw Object.assign(new Error('invalid_grant'), { response: { status: 400, data: { error: 'invalid_grant' } } });
+    });
+
+    await expect(getToken('replica')).resolves.toBe('access-other');
+    await expect(store.get('oauth:session:replica')).resolves.toBeDefined();
+  });
+
+  it('un refresh_token rechazado con el token ya expirado cierra la sesión', async () => {
+    vi.spyOn(axios, 'post').mockRejectedValue(
+      Object.assign(new Error('invalid_grant'), { response: { status: 400, data: { error: 'invalid_grant' } } })
+    );
+    await saveSession('revoked', -1000, 'refresh-1');
+
+    await expect(getToken('revoked')).resolves.toBeNull();
+    await expect(store.get('oauth:session:revoked')).resolves.toBeUndefined();
+  });
+
+  it('si el refresh falla y el token aún no expiró, lo sigue usando', async () => {
+    vi.spyOn(axios, 'post').mockRejectedValue(new Error('ECONNRESET'));
+    await saveSession('flaky', 30 * 1000, 'refresh-1');
+    await expect(getToken('flaky')).resolves.toBe('access-flaky');
+  });
+
+  it('sin refresh_token, una sesión expirada se descarta', async () => {
+    await saveSession('no-refresh', -1000);
+    await expect(getToken('no-refresh')).resolves.toBeNull();
+    await expect(store.get('oauth:session:no-refresh')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { CAPClient } from '../src/cap-integration.js';
+import { parseMetadata } from '../src/odata-metadata.js';
+import { generateODataTools, ODataToolCatalog } from '../src/odata-tools.js';
+import { ToolContext } from '../src/tools/registry.js';
+
+const METADATA = `<?xml version="1.0" encoding="utf-8"?>
+<edmx:Edmx Version="4.0" xmlns:edmx="http://docs.oasis-open.org/odata/ns/edmx">
+  <edmx:DataServices>
+    <Schema Namespace="CatalogService" xmlns="http://docs.oasis-open.org/odata/ns/edm">
+      <EntityContainer Name="EntityContainer">
+        <EntitySet Name="Categories" EntityType="CatalogService.Categories"/>
+        <FunctionImport Name="searchProducts" Function="CatalogService.searchProducts"/>
+      </EntityContainer>
+      <EntityType Name="Categories">
+        <Key><PropertyRef Name="code"/></Key>
+        <Property Name="code" Type="Edm.String" Nullable="false"/>
+        <Property Name="name" Type="Edm.String"/>
+      </EntityType>
+      <Function Name="searchProducts" IsBound="false">
+        <Parameter Name="text" Type="Edm.String"/>
+        <ReturnType Type="Collection(Edm.String)"/>
+      </Function>
+    </Schema>
+  </edmx:DataServices>
+</edmx:Edmx>`;
+
+/**
+ * CAPClient que solo registra las rutas (y los cuerpos) pedidos
+ */
+function recordingClient(paths: string[], bodies: unknown[] = []): CAPClient {
+  return {
+    request: async (_method: string, path: string, body?: unknown) => {
+      paths.push(path);
+      bodies.push(body);
+      return {};
+    },
+  } as unknown as CAPClient;
+}
+
+describe('generateODataTools', () => {
+  const tools = generateODataTools(parseMetadata(METADATA), 'odata');
+  const tool = (name: string) => tools.find((t) => t.name === name)!;
+
+  it('codifica los literales de clave para el path', async () => {
+    const paths: string[] = [];
+    await tool('odata_Categories_get').execute(recordingClient(paths), { code: "a/b?c#d'e" });
+    expect(paths).toEqual([`/Categories(${encodeURIComponent("'a/b?c#d''e'")})`]);
+  });
+
+  it('codifica los parámetros de las funciones', async () => {
+    const paths: string[] = [];
+    await tool('odata_searchProducts').execute(recordingClient(paths), { text: "50% off & 'más'" });
+    expect(paths).toEqual([`/searchProducts(text=${encodeURIComponent("'50% off & ''más'''")})`]);
+  });
+
+  it('solo envía a CAP las propiedades declaradas al crear y modificar', async () => {
+    const bodies: unknown[] = [];
+    await tool('odata_Categories_create').execute(recordingClient([], bodies), { code: 'C1', name: 'Café', stock: 5 });
+    await tool('odata_Categories_update').execute(recordingClient([], bodies), { code: 'C1', name: 'Té', code2: 'x' });
+    expect(bodies).toEqual([{ code: 'C1', name: 'Café' }, { name: 'Té' }]);
+  });
+
+  it('desambigua con un hash los nombres que coinciden al recortarlos a 64 caracteres', () => {
+    const longSet = 'A'.repeat(60);
+    const names = generateODataTools(parseMetadata(METADATA.replaceAll('Categories', longSet)), 'odata')
+      .map((t) => t.name);
+    expect(new Set(names).size).toBe(names.length);
+    expect(names.every((name) => /^[a-zA-Z0-9_-]{1,64}$/.test(name))).toBe(true);
+    expect(names.filter((name) => name.startsWith(`odata_${longSet.slice(0, 10)}`))).toHaveLength(5);
+    expect(names).toContain('odata_searchProducts');
+  });
+});
+
+describe('ODataToolCatalog', () => {
+  const OPTIONS = { prefix: 'odata', allow: [], deny: [], ttlMs: 60_000 };
+  const metadataClient = () => ({ getMetadata: async () => METADATA }) as unknown as CAPClient;
+  // El CAPClient del usuario que llama nunca se usa para leer el $metadata
+  const context = { capClient: { getMetadata: async () => { throw new Error('token del usuario'); } } } as unknown as ToolContext;
+
+  it('sin ODATA_TOOLS_WRITES_ENABLED solo expone lecturas', async () => {
+    const catalog = new ODataToolCatalog({ ...OPTIONS, writes: false }, async () => metadataClient());
+    expect((await catalog.tools(context)).map((t) => t.name).sort())
+      .toEqual(['odata_Categories_get', 'odata_Categories_list', 'odata_searchProducts']);
+  });
+
+  it('con escrituras habilitadas expone también create, update y delete', async () => {
+    const catalog = new ODataToolCatalog({ ...OPTIONS, writes: true }, async () => metadataClient());
+    expect((await catalog.tools(context)).map((t) => t.name)).toContain('odata_Categories_delete');
+  });
+});
@@ -0,0 +1,64 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { CAP_DATA, startService, TestService } from './mcp-harness.js';
+
+const MISSING_ID = '00000000-0000-4000-8000-000000000099';
+
+let service: TestService;
+let client: Client;
+
+beforeAll(async () => {
+  service = await startService();
+  client = await service.connect('ana');
+});
+
+describe('presupuestos de órdenes', () => {
+  it('cap_quote_order calcula líneas, total y avisos de stock y productos no encontrados', async () => {
+    const [p1, p2] = CAP_DATA.Products;
+    const result = await client.callTool({
+      name: 'cap_quote_order',
+      arguments: {
+        customerName: 'Ana',
+        items: [
+          { productId: p1.ID, quantity: 3 },
+          { productId: p2.ID, quantity: 10 },
+          { productId: MISSING_ID, quantity: 1 },
+        ],
+      },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toEqual({
+      quote: {
+        customerName: 'Ana',
+        lines: [
+          { productId: p1.ID, productName: 'P1', quantity: 3, unitPrice: 10, subtotal: 30, stock: 4 },
+          { productId: p2.ID, productName: 'P2', quantity: 10, unitPrice: 20, subtotal: 200, stock: 8, warning: 'stock insuficiente: faltan 2 unidades' },
+          { productId: MISSING_ID, quantity: 1, warning: 'producto no encontrado' },
+        ],
+        total: 230,
+        fulfillable: false,
+      },
+    });
+    expect((result.content as Array<{ text: string }>)[0].text).toContain('💰 Total: $230');
+  });
+
+  it('cap_create_order con dryRun devuelve el presupuesto sin crear la orden', async () => {
+    const [p1] = CAP_DATA.Products;
+    const orders = CAP_DATA.Orders.length;
+    const requestsBefore = service.capRequests.length;
+
+    const result = await client.callTool({
+      name: 'cap_create_order',
+      arguments: { customerName: 'Ana', items: [{ productId: p1.ID, quantity: 2 }], dryRun: true },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({ quote: { total: 20, fulfillable: true } });
+    expect(result.structuredContent).not.toHaveProperty('order');
+    const requests = service.capRequests.slice(requestsBefore);
+    expect(requests.every((request) => request.method === 'GET')).toBe(true);
+    expect(requests.some((request) => request.path === '/createCompleteOrder')).toBe(false);
+    expect(CAP_DATA.Orders).toHaveLength(orders);
+  });
+});
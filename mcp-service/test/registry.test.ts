@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { CapUnavailableError } from '../src/cap-resilience.js';
+import { BUILTIN_TOOLS, ToolContext, ToolDefinition, ToolError, ToolRegistry } from '../src/tools/index.js';
+
+const context = { viewer: { sub: 'ana', groups: [] } } as unknown as ToolContext;
+
+/**
+ * Herramienta mínima cuyo handler lanza `error` (o devuelve un texto)
+ */
+function fakeTool(name: string, error?: Error, extra: Partial<ToolDefinition> = {}): ToolDefinition {
+  return {
+    name,
+    description: `Herramienta ${name}`,
+    inputSchema: { type: 'object', properties: {} },
+    permissions: [],
+    handler: async () => {
+      if (error) {
+        throw error;
+      }
+      return { content: [{ type: 'text', text: `${name} ok` }] };
+    },
+    ...extra,
+  };
+}
+
+describe('ToolRegistry', () => {
+  it('tools/list y tools/call salen del mismo registro, incluidas las de los proveedores', async () => {
+    const registry = new ToolRegistry()
+      .register(fakeTool('builtin'))
+      .addProvider({ tools: async () => [fakeTool('dynamic'), fakeTool('builtin', new Error('no debería usarse'))] });
+
+    expect((await registry.list(context)).map((tool) => tool.name)).toEqual(['builtin', 'dynamic']);
+    await expect(registry.call('dynamic', {}, context)).resolves.toMatchObject({ content: [{ text: 'dynamic ok' }] });
+    // Las integradas tienen prioridad sobre un proveedor que repite el nombre
+    await expect(registry.call('builtin', {}, context)).resolves.toMatchObject({ content: [{ text: 'builtin ok' }] });
+  });
+
+  it('convierte los errores de los handlers en resultados con isError', async () => {
+    const registry = new ToolRegistry().register(
+      fakeTool('tool_error', new ToolError('Note 7 not found')),
+      fakeTool('cap_down', new CapUnavailableError('GET /Products: HTTP 503')),
+      fakeTool('unexpected', new Error('boom'), { errorMessage: 'Error al obtener productos' }),
+      fakeTool('unexpected_default', new Error('boom')),
+    );
+
+    const text = async (name: string) => {
+      const result = await registry.call(name, {}, context);
+      expect(result.isError).toBe(true);
+      return (result.content[0] as { text: string }).text;
+    };
+    await expect(text('tool_error')).resolves.toBe('Note 7 not found');
+    await expect(text('cap_down')).resolves.toBe('🔌 CAP backend unavailable: GET /Products: HTTP 503');
+    await expect(text('unexpected')).resolves.toBe('❌ Error al obtener productos: boom');
+    await expect(text('unexpected_default')).resolves.toBe('❌ Error en unexpected_default: boom');
+  });
+
+  it('oculta y rechaza las herramientas que el autorizador no permite', async () => {
+    const registry = new ToolRegistry().register(fakeTool('public'), fakeTool('admin_only', undefined, { permissions: ['cap:admin'] }));
+    registry.setAuthorizer((tool) => tool.permissions.length === 0);
+
+    expect((await registry.list(context)).map((tool) => tool.name)).toEqual(['public']);
+    await expect(registry.call('admin_only', {}, context)).resolves.toMatchObject({
+      isError: true,
+      content: [{ text: '⛔ No tienes permiso para usar admin_only' }],
+    });
+  });
+
+  it('no permite registrar dos veces el mismo nombre', () => {
+    expect(() => new ToolRegistry().register(fakeTool('a'), fakeTool('a'))).toThrow('Tool a is already registered');
+  });
+
+  it('las herramientas integradas tienen nombre único, schema de objeto, anotaciones y permisos', () => {
+    const registry = new ToolRegistry().register(...BUILTIN_TOOLS);
+    expect(registry.names()).toHaveLength(BUILTIN_TOOLS.length);
+    for (const tool of BUILTIN_TOOLS) {
+      expect(tool.inputSchema.type, tool.name).toBe('object');
+      expect(tool.annotations?.title, tool.name).toBeTruthy();
+      expect(tool.permissions.length, tool.name).toBeGreaterThan(0);
+    }
+  });
+});
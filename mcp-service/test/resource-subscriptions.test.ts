@@ -0,0 +1,61 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { describe, expect, it } from 'vitest';
+import { ResourceSubscriptions } from '../src/resource-subscriptions.js';
+
+/**
+ * Server que solo registra las URIs notificadas (y los avisos de lista cambiada como "list")
+ */
+function recordingServer(updated: string[]): Server {
+  return {
+    sendResourceUpdated: async ({ uri }: { uri: string }) => {
+      updated.push(uri);
+    },
+    sendResourceListChanged: async () => {
+      updated.push('list');
+    },
+  } as unknown as Server;
+}
+
+describe('ResourceSubscriptions', () => {
+  it('solo notifica a las sesiones que siguen pudiendo leer el recurso', async () => {
+    const subscriptions = new ResourceSubscriptions(async (sessionId) => sessionId === 'ana');
+    const ana: string[] = [];
+    const luis: string[] = [];
+    subscriptions.register('ana', recordingServer(ana), ['note:///1']);
+    subscriptions.register('luis', recordingServer(luis), ['note:///1']);
+
+    await subscriptions.notifyUpdated('note:///1');
+    expect(ana).toEqual(['note:///1']);
+    expect(luis).toEqual([]);
+  });
+
+  it('usa la comprobación indicada al notificar y no notifica si falla', async () => {
+    const subscriptions = new ResourceSubscriptions();
+    const ana: string[] = [];
+    subscriptions.register('ana', recordingServer(ana), ['note:///1']);
+
+    await subscriptions.notifyUpdated('note:///1', async () => false);
+    await subscriptions.notifyUpdated('note:///1', async () => {
+      throw new Error('store caído');
+    });
+    expect(ana).toEqual([]);
+
+    await subscriptions.notifyUpdated('note:///1');
+    expect(ana).toEqual(['note:///1']);
+  });
+
+  it('avisa del cambio de lista de un recurso solo a las sesiones que pueden leerlo', async () => {
+    const subscriptions = new ResourceSubscriptions();
+    const ana: string[] = [];
+    const luis: string[] = [];
+    subscriptions.register('ana', recordingServer(ana));
+    subscriptions.register('luis', recordingServer(luis));
+
+    await subscriptions.notifyListChanged('note:///privada', async (sessionId) => sessionId === 'ana');
+    expect(ana).toEqual(['list']);
+    expect(luis).toEqual([]);
+
+    await subscriptions.notifyListChanged();
+    expect(luis).toEqual(['list']);
+  });
+});
@@ -0,0 +1,76 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { startService, TestService } from './mcp-harness.js';
+
+let service: TestService;
+
+beforeAll(async () => {
+  service = await startService();
+});
+
+/**
+ * Petición a /mcp como un cliente sin SDK (sin abrir el stream GET)
+ */
+function mcp(sessionId: string | undefined, body: unknown, headers: Record<string, string> = {}) {
+  return fetch(`${service.url}/mcp`, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: body === undefined ? 'text/event-stream' : 'application/json, text/event-stream',
+      Authorization: `Bearer ${service.token('ana')}`,
+      ...(sessionId ? { 'mcp-session-id': sessionId } : {}),
+      ...headers,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+/**
+ * Lee eventos SSE de la respuesta hasta que uno contiene `text`
+ */
+async function readEventsUntil(response: Response, text: string): Promise<Array<{ id?: string; data: string }>> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (!buffer.includes(text)) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    await reader.cancel();
+  }
+  return buffer.split('\n\n').filter((event) => event.includes('data:')).map((event) => ({
+    id: /^id: (.*)$/m.exec(event)?.[1],
+    data: /^data: (.*)$/m.exec(event)![1],
+  }));
+}
+
+describe('stream GET /mcp reanudable', () => {
+  it('reenvía al reconectar con Last-Event-ID las notificaciones emitidas sin conexión abierta', async () => {
+    const initialize = await mcp(undefined, {
+      jsonrpc: '2.0', id: 0, method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'raw', version: '1' } },
+    });
+    const sessionId = initialize.headers.get('mcp-session-id')!;
+    await initialize.text();
+    await (await mcp(sessionId, { jsonrpc: '2.0', method: 'notifications/initialized' })).text();
+
+    // Sin stream GET abierto: las notificaciones solo quedan en el event store
+    for (const title of ['Una', 'Dos']) {
+      const created = await mcp(sessionId, { jsonrpc: '2.0', id: title, method: 'tools/call', params: { name: 'create_note', arguments: { title, content: 'x' } } });
+      expect(await created.text()).toContain('Created note');
+    }
+
+    const resumed = await mcp(sessionId, undefined, { 'Last-Event-ID': '_GET_stream:0' });
+    expect(resumed.status).toBe(200);
+    const events = await readEventsUntil(resumed, '_GET_stream:2');
+    expect(events.map((event) => event.id)).toEqual(['_GET_stream:1', '_GET_stream:2']);
+    expect(events.map((event) => JSON.parse(event.data).method)).toEqual([
+      'notifications/resources/list_changed',
+      'notifications/resources/list_changed',
+    ]);
+  });
+});
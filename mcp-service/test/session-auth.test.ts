@@ -0,0 +1,48 @@
+import jwt from 'jsonwebtoken';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { startService, TestService } from './mcp-harness.js';
+
+let service: TestService;
+
+beforeAll(async () => {
+  service = await startService();
+});
+
+/**
+ * `sub` del bearer con el que llegó a CAP cada petición a /Products
+ */
+function productCallers(): string[] {
+  return service.capRequests
+    .filter((request) => request.path.startsWith('/Products'))
+    .map((request) => (jwt.decode(request.authorization!.replace('Bearer ', '')) as { sub: string }).sub);
+}
+
+describe('credenciales de CAP por sesión', () => {
+  it('cada llamada usa el token de su propia sesión aunque otra se haya conectado después', async () => {
+    const ana = await service.connect('ana');
+    await ana.callTool({ name: 'cap_list_products', arguments: {} });
+    const bob = await service.connect('bob');
+    await ana.callTool({ name: 'cap_list_products', arguments: {} });
+    await bob.callTool({ name: 'cap_list_products', arguments: {} });
+
+    expect(productCallers()).toEqual(['ana', 'ana', 'bob']);
+  });
+
+  it('las llamadas concurrentes de dos usuarios no comparten credenciales', async () => {
+    const [ana, bob] = await Promise.all([service.connect('ana'), service.connect('bob')]);
+    service.capRequests.length = 0;
+
+    await Promise.all([ana, bob, ana, bob].map((client) => client.callTool({ name: 'cap_list_products', arguments: {} })));
+    expect(productCallers().sort()).toEqual(['ana', 'ana', 'bob', 'bob']);
+  });
+
+  it('rechaza POST /mcp sin token', async () => {
+    const response = await fetch(`${service.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toContain('resource_metadata=');
+  });
+});
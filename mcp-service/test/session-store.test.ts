@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RedisSessionStore } from '../src/storage/redis-session-store.js';
+import { MemorySessionStore, SessionStore } from '../src/storage/session-store.js';
+
+// Redis falso en memoria con la misma API que ioredis
+vi.mock('ioredis', async () => {
+  const { default: RedisMock } = await import('ioredis-mock');
+  return { Redis: RedisMock, default: RedisMock };
+});
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+let prefixes = 0;
+const backends: Array<[string, () => SessionStore]> = [
+  ['memory', () => new MemorySessionStore()],
+  ['redis', () => new RedisSessionStore('redis://localhost:6379', `test-${++prefixes}:`)],
+];
+
+describe.each(backends)('SessionStore (%s)', (_backend, createStore) => {
+  it('guarda y lee valores JSON y los borra', async () => {
+    const store = createStore();
+    await store.set('oauth:session:s1', { access_token: 'a', expires_at: 1 });
+    await expect(store.get('oauth:session:s1')).resolves.toEqual({ access_token: 'a', expires_at: 1 });
+    await store.delete('oauth:session:s1');
+    await expect(store.get('oauth:session:s1')).resolves.toBeUndefined();
+  });
+
+  it('expira las claves con TTL; un TTL agotado equivale a borrar', async () => {
+    const store = createStore();
+    await store.set('state:1', 'x', 20);
+    await store.set('state:2', 'y');
+    await store.set('state:2', 'y', 0);
+    await expect(store.get('state:1')).resolves.toBe('x');
+    await expect(store.get('state:2')).resolves.toBeUndefined();
+    await wait(40);
+    await expect(store.get('state:1')).resolves.toBeUndefined();
+  });
+
+  it('setIfAbsent solo lo consigue una de varias llamadas concurrentes', async () => {
+    const store = createStore();
+    const results = await Promise.all([1, 2, 3].map((n) => store.setIfAbsent('idempotency:k', n, 1000)));
+    expect(results.filter(Boolean)).toHaveLength(1);
+    await expect(store.get('idempotency:k')).resolves.toBe(results.indexOf(true) + 1);
+  });
+
+  it('take entrega el valor a una sola llamada', async () => {
+    const store = createStore();
+    await store.set('confirm:t', { tool: 'cap_create_order' }, 1000);
+    const taken = await Promise.all([store.take('confirm:t'), store.take('confirm:t')]);
+    expect(taken.filter((value) => value !== undefined)).toEqual([{ tool: 'cap_create_order' }]);
+    await expect(store.get('confirm:t')).resolves.toBeUndefined();
+  });
+
+  it('responde al ping de readiness', async () => {
+    await expect(createStore().ping()).resolves.toBeUndefined();
+  });
+});
+
+describe('RedisSessionStore', () => {
+  it('aísla las claves de cada SESSION_STORE_PREFIX', async () => {
+    const a = new RedisSessionStore('redis://localhost:6379', 'service-a:');
+    const b = new RedisSessionStore('redis://localhost:6379', 'service-b:');
+    await a.set('mcp:session:1', { owner: 'ana' });
+    await expect(b.get('mcp:session:1')).resolves.toBeUndefined();
+    await expect(a.get('mcp:session:1')).resolves.toEqual({ owner: 'ana' });
+  });
+});
@@ -0,0 +1,53 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { validateArguments } from '../src/tools/validation.js';
+import { CAP_DATA, startService, TestService } from './mcp-harness.js';
+
+let service: TestService;
+let client: Client;
+let outputSchemas: Record<string, unknown>;
+
+beforeAll(async () => {
+  service = await startService();
+  client = await service.connect('ana');
+  const { tools } = await client.listTools();
+  outputSchemas = Object.fromEntries(tools.map((tool) => [tool.name, tool.outputSchema]));
+});
+
+/**
+ * structuredContent de la llamada, comprobado contra el outputSchema publicado
+ */
+async function structured(name: string, args: Record<string, unknown>) {
+  const result = await client.callTool({ name, arguments: args });
+  expect(result.isError).toBeFalsy();
+  expect((result.content as Array<{ type: string }>)[0].type).toBe('text');
+  expect(validateArguments(outputSchemas[name], result.structuredContent)).toEqual([]);
+  return result.structuredContent as any;
+}
+
+describe('structuredContent de las herramientas CAP', () => {
+  it('cap_list_products devuelve productos tipados', async () => {
+    const { count, products } = await structured('cap_list_products', {});
+    expect(count).toBe(CAP_DATA.Products.length);
+    expect(products[0]).toEqual({ ID: CAP_DATA.Products[0].ID, name: 'P1', category: 'C', price: 10, stock: 4, active: true });
+  });
+
+  it('cap_create_order devuelve la orden con sus líneas y números en lugar de strings', async () => {
+    const [p1, p2] = CAP_DATA.Products;
+    const { order } = await structured('cap_create_order', {
+      customerName: 'Ana',
+      items: [{ productId: p1.ID, quantity: 2 }, { productId: p2.ID, quantity: 1 }],
+    });
+    expect(order).toMatchObject({ customerName: 'Ana', status: 'PENDING', totalAmount: 40 });
+    expect(order.items).toEqual([
+      expect.objectContaining({ productId: p1.ID, productName: 'P1', quantity: 2, unitPrice: 10, subtotal: 20 }),
+      expect.objectContaining({ productId: p2.ID, productName: 'P2', quantity: 1, unitPrice: 20, subtotal: 20 }),
+    ]);
+  });
+
+  it('cap_update_order_status devuelve la orden actualizada', async () => {
+    const orderId = CAP_DATA.Orders[0].ID as string;
+    const { order } = await structured('cap_update_order_status', { orderId, newStatus: 'PROCESSING' });
+    expect(order).toMatchObject({ ID: orderId, status: 'PROCESSING', totalAmount: 400 });
+  });
+});
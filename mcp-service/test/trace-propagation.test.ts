@@ -0,0 +1,63 @@
+import { mkdtemp, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { hashUserId } from '../src/tracing.js';
+import { startService, TestService } from './mcp-harness.js';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const CLIENT_SPAN_ID = '00f067aa0ba902b7';
+
+let service: TestService;
+let tracesFile: string;
+
+beforeAll(async () => {
+  tracesFile = join(await mkdtemp(join(tmpdir(), 'traces-')), 'traces.jsonl');
+  service = await startService({ OTEL_TRACES_EXPORTER: 'file', TRACES_FILE: tracesFile, OTEL_BSP_SCHEDULE_DELAY: '10' });
+});
+
+/**
+ * Spans de la traza escritos en TRACES_FILE
+ */
+async function spansOfTrace(): Promise<any[]> {
+  const lines = (await readFile(tracesFile, 'utf-8').catch(() => '')).split('\n').filter(Boolean);
+  return lines.map((line) => JSON.parse(line)).filter((span) => span.traceId === TRACE_ID);
+}
+
+describe('trazas de una llamada a herramienta', () => {
+  it('continúa el traceparent del cliente MCP hasta la petición a CAP', async () => {
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${service.url}/mcp`), {
+      requestInit: {
+        headers: {
+          Authorization: `Bearer ${service.token('ana')}`,
+          traceparent: `00-${TRACE_ID}-${CLIENT_SPAN_ID}-01`,
+        },
+      },
+    }));
+    const requestsBefore = service.capRequests.length;
+
+    await client.callTool({ name: 'cap_list_products', arguments: {} });
+
+    // La exportación es por lotes y el span del POST /mcp termina al cerrarse la respuesta
+    const cap = await vi.waitFor(async () => {
+      const spans = await spansOfTrace();
+      const byName = (name: string) => spans.find((span) => span.name === name);
+      const tool = byName('tools/call cap_list_products');
+      const cap = byName('GET Products');
+      // Cada POST /mcp de la sesión (initialize, tools/call...) es un span de servidor de la misma traza
+      const server = spans.find((span) => span.spanId === tool?.parentSpanId);
+
+      expect(server).toMatchObject({ name: 'POST /mcp', kind: 'server', parentSpanId: CLIENT_SPAN_ID, attributes: { 'rpc.method': 'tools/call' } });
+      expect(tool.attributes).toMatchObject({ 'mcp.tool.name': 'cap_list_products', 'enduser.hashed_id': hashUserId('ana') });
+      expect(cap).toMatchObject({ kind: 'client', parentSpanId: tool.spanId });
+      return cap;
+    }, { timeout: 5000, interval: 20 });
+
+    const capRequest = service.capRequests.slice(requestsBefore).find((request) => request.path.startsWith('/Products'));
+    expect(capRequest?.traceparent).toBe(`00-${TRACE_ID}-${cap.spanId}-01`);
+    await client.close();
+  });
+});
@@ -0,0 +1,87 @@
+import { createServer, IncomingHttpHeaders, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { propagation, ROOT_CONTEXT, SpanStatusCode, trace } from '@opentelemetry/api';
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-base';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { CAPClient } from '../src/cap-integration.js';
+import { CapResilience } from '../src/cap-resilience.js';
+import { getTracer, initTracing, traced } from '../src/tracing.js';
+
+const exporter = new InMemorySpanExporter();
+const received: IncomingHttpHeaders[] = [];
+let server: Server;
+let capUrl: string;
+
+beforeAll(async () => {
+  process.env.OTEL_BSP_SCHEDULE_DELAY = '1';
+  initTracing({ serviceName: 'mcp-service-test', exporter: 'none', filePath: '' }, exporter);
+
+  // CAP falso: guarda las cabeceras y responde 500 a /Fail
+  server = createServer((req, res) => {
+    received.push(req.headers);
+    res.writeHead(req.url?.includes('/Fail') ? 500 : 200, { 'Content-Type': 'application/json' });
+    res.end('{"value":[]}');
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  capUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const capClient = () => new CAPClient(capUrl, undefined, new CapResilience({
+  timeoutMs: 1000, retries: 0, retryBaseDelayMs: 0, retryMaxDelayMs: 0, breakerThreshold: 100, breakerResetMs: 1000,
+}));
+
+/**
+ * Spans exportados con ese nombre (la exportación es por lotes)
+ */
+async function exported(name: string) {
+  await vi.waitFor(() => expect(exporter.getFinishedSpans().map((span) => span.name)).toContain(name));
+  return exporter.getFinishedSpans().filter((span) => span.name === name);
+}
+
+describe('traceparent', () => {
+  it('continúa la traza de un traceparent entrante válido', () => {
+    const parent = propagation.extract(ROOT_CONTEXT, { traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' });
+    const span = getTracer().startSpan('POST /mcp', {}, parent);
+    expect(span.spanContext().traceId).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    expect(span.spanContext().spanId).not.toBe('00f067aa0ba902b7');
+    span.end();
+  });
+
+  it('ignora un traceparent inválido y empieza una traza nueva', () => {
+    for (const traceparent of ['00-00000000000000000000000000000000-00f067aa0ba902b7-01', '00-xyz-00f067aa0ba902b7-01', 'basura']) {
+      const parent = propagation.extract(ROOT_CONTEXT, { traceparent });
+      expect(trace.getSpanContext(parent)).toBeUndefined();
+      const span = getTracer().startSpan('POST /mcp', {}, parent);
+      expect(span.spanContext().traceId).toMatch(/^(?!0+$)[0-9a-f]{32}$/);
+      span.end();
+    }
+  });
+
+  it('reenvía a CAP el traceparent del span de cliente, hijo del span activo', async () => {
+    received.length = 0;
+    const toolSpan = await traced('tools/call cap_list_products', {}, async (span) => {
+      await capClient().request('GET', '/Products');
+      return span.spanContext();
+    });
+
+    const [capSpan] = await exported('GET Products');
+    expect(capSpan.spanContext().traceId).toBe(toolSpan.traceId);
+    expect(capSpan.parentSpanContext?.spanId).toBe(toolSpan.spanId);
+    expect(received[0].traceparent).toBe(`00-${toolSpan.traceId}-${capSpan.spanContext().spanId}-01`);
+  });
+
+  it('marca con error el span de una petición fallida a CAP y el de la herramienta que lanza', async () => {
+    await expect(traced('tools/call cap_fail', {}, () => capClient().request('GET', '/Fail'))).rejects.toThrow();
+
+    const [capSpan] = await exported('GET Fail');
+    expect(capSpan.status.code).toBe(SpanStatusCode.ERROR);
+    expect(capSpan.attributes['http.response.status_code']).toBe(500);
+    const [toolSpan] = await exported('tools/call cap_fail');
+    expect(toolSpan.status.code).toBe(SpanStatusCode.ERROR);
+    expect(toolSpan.events.map((event) => event.name)).toContain('exception');
+  });
+});
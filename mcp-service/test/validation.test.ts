@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { ToolCallEvent, ToolContext, ToolDefinition, ToolRegistry } from '../src/tools/registry.js';
+import { validateArguments } from '../src/tools/validation.js';
+
+const SCHEMA = {
+  type: 'object',
+  properties: {
+    orderId: { type: 'string', format: 'uuid' },
+    quantity: { type: 'integer', minimum: 1 },
+  },
+  required: ['orderId'],
+  additionalProperties: false,
+};
+
+describe('validateArguments', () => {
+  it('acumula un problema por campo', () => {
+    expect(validateArguments(SCHEMA, { orderId: 'x', quantity: 0 })).toEqual([
+      { path: 'orderId', message: 'se esperaba un UUID' },
+      { path: 'quantity', message: 'debe ser mayor o igual que 1' },
+    ]);
+  });
+
+  it('no toma las propiedades heredadas de Object como declaradas', () => {
+    const args = JSON.parse('{"orderId":"6d7c1d8e-0b5a-4a57-9d5e-1c2f0b7c9a10","constructor":1,"__proto__":2}');
+    expect(validateArguments(SCHEMA, args).map((p) => p.path)).toEqual(['constructor', '__proto__']);
+    expect(validateArguments({ type: 'object', required: ['constructor'] }, {})).toEqual([
+      { path: 'constructor', message: 'es obligatorio' },
+    ]);
+  });
+
+  it('valida pattern en llamadas sucesivas con la expresión ya compilada', () => {
+    const schema = { type: 'object', properties: { sku: { type: 'string', pattern: '^[A-Z]{3}-\\d+$' } } };
+    expect(validateArguments(schema, { sku: 'ABC-1' })).toEqual([]);
+    expect(validateArguments(schema, { sku: 'abc' })).toEqual([{ path: 'sku', message: 'debe cumplir el patrón ^[A-Z]{3}-\\d+$' }]);
+  });
+});
+
+describe('ToolRegistry', () => {
+  it('devuelve los argumentos inválidos como resultado con isError sin llamar al handler', async () => {
+    let called = false;
+    const tool: ToolDefinition = {
+      name: 'cap_get_order',
+      description: 'Orden por ID',
+      inputSchema: SCHEMA as ToolDefinition['inputSchema'],
+      permissions: [],
+      handler: async () => {
+        called = true;
+        return { content: [] };
+      },
+    };
+    const registry = new ToolRegistry().register(tool);
+    const context = { viewer: { sub: 'ana', groups: [] } } as unknown as ToolContext;
+
+    const result = await registry.call('cap_get_order', { orderId: 'x' }, context);
+    expect(called).toBe(false);
+    expect(result.isError).toBe(true);
+    expect(result.content).toEqual([{ type: 'text', text: 'Argumentos inválidos para cap_get_order:\n- orderId: se esperaba un UUID' }]);
+  });
+
+  it('un pattern inválido en el inputSchema devuelve un resultado con isError en lugar de lanzar', async () => {
+    const tool: ToolDefinition = {
+      name: 'broken_tool',
+      description: 'Schema con un pattern que no compila',
+      inputSchema: { type: 'object', properties: { code: { type: 'string', pattern: '([a-z' } } },
+      permissions: [],
+      handler: async () => ({ content: [] }),
+    };
+    const registry = new ToolRegistry().register(tool);
+    const context = { viewer: { sub: 'ana', groups: [] } } as unknown as ToolContext;
+
+    const result = await registry.call('broken_tool', { code: 'abc' }, context);
+    expect(result.isError).toBe(true);
+    expect(result.content[0]).toMatchObject({ type: 'text', text: expect.stringContaining('inputSchema inválido') });
+  });
+
+  it('registra en los listeners las llamadas con argumentos inválidos y a herramientas desconocidas', async () => {
+    const tool: ToolDefinition = {
+      name: 'cap_get_order',
+      description: 'Orden por ID',
+      inputSchema: SCHEMA as ToolDefinition['inputSchema'],
+      permissions: [],
+      handler: async () => ({ content: [] }),
+    };
+    const registry = new ToolRegistry().register(tool);
+    const events: ToolCallEvent[] = [];
+    registry.onCall((event) => events.push(event));
+    const context = { viewer: { sub: 'ana', groups: [] } } as unknown as ToolContext;
+
+    await registry.call('cap_get_order', { orderId: 'x' }, context);
+    await expect(registry.call('cap_missing', { a: 1 }, context)).rejects.toThrow('Unknown tool: cap_missing');
+    expect(events).toMatchObject([
+      { tool: 'cap_get_order', outcome: 'invalid_arguments', error: expect.stringContaining('orderId') },
+      { tool: 'cap_missing', outcome: 'unknown_tool', args: { a: 1 } },
+    ]);
+  });
+});